@@ -1,5 +1,5 @@
 import * as React from "react"
-import { ChevronsUpDown, Plus } from "lucide-react"
+import { Archive, ChevronsUpDown, Plus } from "lucide-react"
 import { useFetcher, useLocation, useNavigate, useParams } from "react-router"
 import type { Form } from "#/types/form"
 import {
@@ -8,6 +8,9 @@ import {
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "#/components/ui/dropdown-menu"
 import {
@@ -43,6 +46,10 @@ export function FormSwitcher({ forms }: FormSwitcherProps) {
 
   const activeForm = forms.find((form) => form.id === formId) || forms[0]
 
+  // Archived forms stay reachable from a submenu so they can be restored
+  const openForms = forms.filter((form) => !form.archived_at)
+  const archivedForms = forms.filter((form) => form.archived_at)
+
   // Close dialog on successful submission
   React.useEffect(() => {
     setIsDialogOpen(false)
@@ -60,7 +67,9 @@ export function FormSwitcher({ forms }: FormSwitcherProps) {
               <img src="/favicon.svg" alt="" className="size-8 rounded-lg" />
               <div className="grid flex-1 text-left text-sm leading-tight">
                 <span className="truncate font-medium">{activeForm.name}</span>
-                <span className="truncate text-xs">{activeForm.id}</span>
+                <span className="truncate text-xs">
+                  {activeForm.archived_at ? "Archived" : activeForm.id}
+                </span>
               </div>
               <ChevronsUpDown className="ml-auto" />
             </SidebarMenuButton>
@@ -74,7 +83,7 @@ export function FormSwitcher({ forms }: FormSwitcherProps) {
             <DropdownMenuLabel className="text-muted-foreground text-xs">
               Forms
             </DropdownMenuLabel>
-            {forms.map((form) => (
+            {openForms.map((form) => (
               <DropdownMenuItem
                 key={form.id}
                 onClick={() => navigate(`/forms/${form.id}/submissions`)}
@@ -84,6 +93,25 @@ export function FormSwitcher({ forms }: FormSwitcherProps) {
                 {form.name}
               </DropdownMenuItem>
             ))}
+            {archivedForms.length > 0 && (
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger className="gap-2 p-2 text-muted-foreground">
+                  <Archive className="size-4" />
+                  Archived ({archivedForms.length})
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {archivedForms.map((form) => (
+                    <DropdownMenuItem
+                      key={form.id}
+                      onClick={() => navigate(`/forms/${form.id}/submissions`)}
+                      className="gap-2 p-2"
+                    >
+                      {form.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuItem
               className="gap-2 p-2"
@@ -0,0 +1,33 @@
+/// <reference types="node" />
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import { getAutoresponderRecipient } from "./autoresponder.server"
+
+describe("getAutoresponderRecipient", () => {
+  test("takes one address from the configured field", () => {
+    assert.equal(getAutoresponderRecipient({ email: " visitor@example.com " }, null), "visitor@example.com")
+    assert.equal(getAutoresponderRecipient({ contact: { email: "visitor@example.com" } }, "contact.email"), "visitor@example.com")
+  })
+
+  test("refuses values that name other recipients", () => {
+    for (const email of [
+      "a@x.io,b@y.io",
+      "a@x.io;b@y.io",
+      "a@x.io, b@y.io",
+      "Visitor <a@x.io>",
+      "<a@x.io>",
+      "a@x.io <b@y.io>",
+      '"b@y.io" a@x.io',
+      '"a,b"@x.io',
+      "a@x.io\r\nBcc: b@y.io",
+    ]) {
+      assert.equal(getAutoresponderRecipient({ email }, null), null, email)
+    }
+  })
+
+  test("needs a single string", () => {
+    assert.equal(getAutoresponderRecipient({ email: ["a@x.io", "b@y.io"] }, null), null)
+    assert.equal(getAutoresponderRecipient({ email: "not an address" }, null), null)
+    assert.equal(getAutoresponderRecipient({}, null), null)
+  })
+})
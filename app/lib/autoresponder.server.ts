@@ -0,0 +1,116 @@
+import type { SubmissionEmailData } from "#/types/submission"
+import { EMAIL_SETTINGS_COLUMNS, getEmailConfig, sendAutoresponse } from "./email.server"
+import type { EmailEnv, EmailSettings } from "./email.server"
+import { consumeCounter } from "./rate-limit.server"
+import { isEmailAddress, resolveSender } from "./recipients.server"
+import type { SenderSettings } from "./recipients.server"
+import { getField } from "./schema.server"
+import { createTemplateContext, renderTemplate } from "./templates.server"
+
+export const DEFAULT_AUTORESPONDER_FIELD = "email"
+export const DEFAULT_AUTORESPONDER_SUBJECT = "Thanks for getting in touch"
+export const DEFAULT_AUTORESPONDER_BODY = "Hi,\n\nThanks for your message. We've received it and will get back to you soon."
+
+// Confirmations per address per day, across all forms, so a form can't be used to flood someone's inbox
+const MAX_PER_RECIPIENT = 3
+const RECIPIENT_WINDOW_SECONDS = 86400
+
+const MAX_SUBJECT_LENGTH = 200
+
+export type AutoresponderSettings = {
+  autoresponder_enabled: number | null
+  autoresponder_field: string | null
+  autoresponder_subject: string | null
+  autoresponder_body: string | null
+} & EmailSettings &
+  SenderSettings
+
+/**
+ * Loads the form's autoresponder along with the email settings it sends with
+ */
+export async function getAutoresponderSettings(db: D1Database, formId: string): Promise<AutoresponderSettings | null> {
+  return db
+    .prepare(`
+      SELECT autoresponder_enabled, autoresponder_field, autoresponder_subject, autoresponder_body,
+             notification_from_name, notification_from_email, notification_reply_to_field,
+             ${EMAIL_SETTINGS_COLUMNS}
+      FROM form_settings WHERE form_id = ?
+    `)
+    .bind(formId)
+    .first<AutoresponderSettings>()
+}
+
+/**
+ * Emails the submitter a confirmation when the form has an autoresponder, the
+ * submission has a valid address in the configured field, and that address is
+ * under its daily limit. Spam never reaches this.
+ */
+export async function sendAutoresponder(
+  db: D1Database,
+  submission: SubmissionEmailData,
+  env: EmailEnv,
+  now = Date.now()
+): Promise<{ sent: boolean; reason?: string }> {
+  const settings = await getAutoresponderSettings(db, submission.formId)
+
+  if (!settings?.autoresponder_enabled) {
+    return { sent: false, reason: "disabled" }
+  }
+
+  const config = getEmailConfig(settings, env)
+  if (!config) {
+    return { sent: false, reason: "email_not_configured" }
+  }
+
+  const recipient = getAutoresponderRecipient(submission.data, settings.autoresponder_field)
+  if (!recipient) {
+    return { sent: false, reason: "no_recipient" }
+  }
+
+  const limit = await consumeCounter(
+    db,
+    `autoresponder:${recipient.toLowerCase()}`,
+    MAX_PER_RECIPIENT,
+    RECIPIENT_WINDOW_SECONDS,
+    now
+  )
+
+  if (limit.limited) {
+    return { sent: false, reason: "rate_limited" }
+  }
+
+  // Same template language as notification emails; both were checked when saved
+  const context = createTemplateContext(submission)
+
+  // Submitted values could carry line breaks, which don't belong in a subject
+  const subject = renderTemplate(settings.autoresponder_subject || DEFAULT_AUTORESPONDER_SUBJECT, context)
+    .replace(/[\r\n]+/g, " ")
+    .trim()
+    .slice(0, MAX_SUBJECT_LENGTH)
+
+  // From the same sender as notifications; replies go to it rather than back to the submitter
+  const { name, address } = resolveSender(settings, submission.data)
+
+  const result = await sendAutoresponse(
+    config,
+    {
+      to: recipient,
+      subject: subject || DEFAULT_AUTORESPONDER_SUBJECT,
+      text: renderTemplate(settings.autoresponder_body || DEFAULT_AUTORESPONDER_BODY, context),
+    },
+    { name, address }
+  )
+
+  return result.success ? { sent: true } : { sent: false, reason: result.error }
+}
+
+/**
+ * The submitter's address from the configured field, or null unless it holds
+ * exactly one. Lists and display names would let a submitter pick extra
+ * recipients, and dodge the per-address limit with spellings of the same one.
+ */
+export function getAutoresponderRecipient(data: Record<string, any>, field: string | null): string | null {
+  const value = getField(data, field || DEFAULT_AUTORESPONDER_FIELD)
+  const recipient = typeof value === "string" ? value.trim() : ""
+  return isEmailAddress(recipient) ? recipient : null
+}
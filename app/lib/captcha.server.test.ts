@@ -0,0 +1,85 @@
+/// <reference types="node" />
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import { siteverifyVerifier, verifyCaptcha } from "./captcha.server"
+import type { CaptchaSettings, CaptchaVerification } from "./captcha.server"
+
+const turnstile: CaptchaSettings = { captcha_provider: "turnstile", captcha_secret_key: "secret" }
+const request = new Request("https://formzero.test/api/forms/key/submissions", {
+  method: "POST",
+  headers: { "cf-connecting-ip": "203.0.113.7" },
+})
+
+// Records what it was asked to check and answers with `valid`
+function createVerifier(valid: boolean | Error) {
+  const calls: CaptchaVerification[] = []
+  const verifier = async (verification: CaptchaVerification) => {
+    calls.push(verification)
+    if (valid instanceof Error) throw valid
+    return valid
+  }
+  return { calls, verifier }
+}
+
+describe("verifyCaptcha", () => {
+  test("passes forms without a CAPTCHA, stripping any token fields", async () => {
+    const { calls, verifier } = createVerifier(false)
+    const result = await verifyCaptcha({ name: "Ada", "g-recaptcha-response": "token" }, null, request, verifier)
+
+    assert.deepEqual(result, { success: true, data: { name: "Ada" } })
+    assert.equal(calls.length, 0)
+  })
+
+  test("checks the provider's token with its secret and the submitter's IP", async () => {
+    const { calls, verifier } = createVerifier(true)
+    const result = await verifyCaptcha({ name: "Ada", "cf-turnstile-response": "token" }, turnstile, request, verifier)
+
+    assert.deepEqual(result, { success: true, data: { name: "Ada" } })
+    assert.deepEqual(calls, [{ provider: "turnstile", secret: "secret", token: "token", remoteIp: "203.0.113.7" }])
+  })
+
+  test("requires the provider's own token field", async () => {
+    const { calls, verifier } = createVerifier(true)
+    const result = await verifyCaptcha({ "h-captcha-response": "token" }, turnstile, request, verifier)
+
+    assert.deepEqual(result, { success: false, error: "CAPTCHA verification is required" })
+    assert.equal(calls.length, 0)
+  })
+
+  test("rejects tokens the provider turns down", async () => {
+    const { verifier } = createVerifier(false)
+    const result = await verifyCaptcha({ "cf-turnstile-response": "token" }, turnstile, request, verifier)
+
+    assert.deepEqual(result, { success: false, error: "CAPTCHA verification failed" })
+  })
+
+  test("fails closed when the provider can't be reached", async (t) => {
+    t.mock.method(console, "error", () => {})
+    const { verifier } = createVerifier(new Error("fetch failed"))
+    const result = await verifyCaptcha({ "cf-turnstile-response": "token" }, turnstile, request, verifier)
+
+    assert.deepEqual(result, { success: false, error: "CAPTCHA verification failed" })
+  })
+})
+
+describe("siteverifyVerifier", () => {
+  test("posts the secret, token and IP to the provider's siteverify endpoint", async (t) => {
+    const fetchMock = t.mock.method(globalThis, "fetch", async () => Response.json({ success: true }))
+
+    const valid = await siteverifyVerifier({ provider: "hcaptcha", secret: "secret", token: "token", remoteIp: "203.0.113.7" })
+
+    assert.equal(valid, true)
+    const [url, init] = fetchMock.mock.calls[0].arguments as [string, RequestInit]
+    assert.equal(url, "https://api.hcaptcha.com/siteverify")
+    assert.equal(String(init.body), "secret=secret&response=token&remoteip=203.0.113.7")
+  })
+
+  test("throws when siteverify errors, so verifyCaptcha fails closed", async (t) => {
+    t.mock.method(globalThis, "fetch", async () => new Response("", { status: 500 }))
+
+    await assert.rejects(
+      siteverifyVerifier({ provider: "recaptcha", secret: "secret", token: "token", remoteIp: null }),
+      { message: "recaptcha siteverify returned 500" }
+    )
+  })
+})
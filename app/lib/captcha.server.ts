@@ -0,0 +1,116 @@
+export const CAPTCHA_PROVIDERS = ["turnstile", "hcaptcha", "recaptcha"] as const
+
+export type CaptchaProvider = (typeof CAPTCHA_PROVIDERS)[number]
+
+export type CaptchaSettings = {
+  captcha_provider: CaptchaProvider | null
+  captcha_secret_key: string | null
+}
+
+export type CaptchaVerification = {
+  provider: CaptchaProvider
+  secret: string
+  token: string
+  remoteIp: string | null
+}
+
+/**
+ * Checks a widget token with the provider. Passed in through the load context
+ * so tests can swap in a local stand-in for the real siteverify call.
+ */
+export type CaptchaVerifier = (verification: CaptchaVerification) => Promise<boolean>
+
+export type CaptchaResult =
+  | { success: true; data: Record<string, any> }
+  | { success: false; error: string }
+
+// The form field each widget posts its token in, and where to verify it
+const PROVIDER_CONFIG: Record<CaptchaProvider, { tokenField: string; verifyUrl: string }> = {
+  turnstile: {
+    tokenField: "cf-turnstile-response",
+    verifyUrl: "https://challenges.cloudflare.com/turnstile/v0/siteverify",
+  },
+  hcaptcha: {
+    tokenField: "h-captcha-response",
+    verifyUrl: "https://api.hcaptcha.com/siteverify",
+  },
+  recaptcha: {
+    tokenField: "g-recaptcha-response",
+    verifyUrl: "https://www.google.com/recaptcha/api/siteverify",
+  },
+}
+
+/**
+ * Loads the form's CAPTCHA provider and secret, or null when no settings exist
+ */
+export async function getCaptchaSettings(db: D1Database, formId: string): Promise<CaptchaSettings | null> {
+  return db
+    .prepare("SELECT captcha_provider, captcha_secret_key FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<CaptchaSettings>()
+}
+
+/**
+ * Calls the provider's siteverify endpoint; all three share the same request shape
+ */
+export const siteverifyVerifier: CaptchaVerifier = async ({ provider, secret, token, remoteIp }) => {
+  const body = new URLSearchParams({ secret, response: token })
+  if (remoteIp) {
+    body.set("remoteip", remoteIp)
+  }
+
+  const response = await fetch(PROVIDER_CONFIG[provider].verifyUrl, {
+    method: "POST",
+    body,
+  })
+
+  if (!response.ok) {
+    throw new Error(`${provider} siteverify returned ${response.status}`)
+  }
+
+  const result = await response.json<{ success: boolean }>()
+  return result.success === true
+}
+
+/**
+ * Verifies the submission's widget token when the form requires one, and strips
+ * every provider's token field from the data that gets stored
+ */
+export async function verifyCaptcha(
+  data: Record<string, any>,
+  settings: CaptchaSettings | null,
+  request: Request,
+  verifier: CaptchaVerifier = siteverifyVerifier
+): Promise<CaptchaResult> {
+  const cleaned = { ...data }
+  for (const { tokenField } of Object.values(PROVIDER_CONFIG)) {
+    delete cleaned[tokenField]
+  }
+
+  const provider = settings?.captcha_provider
+  if (!provider || !settings.captcha_secret_key) {
+    return { success: true, data: cleaned }
+  }
+
+  const token = data[PROVIDER_CONFIG[provider].tokenField]
+  if (typeof token !== "string" || !token) {
+    return { success: false, error: "CAPTCHA verification is required" }
+  }
+
+  try {
+    const valid = await verifier({
+      provider,
+      secret: settings.captcha_secret_key,
+      token,
+      remoteIp: request.headers.get("cf-connecting-ip"),
+    })
+
+    return valid
+      ? { success: true, data: cleaned }
+      : { success: false, error: "CAPTCHA verification failed" }
+  } catch (error) {
+    // Fail closed: an unreachable provider shouldn't let unverified submissions through
+    console.error("CAPTCHA verification error:", error)
+    return { success: false, error: "CAPTCHA verification failed" }
+  }
+}
@@ -0,0 +1,278 @@
+import type { ChannelType, NotificationChannel } from "#/types/channel"
+import type { SubmissionEmailData } from "#/types/submission"
+import { formatFieldName, formatValueText, orderEntries } from "./email.server"
+
+export const CHANNEL_TYPES = ["slack", "discord", "teams"] as const satisfies readonly ChannelType[]
+
+const SEND_TIMEOUT_MS = 10_000
+
+/**
+ * What every channel shows, before it's laid out in the platform's own format
+ */
+export type ChannelMessage = {
+  title: string
+  subtitle: string
+  fields: { name: string; value: string }[]
+  url: string | null
+  timestamp: number
+}
+
+type ChannelFormatter = {
+  label: string
+  // Incoming webhook URLs are only accepted on the platform's own hosts
+  isWebhookUrl: (url: URL) => boolean
+  format: (message: ChannelMessage) => unknown
+}
+
+const CHANNELS: Record<ChannelType, ChannelFormatter> = {
+  slack: {
+    label: "Slack",
+    isWebhookUrl: (url) => url.hostname === "hooks.slack.com",
+    format: formatSlackMessage,
+  },
+  discord: {
+    label: "Discord",
+    isWebhookUrl: (url) =>
+      ["discord.com", "discordapp.com", "ptb.discord.com", "canary.discord.com"].includes(url.hostname) &&
+      url.pathname.startsWith("/api/webhooks/"),
+    format: formatDiscordMessage,
+  },
+  teams: {
+    label: "Microsoft Teams",
+    // Workflows webhooks, and the older Office 365 connectors
+    isWebhookUrl: (url) =>
+      [".logic.azure.com", ".api.powerplatform.com", ".webhook.office.com"].some((suffix) => url.hostname.endsWith(suffix)),
+    format: formatTeamsMessage,
+  },
+}
+
+/**
+ * Checks a webhook URL pasted into settings belongs to the channel's platform
+ */
+export function parseChannelWebhookUrl(type: ChannelType, value: string): URL {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new Error("Enter a valid webhook URL")
+  }
+  if (url.protocol !== "https:" || !CHANNELS[type].isWebhookUrl(url)) {
+    throw new Error(`That doesn't look like a ${CHANNELS[type].label} incoming webhook URL`)
+  }
+  return url
+}
+
+/**
+ * Lists the form's channels, showing only the host of each webhook URL
+ */
+export async function listChannels(db: D1Database, formId: string): Promise<NotificationChannel[]> {
+  const result = await db
+    .prepare("SELECT id, form_id, type, name, webhook_url, enabled, created_at FROM notification_channels WHERE form_id = ? ORDER BY created_at")
+    .bind(formId)
+    .all<Omit<NotificationChannel, "webhook_host"> & { webhook_url: string }>()
+
+  return result.results.map(({ webhook_url, ...channel }) => ({
+    ...channel,
+    webhook_host: new URL(webhook_url).host,
+  }))
+}
+
+/**
+ * Posts the submission to each of the form's enabled channels. One channel
+ * failing doesn't stop the others.
+ */
+export async function notifyChannels(
+  db: D1Database,
+  formId: string,
+  submission: SubmissionEmailData,
+  submissionUrl: string
+): Promise<void> {
+  const channels = await db
+    .prepare("SELECT type, name, webhook_url FROM notification_channels WHERE form_id = ? AND enabled = 1")
+    .bind(formId)
+    .all<{ type: ChannelType; name: string; webhook_url: string }>()
+
+  if (channels.results.length === 0) {
+    return
+  }
+
+  const message = toChannelMessage(submission, submissionUrl)
+  const results = await Promise.all(
+    channels.results.map((channel) => sendChannelMessage(channel.type, channel.webhook_url, message))
+  )
+
+  results.forEach((result, i) => {
+    if (!result.success) {
+      console.error(`Failed to notify channel "${channels.results[i].name}":`, result.error)
+    }
+  })
+}
+
+/**
+ * Posts a short test message to verify a channel's webhook URL
+ */
+export async function sendTestChannelMessage(
+  type: ChannelType,
+  webhookUrl: string,
+  formName: string
+): Promise<{ success: boolean; error?: string }> {
+  return sendChannelMessage(type, webhookUrl, {
+    title: "Test Notification",
+    subtitle: `This is a test from FormZero for "${formName}". Your ${CHANNELS[type].label} channel is working correctly!`,
+    fields: [],
+    url: null,
+    timestamp: Date.now(),
+  })
+}
+
+async function sendChannelMessage(
+  type: ChannelType,
+  webhookUrl: string,
+  message: ChannelMessage
+): Promise<{ success: boolean; error?: string }> {
+  const channel = CHANNELS[type]
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(channel.format(message)),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      const detail = (await response.text()).slice(0, 200)
+      return { success: false, error: `${channel.label} responded with ${response.status}${detail ? `: ${detail}` : ""}` }
+    }
+
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : `Failed to reach ${channel.label}` }
+  }
+}
+
+function toChannelMessage(submission: SubmissionEmailData, submissionUrl: string): ChannelMessage {
+  const fields = orderEntries(submission.data, submission.fields).map(([key, value]) => ({
+    name: formatFieldName(key),
+    // Lists read better inline than as the email's indented bullets
+    value: (Array.isArray(value) && value.length > 0
+      ? value.map((item) => formatValueText(item).trim()).join(", ")
+      : formatValueText(value).trim()) || "(Empty)",
+  }))
+
+  if (submission.attachments.length > 0) {
+    fields.push({
+      name: "Attachments",
+      value: submission.attachments.map((file) => file.name).join(", "),
+    })
+  }
+
+  return {
+    title: "New Form Submission",
+    subtitle: submission.formName,
+    fields,
+    url: submissionUrl,
+    timestamp: submission.createdAt,
+  }
+}
+
+// Block Kit: a header, then sections of up to 10 fields each
+function formatSlackMessage(message: ChannelMessage) {
+  const fieldSections = chunk(message.fields, 10).map((fields) => ({
+    type: "section",
+    fields: fields.map((field) => ({
+      type: "mrkdwn",
+      text: truncate(`*${escapeSlack(field.name)}*\n${escapeSlack(field.value)}`, 2000),
+    })),
+  }))
+
+  const blocks: unknown[] = [
+    { type: "header", text: { type: "plain_text", text: truncate(message.title, 150) } },
+    { type: "section", text: { type: "mrkdwn", text: truncate(escapeSlack(message.subtitle), 3000) } },
+    // Slack rejects messages with more than 50 blocks
+    ...fieldSections.slice(0, 46),
+  ]
+
+  if (message.url) {
+    blocks.push({
+      type: "actions",
+      elements: [{ type: "button", text: { type: "plain_text", text: "View Submission" }, url: message.url }],
+    })
+  }
+
+  return { text: `${message.title}: ${message.subtitle}`, blocks }
+}
+
+// A single embed, within Discord's limits of 25 fields, 1024 characters per value
+// and 6000 characters overall
+function formatDiscordMessage(message: ChannelMessage) {
+  const fields = message.fields.slice(0, 25)
+  const valueLength = Math.min(1024, Math.floor(4500 / Math.max(fields.length, 1)))
+
+  return {
+    username: "FormZero",
+    // Submitted text must never ping anyone
+    allowed_mentions: { parse: [] },
+    embeds: [
+      {
+        title: truncate(message.title, 256),
+        description: truncate(message.subtitle, 1000),
+        url: message.url ?? undefined,
+        timestamp: new Date(message.timestamp).toISOString(),
+        fields: fields.map((field) => ({
+          name: truncate(field.name, 100),
+          value: truncate(field.value, valueLength),
+        })),
+        footer: { text: "FormZero" },
+      },
+    ],
+  }
+}
+
+// An Adaptive Card, which both Workflows and the older connectors accept
+function formatTeamsMessage(message: ChannelMessage) {
+  const body: unknown[] = [
+    { type: "TextBlock", text: message.title, weight: "Bolder", size: "Medium", wrap: true },
+    { type: "TextBlock", text: message.subtitle, isSubtle: true, wrap: true },
+  ]
+
+  if (message.fields.length > 0) {
+    body.push({
+      type: "FactSet",
+      facts: message.fields.map((field) => ({ title: field.name, value: truncate(field.value, 1000) })),
+    })
+  }
+
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body,
+          actions: message.url ? [{ type: "Action.OpenUrl", title: "View Submission", url: message.url }] : [],
+        },
+      },
+    ],
+  }
+}
+
+// Slack's mrkdwn only needs these escaped; anything else is shown as typed
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
@@ -0,0 +1,241 @@
+/// <reference types="node" />
+import assert from "node:assert/strict"
+import { createServer } from "node:http"
+import type { AddressInfo } from "node:net"
+import { after, before, beforeEach, describe, test } from "node:test"
+import type { ApiEmailConfig, ApiEmailProviderType } from "#/types/form-settings"
+import { createApiTransport } from "./email-providers.server"
+import { encryptEmailSecret, getEmailConfig, sendTestEmail } from "./email.server"
+import type { EmailSettings, OutgoingEmail } from "./email.server"
+
+type Received = { method: string; url: string; headers: Record<string, string | string[] | undefined>; body: string }
+type Reply = { status: number; headers?: Record<string, string>; body?: string }
+
+// A stand-in for every provider: records each request and answers with `reply`
+let received: Received[] = []
+let reply: Reply = { status: 200, body: "{}" }
+
+const server = createServer((req, res) => {
+  let body = ""
+  req.on("data", (chunk) => (body += chunk))
+  req.on("end", () => {
+    received.push({ method: req.method!, url: req.url!, headers: req.headers, body })
+    res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers })
+    res.end(reply.body ?? "")
+  })
+})
+
+let baseUrl = ""
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+after(() => {
+  server.close()
+})
+
+beforeEach(() => {
+  received = []
+  reply = { status: 200, body: "{}" }
+})
+
+const email: OutgoingEmail = {
+  from: { name: 'Acme "Forms", Inc', address: "forms@acme.test" },
+  replyTo: "visitor@example.test",
+  to: ["team@acme.test"],
+  cc: ["cc@acme.test"],
+  bcc: ["bcc@acme.test"],
+  subject: "New Submission",
+  text: "Plain text",
+  html: "<p>HTML</p>",
+}
+
+function config(provider: ApiEmailProviderType, changes: Partial<ApiEmailConfig> = {}): ApiEmailConfig {
+  return {
+    provider,
+    notification_email: "forms@acme.test",
+    encryption_key: "",
+    api_key_encrypted: "",
+    api_domain: "mg.acme.test",
+    api_region: "us",
+    api_base_url: null,
+    ...changes,
+  }
+}
+
+function send(provider: ApiEmailProviderType, message: OutgoingEmail = email) {
+  return createApiTransport(config(provider), "test-key", { baseUrl }).send(message)
+}
+
+describe("Resend", () => {
+  test("posts the email as JSON with a bearer token", async () => {
+    reply = { status: 200, body: JSON.stringify({ id: "re_123" }) }
+
+    assert.deepEqual(await send("resend"), { messageId: "re_123" })
+    const [request] = received
+    assert.equal(request.url, "/emails")
+    assert.equal(request.headers.authorization, "Bearer test-key")
+    assert.deepEqual(JSON.parse(request.body), {
+      from: '"Acme \\"Forms\\", Inc" <forms@acme.test>',
+      to: ["team@acme.test"],
+      cc: ["cc@acme.test"],
+      bcc: ["bcc@acme.test"],
+      reply_to: "visitor@example.test",
+      subject: "New Submission",
+      text: "Plain text",
+      html: "<p>HTML</p>",
+    })
+  })
+
+  test("reports the provider's error message", async () => {
+    reply = { status: 422, body: JSON.stringify({ statusCode: 422, name: "validation_error", message: "Invalid `from` field" }) }
+    await assert.rejects(send("resend"), { message: "Resend responded with 422: Invalid `from` field" })
+  })
+})
+
+describe("Postmark", () => {
+  test("posts the email with the server token and joined address lists", async () => {
+    reply = { status: 200, body: JSON.stringify({ ErrorCode: 0, Message: "OK", MessageID: "pm-123" }) }
+
+    assert.deepEqual(await send("postmark"), { messageId: "pm-123" })
+    const [request] = received
+    assert.equal(request.url, "/email")
+    assert.equal(request.headers["x-postmark-server-token"], "test-key")
+    assert.deepEqual(JSON.parse(request.body), {
+      From: '"Acme \\"Forms\\", Inc" <forms@acme.test>',
+      To: "team@acme.test",
+      Cc: "cc@acme.test",
+      Bcc: "bcc@acme.test",
+      ReplyTo: "visitor@example.test",
+      Subject: "New Submission",
+      TextBody: "Plain text",
+      HtmlBody: "<p>HTML</p>",
+    })
+  })
+
+  test("reports the provider's error message", async () => {
+    reply = { status: 422, body: JSON.stringify({ ErrorCode: 400, Message: "The 'From' address is not a Sender Signature" }) }
+    await assert.rejects(send("postmark"), { message: "Postmark responded with 422: The 'From' address is not a Sender Signature" })
+  })
+})
+
+describe("Mailgun", () => {
+  test("posts a form to the domain's messages endpoint with basic auth", async () => {
+    reply = { status: 200, body: JSON.stringify({ id: "<mg-123@mg.acme.test>", message: "Queued. Thank you." }) }
+
+    assert.deepEqual(await send("mailgun"), { messageId: "<mg-123@mg.acme.test>" })
+    const [request] = received
+    assert.equal(request.url, "/v3/mg.acme.test/messages")
+    assert.equal(request.headers.authorization, `Basic ${btoa("api:test-key")}`)
+    assert.match(String(request.headers["content-type"]), /^application\/x-www-form-urlencoded/)
+    assert.deepEqual([...new URLSearchParams(request.body)], [
+      ["from", '"Acme \\"Forms\\", Inc" <forms@acme.test>'],
+      ["subject", "New Submission"],
+      ["text", "Plain text"],
+      ["html", "<p>HTML</p>"],
+      ["to", "team@acme.test"],
+      ["cc", "cc@acme.test"],
+      ["bcc", "bcc@acme.test"],
+      ["h:Reply-To", "visitor@example.test"],
+    ])
+  })
+
+  test("uses the EU endpoint for EU accounts", async () => {
+    let url = ""
+    const fetcher = (async (input: RequestInfo | URL) => {
+      url = String(input)
+      return new Response(JSON.stringify({ id: "<eu@mg.acme.test>" }))
+    }) as typeof fetch
+
+    await createApiTransport(config("mailgun", { api_region: "eu" }), "test-key", { fetcher }).send(email)
+    assert.equal(url, "https://api.eu.mailgun.net/v3/mg.acme.test/messages")
+  })
+
+  test("reports the provider's error message", async () => {
+    reply = { status: 401, body: JSON.stringify({ message: "Invalid private key" }) }
+    await assert.rejects(send("mailgun"), { message: "Mailgun responded with 401: Invalid private key" })
+  })
+})
+
+describe("SendGrid", () => {
+  test("posts a personalization with the plain text part first", async () => {
+    reply = { status: 202, headers: { "X-Message-Id": "sg-123" }, body: "" }
+
+    assert.deepEqual(await send("sendgrid"), { messageId: "sg-123" })
+    const [request] = received
+    assert.equal(request.url, "/v3/mail/send")
+    assert.equal(request.headers.authorization, "Bearer test-key")
+    assert.deepEqual(JSON.parse(request.body), {
+      personalizations: [
+        {
+          to: [{ email: "team@acme.test" }],
+          cc: [{ email: "cc@acme.test" }],
+          bcc: [{ email: "bcc@acme.test" }],
+        },
+      ],
+      from: { email: "forms@acme.test", name: 'Acme "Forms", Inc' },
+      reply_to: { email: "visitor@example.test" },
+      subject: "New Submission",
+      content: [
+        { type: "text/plain", value: "Plain text" },
+        { type: "text/html", value: "<p>HTML</p>" },
+      ],
+    })
+  })
+
+  test("leaves out empty lists and addresses Bcc-only mail to the sender", async () => {
+    reply = { status: 202, body: "" }
+
+    await send("sendgrid", { ...email, to: [], cc: [] })
+    assert.deepEqual(JSON.parse(received[0].body).personalizations, [
+      { to: [{ email: "forms@acme.test" }], bcc: [{ email: "bcc@acme.test" }] },
+    ])
+  })
+
+  test("reports the provider's error message", async () => {
+    reply = { status: 403, body: JSON.stringify({ errors: [{ message: "The from address does not match a verified Sender Identity", field: "from" }] }) }
+    await assert.rejects(send("sendgrid"), {
+      message: "SendGrid responded with 403: The from address does not match a verified Sender Identity",
+    })
+  })
+})
+
+test("reports a plain text error body as is", async () => {
+  reply = { status: 502, headers: { "Content-Type": "text/plain" }, body: "Bad Gateway" }
+  await assert.rejects(send("resend"), { message: "Resend responded with 502: Bad Gateway" })
+})
+
+describe("sendTestEmail", () => {
+  const encryptionKey = "test-encryption-key"
+
+  for (const provider of ["resend", "postmark", "mailgun", "sendgrid"] as const) {
+    test(`sends through ${provider} at EMAIL_API_BASE_URL`, async () => {
+      reply = { status: 200, headers: { "X-Message-Id": "sg-1" }, body: JSON.stringify({ id: "id-1", MessageID: "id-1" }) }
+
+      const settings: EmailSettings = {
+        notification_email: "forms@acme.test",
+        email_provider: provider,
+        notification_email_password: null,
+        smtp_password_encrypted: null,
+        smtp_host: null,
+        smtp_port: null,
+        smtp_tls_mode: null,
+        smtp_auth: 1,
+        smtp_ehlo_name: null,
+        email_api_key_encrypted: await encryptEmailSecret("saved-key", encryptionKey),
+        email_api_domain: provider === "mailgun" ? "mg.acme.test" : null,
+        email_api_region: null,
+      }
+      const emailConfig = getEmailConfig(settings, { SMTP_ENCRYPTION_KEY: encryptionKey, EMAIL_API_BASE_URL: baseUrl })
+      assert.ok(emailConfig)
+
+      const result = await sendTestEmail(emailConfig)
+      assert.equal(result.success, true, result.error)
+      assert.equal(received.length, 1)
+      // The saved key was decrypted for the request
+      assert.match(JSON.stringify(received[0].headers), provider === "mailgun" ? new RegExp(btoa("api:saved-key")) : /saved-key/)
+    })
+  }
+})
@@ -0,0 +1,204 @@
+import MailComposer from "nodemailer/lib/mail-composer"
+import type { ApiEmailConfig, ApiEmailProviderType } from "#/types/form-settings"
+import type { EmailTransport, OutgoingEmail } from "./email.server"
+
+const SEND_TIMEOUT_MS = 10_000
+
+type ApiRequest = {
+  path: string
+  headers: Record<string, string>
+  body: string | URLSearchParams
+}
+
+type ApiProvider = {
+  label: string
+  // Where requests go unless the transport is pointed elsewhere, such as a local mock server
+  origin: (config: ApiEmailConfig) => string
+  request: (email: OutgoingEmail, config: ApiEmailConfig, apiKey: string) => ApiRequest
+  // The provider's ID for the accepted message, from its response
+  messageId: (response: Response, body: any) => string | null
+}
+
+const API_PROVIDERS: Record<ApiEmailProviderType, ApiProvider> = {
+  resend: {
+    label: "Resend",
+    origin: () => "https://api.resend.com",
+    request: (email, _config, apiKey) => ({
+      path: "/emails",
+      headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        from: formatAddress(email.from),
+        to: email.to,
+        cc: email.cc,
+        bcc: email.bcc,
+        reply_to: email.replyTo ?? undefined,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      }),
+    }),
+    messageId: (_response, body) => body?.id ?? null,
+  },
+  postmark: {
+    label: "Postmark",
+    origin: () => "https://api.postmarkapp.com",
+    request: (email, _config, apiKey) => ({
+      path: "/email",
+      headers: { "X-Postmark-Server-Token": apiKey, Accept: "application/json", "Content-Type": "application/json" },
+      body: JSON.stringify({
+        From: formatAddress(email.from),
+        To: email.to.join(", "),
+        Cc: email.cc.join(", ") || undefined,
+        Bcc: email.bcc.join(", ") || undefined,
+        ReplyTo: email.replyTo ?? undefined,
+        Subject: email.subject,
+        TextBody: email.text,
+        HtmlBody: email.html,
+      }),
+    }),
+    messageId: (_response, body) => body?.MessageID ?? null,
+  },
+  mailgun: {
+    label: "Mailgun",
+    origin: (config) => (config.api_region === "eu" ? "https://api.eu.mailgun.net" : "https://api.mailgun.net"),
+    request: (email, config, apiKey) => {
+      const body = new URLSearchParams({
+        from: formatAddress(email.from),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      })
+      for (const kind of ["to", "cc", "bcc"] as const) {
+        for (const address of email[kind]) body.append(kind, address)
+      }
+      if (email.replyTo) body.set("h:Reply-To", email.replyTo)
+
+      return {
+        path: `/v3/${encodeURIComponent(config.api_domain ?? "")}/messages`,
+        headers: { Authorization: `Basic ${btoa(`api:${apiKey}`)}` },
+        body,
+      }
+    },
+    messageId: (_response, body) => body?.id ?? null,
+  },
+  sendgrid: {
+    label: "SendGrid",
+    origin: (config) => (config.api_region === "eu" ? "https://api.eu.sendgrid.com" : "https://api.sendgrid.com"),
+    request: (email, _config, apiKey) => ({
+      path: "/v3/mail/send",
+      headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        personalizations: [
+          {
+            to: email.to.map((address) => ({ email: address })),
+            // SendGrid rejects empty lists
+            cc: email.cc.length > 0 ? email.cc.map((address) => ({ email: address })) : undefined,
+            bcc: email.bcc.length > 0 ? email.bcc.map((address) => ({ email: address })) : undefined,
+          },
+        ],
+        from: { email: email.from.address, name: email.from.name || undefined },
+        reply_to: email.replyTo ? { email: email.replyTo } : undefined,
+        subject: email.subject,
+        // The plain text part has to come first
+        content: [
+          { type: "text/plain", value: email.text },
+          { type: "text/html", value: email.html },
+        ],
+      }),
+    }),
+    messageId: (response) => response.headers.get("X-Message-Id"),
+  },
+}
+
+/**
+ * Sends through a provider's HTTP API with the decrypted `apiKey`. `baseUrl`
+ * replaces the provider's origin, such as with a local mock server, and
+ * `fetcher` replaces fetch.
+ */
+export function createApiTransport(
+  config: ApiEmailConfig,
+  apiKey: string,
+  options: { baseUrl?: string; fetcher?: typeof fetch } = {}
+): EmailTransport {
+  const provider = API_PROVIDERS[config.provider]
+  const fetcher = options.fetcher ?? fetch
+  const baseUrl = (options.baseUrl ?? provider.origin(config)).replace(/\/+$/, "")
+
+  return {
+    async send(email) {
+      // Every API needs a To address, so mail for Cc and Bcc only is addressed to the sender
+      const { path, headers, body } = provider.request(
+        email.to.length > 0 ? email : { ...email, to: [email.from.address] },
+        config,
+        apiKey
+      )
+
+      const response = await fetcher(`${baseUrl}${path}`, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      })
+
+      const text = await response.text()
+      let json: any = null
+      try {
+        json = text ? JSON.parse(text) : null
+      } catch {
+        // Some errors come back as plain text or HTML
+      }
+
+      if (!response.ok) {
+        const detail = getErrorMessage(json) ?? text.slice(0, 200)
+        throw new Error(`${provider.label} responded with ${response.status}${detail ? `: ${detail}` : ""}`)
+      }
+
+      return { messageId: provider.messageId(response, json) }
+    },
+  }
+}
+
+/**
+ * Sends through the Worker's send_email binding. Cloudflare takes a raw MIME
+ * message for one envelope recipient at a time, so it's built once and sent to
+ * each; Bcc recipients aren't in its headers.
+ */
+export function createCloudflareTransport(binding: SendEmail): EmailTransport {
+  return {
+    async send(email) {
+      const mime = new MailComposer({
+        from: email.from,
+        replyTo: email.replyTo ?? undefined,
+        to: email.to,
+        cc: email.cc,
+        bcc: email.bcc,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      }).compile()
+      const raw = (await mime.build()).toString()
+
+      // Only workerd has this module, so it's loaded when sending rather than with this file
+      const { EmailMessage } = await import("cloudflare:email")
+      for (const recipient of [...email.to, ...email.cc, ...email.bcc]) {
+        await binding.send(new EmailMessage(email.from.address, recipient, raw))
+      }
+
+      return { messageId: mime.messageId() }
+    },
+  }
+}
+
+// Display names are quoted, so commas and angle brackets in them stay part of the name
+function formatAddress(address: OutgoingEmail["from"]): string {
+  if (!address.name) {
+    return address.address
+  }
+  return `"${address.name.replace(/["\\]/g, "\\$&")}" <${address.address}>`
+}
+
+// Resend and Mailgun say `message`, Postmark `Message` and SendGrid lists `errors`
+function getErrorMessage(body: any): string | null {
+  const message = body?.message ?? body?.Message ?? body?.errors?.[0]?.message
+  return typeof message === "string" && message ? message : null
+}
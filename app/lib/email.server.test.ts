@@ -0,0 +1,155 @@
+/// <reference types="node" />
+import assert from "node:assert/strict"
+import { createServer } from "node:net"
+import type { AddressInfo } from "node:net"
+import { after, before, beforeEach, describe, test } from "node:test"
+import { getEmailConfig, readEmailSettings, sendAutoresponse, sendTestEmail } from "./email.server"
+import type { EmailSettings } from "./email.server"
+
+// Just enough SMTP for nodemailer: records the AUTH PLAIN credentials, the recipients and the messages
+let logins: string[] = []
+let recipients: string[] = []
+let messages: string[] = []
+
+const server = createServer((socket) => {
+  let buffer = ""
+  let inData = false
+  let message = ""
+  socket.write("220 localhost ESMTP\r\n")
+  socket.on("data", (chunk) => {
+    buffer += chunk
+    let end
+    while ((end = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+
+      if (inData) {
+        if (line === ".") {
+          inData = false
+          messages.push(message)
+          message = ""
+          socket.write("250 OK: queued\r\n")
+        } else {
+          message += `${line}\n`
+        }
+      } else if (/^EHLO/i.test(line)) {
+        socket.write("250-localhost\r\n250 AUTH PLAIN\r\n")
+      } else if (/^AUTH PLAIN /i.test(line)) {
+        logins.push(Buffer.from(line.slice("AUTH PLAIN ".length), "base64").toString().split("\0").slice(1).join(":"))
+        socket.write("235 Authenticated\r\n")
+      } else if (/^RCPT TO:/i.test(line)) {
+        recipients.push(line.replace(/^RCPT TO:<(.*)>.*$/i, "$1"))
+        socket.write("250 OK\r\n")
+      } else if (/^DATA/i.test(line)) {
+        inData = true
+        socket.write("354 Go ahead\r\n")
+      } else if (/^QUIT/i.test(line)) {
+        socket.end("221 Bye\r\n")
+      } else {
+        socket.write("250 OK\r\n")
+      }
+    }
+  })
+})
+
+let port = 0
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  port = (server.address() as AddressInfo).port
+})
+
+after(() => {
+  server.close()
+})
+
+beforeEach(() => {
+  logins = []
+  recipients = []
+  messages = []
+})
+
+const encryptionKey = "test-encryption-key"
+
+function legacySettings(): EmailSettings {
+  return {
+    notification_email: "forms@acme.test",
+    email_provider: null,
+    notification_email_password: "old-password",
+    smtp_password_encrypted: null,
+    smtp_host: "127.0.0.1",
+    smtp_port: port,
+    smtp_tls_mode: "none",
+    smtp_auth: null,
+    smtp_ehlo_name: null,
+    email_api_key_encrypted: null,
+    email_api_domain: null,
+    email_api_region: null,
+  }
+}
+
+describe("SMTP passwords saved before encryption", () => {
+  test("are still sent with until they're encrypted", async () => {
+    const config = getEmailConfig(legacySettings(), { SMTP_ENCRYPTION_KEY: encryptionKey })
+    assert.ok(config)
+
+    const result = await sendTestEmail(config)
+    assert.equal(result.success, true, result.error)
+    assert.deepEqual(logins, ["forms@acme.test:old-password"])
+    assert.deepEqual(recipients, ["forms@acme.test"])
+  })
+
+  test("don't need SMTP_ENCRYPTION_KEY to send", async () => {
+    const config = getEmailConfig(legacySettings(), { SMTP_ENCRYPTION_KEY: "" })
+    assert.ok(config)
+
+    const result = await sendTestEmail(config)
+    assert.equal(result.success, true, result.error)
+    assert.deepEqual(logins, ["forms@acme.test:old-password"])
+  })
+
+  test("are kept, encrypted, when the settings are saved without a new one", async () => {
+    const formData = new FormData()
+    formData.set("notification_email", "forms@acme.test")
+    formData.set("smtp_host", "127.0.0.1")
+    formData.set("smtp_port", String(port))
+    formData.set("smtp_tls_mode", "none")
+    formData.set("smtp_auth", "1")
+
+    const settings = await readEmailSettings(formData, legacySettings(), encryptionKey)
+    assert.match(settings.smtp_password_encrypted ?? "", /^v1:/)
+    assert.equal(settings.notification_email_password, null)
+
+    const config = getEmailConfig(settings, { SMTP_ENCRYPTION_KEY: encryptionKey })
+    assert.ok(config)
+    const result = await sendTestEmail(config)
+    assert.equal(result.success, true, result.error)
+    assert.deepEqual(logins, ["forms@acme.test:old-password"])
+  })
+})
+
+describe("sendAutoresponse", () => {
+  test("is sent from the form's sender", async () => {
+    const config = getEmailConfig({ ...legacySettings(), smtp_auth: 0 }, { SMTP_ENCRYPTION_KEY: encryptionKey })
+    assert.ok(config)
+
+    const result = await sendAutoresponse(
+      config,
+      { to: "visitor@example.com", subject: "Thanks", text: "Hi" },
+      { name: "Acme Support", address: "support@acme.test" }
+    )
+    assert.equal(result.success, true, result.error)
+    assert.deepEqual(recipients, ["visitor@example.com"])
+    assert.match(messages[0], /^From: Acme Support <support@acme\.test>$/m)
+    assert.doesNotMatch(messages[0], /^Reply-To:/m)
+  })
+
+  test("is sent from the form's own address without a sender", async () => {
+    const config = getEmailConfig({ ...legacySettings(), smtp_auth: 0 }, { SMTP_ENCRYPTION_KEY: encryptionKey })
+    assert.ok(config)
+
+    const result = await sendAutoresponse(config, { to: "visitor@example.com", subject: "Thanks", text: "Hi" })
+    assert.equal(result.success, true, result.error)
+    assert.match(messages[0], /^From: forms@acme\.test$/m)
+  })
+})
@@ -1,30 +1,438 @@
 import nodemailer from "nodemailer"
-import type { EmailConfig } from "#/types/form-settings"
+import type { EmailApiRegion, EmailConfig, EmailProviderType, SmtpEmailConfig, SmtpTlsMode } from "#/types/form-settings"
 import type { SubmissionEmailData } from "#/types/submission"
+import { createApiTransport, createCloudflareTransport } from "./email-providers.server"
+import { formatFileSize, isFileReference } from "./files"
+import { isEmailAddress } from "./recipients.server"
+
+export const EMAIL_PROVIDERS: EmailProviderType[] = ["smtp", "cloudflare", "resend", "postmark", "mailgun", "sendgrid"]
+export const EMAIL_API_REGIONS: EmailApiRegion[] = ["us", "eu"]
+export const SMTP_TLS_MODES: SmtpTlsMode[] = ["implicit", "starttls", "none"]
+
+const MAX_EHLO_NAME_LENGTH = 253
+const EHLO_NAME_PATTERN = /^(?:[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?\.)*[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?$|^\[[0-9A-Fa-f:.]+\]$/
+const API_DOMAIN_PATTERN = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/
+
+// The form_settings columns an EmailConfig is built from
+export const EMAIL_SETTINGS_COLUMNS = [
+  "notification_email",
+  "email_provider",
+  "notification_email_password",
+  "smtp_password_encrypted",
+  "smtp_host",
+  "smtp_port",
+  "smtp_tls_mode",
+  "smtp_auth",
+  "smtp_ehlo_name",
+  "email_api_key_encrypted",
+  "email_api_domain",
+  "email_api_region",
+].join(", ")
+
+export type EmailSettings = {
+  notification_email: string | null
+  email_provider: string | null
+  // A plaintext SMTP password saved before they were encrypted; used until encryptLegacySmtpPasswords moves it over
+  notification_email_password: string | null
+  smtp_password_encrypted: string | null
+  smtp_host: string | null
+  smtp_port: number | null
+  smtp_tls_mode: string | null
+  smtp_auth: number | null
+  smtp_ehlo_name: string | null
+  email_api_key_encrypted: string | null
+  email_api_domain: string | null
+  email_api_region: string | null
+}
+
+// The Worker secret and binding email is sent with. EMAIL is the send_email binding from wrangler.jsonc,
+// and EMAIL_API_BASE_URL, when set, sends every HTTP API request to that server instead, e.g. a local mock.
+export type EmailEnv = {
+  SMTP_ENCRYPTION_KEY: string
+  EMAIL?: SendEmail
+  EMAIL_API_BASE_URL?: string
+}
+
+/**
+ * An email ready to hand to a provider. Addresses were validated before they
+ * got here, and `from.name` may be empty.
+ */
+export type OutgoingEmail = {
+  from: { name: string; address: string }
+  replyTo: string | null
+  to: string[]
+  cc: string[]
+  bcc: string[]
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * What every provider adapter implements. `send` throws with the provider's
+ * own error message when the email isn't accepted.
+ */
+export type EmailTransport = {
+  send: (email: OutgoingEmail) => Promise<{ messageId: string | null }>
+}
+
+/**
+ * The saved provider, or SMTP when there isn't one
+ */
+export function getEmailProvider(value: string | null | undefined): EmailProviderType {
+  return EMAIL_PROVIDERS.find((provider) => provider === value) ?? "smtp"
+}
+
+/**
+ * Builds the config for sending from the form's email settings, or null when
+ * they're incomplete or the provider's binding is missing
+ */
+export function getEmailConfig(settings: EmailSettings | null, env: EmailEnv): EmailConfig | null {
+  if (!settings?.notification_email) {
+    return null
+  }
+
+  const base = { notification_email: settings.notification_email, encryption_key: env.SMTP_ENCRYPTION_KEY }
+  const provider = getEmailProvider(settings.email_provider)
+
+  switch (provider) {
+    case "smtp": {
+      if (!settings.smtp_host || !settings.smtp_port) {
+        return null
+      }
+
+      const auth = settings.smtp_auth !== 0
+      if (auth && !settings.smtp_password_encrypted && !settings.notification_email_password) {
+        return null
+      }
+
+      return {
+        ...base,
+        provider,
+        smtp_password_encrypted: auth ? settings.smtp_password_encrypted : null,
+        smtp_password_legacy: auth && !settings.smtp_password_encrypted ? settings.notification_email_password : null,
+        smtp_host: settings.smtp_host,
+        smtp_port: settings.smtp_port,
+        smtp_tls_mode: getTlsMode(settings.smtp_tls_mode, settings.smtp_port),
+        smtp_ehlo_name: settings.smtp_ehlo_name,
+      }
+    }
+    case "cloudflare":
+      return env.EMAIL ? { ...base, provider, binding: env.EMAIL } : null
+    default:
+      if (!settings.email_api_key_encrypted || (provider === "mailgun" && !settings.email_api_domain)) {
+        return null
+      }
+
+      return {
+        ...base,
+        provider,
+        api_key_encrypted: settings.email_api_key_encrypted,
+        api_domain: settings.email_api_domain,
+        api_region: EMAIL_API_REGIONS.find((region) => region === settings.email_api_region) ?? "us",
+        api_base_url: env.EMAIL_API_BASE_URL || null,
+      }
+  }
+}
+
+/**
+ * Reads the email settings posted from the settings page, throwing with a
+ * message when they're incomplete or invalid. A secret left empty keeps the
+ * saved one, but only for the provider (and SMTP account) it was saved for;
+ * the other providers' settings come back cleared.
+ */
+export async function readEmailSettings(
+  formData: FormData,
+  saved: EmailSettings | null,
+  encryptionKey: string
+): Promise<EmailSettings> {
+  const field = (name: string) => ((formData.get(name) as string | null) ?? "").trim()
+
+  const provider = field("email_provider") || "smtp"
+  if (!EMAIL_PROVIDERS.includes(provider as EmailProviderType)) {
+    throw new Error("Unknown email provider")
+  }
+
+  const notification_email = field("notification_email")
+  if (!notification_email) {
+    throw new Error("Missing required fields")
+  }
+  if (!isEmailAddress(notification_email)) {
+    throw new Error(`"${notification_email}" is not an email address`)
+  }
+
+  const encrypt = (value: string) => {
+    if (!encryptionKey) {
+      throw new Error("Set the SMTP_ENCRYPTION_KEY secret before saving an SMTP password or API key")
+    }
+    return encryptEmailSecret(value, encryptionKey)
+  }
+
+  const settings: EmailSettings = {
+    notification_email,
+    email_provider: provider,
+    notification_email_password: null,
+    smtp_password_encrypted: null,
+    smtp_host: null,
+    smtp_port: null,
+    smtp_tls_mode: null,
+    smtp_auth: 1,
+    smtp_ehlo_name: null,
+    email_api_key_encrypted: null,
+    email_api_domain: null,
+    email_api_region: null,
+  }
+  const savedProvider = saved ? getEmailProvider(saved.email_provider) : null
+
+  if (provider === "smtp") {
+    const smtp_host = field("smtp_host")
+    const smtp_port = parseInt(field("smtp_port"), 10)
+    const smtp_tls_mode = field("smtp_tls_mode")
+    const smtp_auth = formData.get("smtp_auth") === "1"
+
+    if (!smtp_host || !smtp_port) {
+      throw new Error("Missing required fields")
+    }
+    if (smtp_tls_mode && !SMTP_TLS_MODES.includes(smtp_tls_mode as SmtpTlsMode)) {
+      throw new Error("Unknown TLS mode")
+    }
+
+    // A stored password only applies to the account and server it was saved for
+    const password = field("notification_email_password")
+    if (smtp_auth && password) {
+      settings.smtp_password_encrypted = await encrypt(password)
+    } else if (smtp_auth && savedProvider === "smtp" && saved?.notification_email === notification_email && saved.smtp_host === smtp_host) {
+      settings.smtp_password_encrypted =
+        saved.smtp_password_encrypted ??
+        (saved.notification_email_password ? await encrypt(saved.notification_email_password) : null)
+    }
+    if (smtp_auth && !settings.smtp_password_encrypted) {
+      throw new Error("Enter the SMTP password")
+    }
+
+    settings.smtp_host = smtp_host
+    settings.smtp_port = smtp_port
+    settings.smtp_tls_mode = getTlsMode(smtp_tls_mode, smtp_port)
+    settings.smtp_auth = smtp_auth ? 1 : 0
+    settings.smtp_ehlo_name = parseEhloName(field("smtp_ehlo_name"))
+  } else if (provider !== "cloudflare") {
+    // A stored API key only applies to the provider it was saved for
+    const apiKey = field("email_api_key")
+    if (apiKey) {
+      settings.email_api_key_encrypted = await encrypt(apiKey)
+    } else if (savedProvider === provider) {
+      settings.email_api_key_encrypted = saved?.email_api_key_encrypted ?? null
+    }
+    if (!settings.email_api_key_encrypted) {
+      throw new Error("Enter the API key")
+    }
+
+    if (provider === "mailgun") {
+      const domain = field("email_api_domain").toLowerCase()
+      if (!API_DOMAIN_PATTERN.test(domain)) {
+        throw new Error("Enter your Mailgun sending domain, such as mg.example.com")
+      }
+      settings.email_api_domain = domain
+    }
+
+    if (provider === "mailgun" || provider === "sendgrid") {
+      const region = field("email_api_region") || "us"
+      if (!EMAIL_API_REGIONS.includes(region as EmailApiRegion)) {
+        throw new Error("Unknown region")
+      }
+      settings.email_api_region = region
+    }
+  }
+
+  return settings
+}
+
+/**
+ * The saved TLS mode, or the one usual for the port when there isn't one
+ */
+export function getTlsMode(value: string | null, port: number): SmtpTlsMode {
+  return SMTP_TLS_MODES.find((mode) => mode === value) ?? (port === 465 ? "implicit" : "starttls")
+}
+
+/**
+ * Validates the hostname to introduce ourselves with in EHLO, throwing when it
+ * isn't one. Empty means nodemailer's default.
+ */
+export function parseEhloName(value: string): string | null {
+  const name = value.trim()
+  if (!name) {
+    return null
+  }
+  if (name.length > MAX_EHLO_NAME_LENGTH || !EHLO_NAME_PATTERN.test(name)) {
+    throw new Error("The EHLO name must be a hostname, such as mail.example.com")
+  }
+  return name
+}
+
+// Stored secrets are "v1:<iv>:<ciphertext>", both base64
+const SECRET_FORMAT = "v1"
+// Named for SMTP passwords, the first secrets encrypted, and kept so they still decrypt
+const SECRET_KEY_INFO = "formzero smtp password"
+
+/**
+ * Encrypts an SMTP password or provider API key with AES-GCM for storing in
+ * form_settings. `secret` is the SMTP_ENCRYPTION_KEY Worker secret.
+ */
+export async function encryptEmailSecret(value: string, secret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await getSecretKey(secret),
+    new TextEncoder().encode(value)
+  )
+  return `${SECRET_FORMAT}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`
+}
+
+/**
+ * Encrypts SMTP passwords saved before they were encrypted at rest, clearing
+ * the plaintext as it goes. Returns how many it encrypted.
+ */
+export async function encryptLegacySmtpPasswords(db: D1Database, secret: string): Promise<number> {
+  const { results } = await db
+    .prepare("SELECT form_id, notification_email_password FROM form_settings WHERE notification_email_password IS NOT NULL")
+    .all<{ form_id: string; notification_email_password: string }>()
+
+  if (results.length === 0) {
+    return 0
+  }
+
+  // Only rows whose plaintext is unchanged are touched, so a password saved meanwhile wins
+  const statements = await Promise.all(
+    results.map(async (row) =>
+      db
+        .prepare(`
+          UPDATE form_settings
+          SET smtp_password_encrypted = ?, notification_email_password = NULL
+          WHERE form_id = ? AND notification_email_password = ?
+        `)
+        .bind(await encryptEmailSecret(row.notification_email_password, secret), row.form_id, row.notification_email_password)
+    )
+  )
+  const updated = await db.batch(statements)
+
+  return updated.reduce((count, result) => count + result.meta.changes, 0)
+}
+
+// `label` names the secret in errors, e.g. "SMTP password"
+async function decryptEmailSecret(value: string, secret: string, label: string): Promise<string> {
+  const [format, iv, ciphertext] = value.split(":")
+  if (format !== SECRET_FORMAT || !iv || !ciphertext) {
+    throw new Error(`The stored ${label} is in an unknown format; save it again`)
+  }
+
+  const key = await getSecretKey(secret)
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(ciphertext))
+    return new TextDecoder().decode(plaintext)
+  } catch {
+    throw new Error(`The stored ${label} can't be decrypted. If SMTP_ENCRYPTION_KEY changed, save it again.`)
+  }
+}
+
+// Derived rather than used as is, so any long random string works as the secret
+async function getSecretKey(secret: string): Promise<CryptoKey> {
+  if (!secret) {
+    throw new Error("The SMTP_ENCRYPTION_KEY secret is not set")
+  }
+
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), "HKDF", false, ["deriveKey"])
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: new TextEncoder().encode(SECRET_KEY_INFO) },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  )
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0))
+}
 
 /**
- * Sends a test email to verify SMTP settings
+ * Creates the transport for the form's provider, shared by every email
+ * FormZero sends. This is the only place stored secrets are decrypted.
+ */
+async function createEmailTransport(config: EmailConfig): Promise<EmailTransport> {
+  switch (config.provider) {
+    case "smtp":
+      return createSmtpTransport(config)
+    case "cloudflare":
+      return createCloudflareTransport(config.binding)
+    default:
+      return createApiTransport(
+        config,
+        await decryptEmailSecret(config.api_key_encrypted, config.encryption_key, "API key"),
+        { baseUrl: config.api_base_url ?? undefined }
+      )
+  }
+}
+
+async function createSmtpTransport(config: SmtpEmailConfig): Promise<EmailTransport> {
+  const transporter = nodemailer.createTransport({
+    host: config.smtp_host,
+    port: config.smtp_port,
+    // Implicit TLS is encrypted from the start; STARTTLS fails rather than send in plain text
+    secure: config.smtp_tls_mode === "implicit",
+    requireTLS: config.smtp_tls_mode === "starttls",
+    ignoreTLS: config.smtp_tls_mode === "none",
+    name: config.smtp_ehlo_name ?? undefined,
+    // Relays that accept mail without logging in have no password
+    auth: config.smtp_password_encrypted
+      ? {
+          user: config.notification_email,
+          pass: await decryptEmailSecret(config.smtp_password_encrypted, config.encryption_key, "SMTP password"),
+        }
+      : config.smtp_password_legacy
+        ? { user: config.notification_email, pass: config.smtp_password_legacy }
+        : undefined,
+  })
+
+  return {
+    async send(email) {
+      const info = await transporter.sendMail({
+        // nodemailer quotes and encodes the display name
+        from: email.from,
+        replyTo: email.replyTo ?? undefined,
+        to: email.to,
+        cc: email.cc,
+        bcc: email.bcc,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      })
+      return { messageId: info.messageId }
+    },
+  }
+}
+
+/**
+ * Sends a test email to the form's own address to verify its provider settings
  */
 export async function sendTestEmail(
   config: EmailConfig
 ): Promise<{ success: boolean; error?: string; messageId?: string }> {
   try {
-    // Create nodemailer transporter
-    const transporter = nodemailer.createTransport({
-      host: config.smtp_host,
-      port: config.smtp_port,
-      auth: {
-        user: config.notification_email,
-        pass: config.notification_email_password,
-      },
-    })
+    const transport = await createEmailTransport(config)
 
     // Send test email
-    const info = await transporter.sendMail({
-      from: config.notification_email,
-      to: config.notification_email,
+    const { messageId } = await transport.send({
+      from: { name: "", address: config.notification_email },
+      replyTo: null,
+      to: [config.notification_email],
+      cc: [],
+      bcc: [],
       subject: "FormZero - Test Email",
-      text: "This is a test email from FormZero. Your SMTP settings are working correctly!",
+      text: "This is a test email from FormZero. Your email settings are working correctly!",
       html: `
 <!DOCTYPE html>
 <html>
@@ -55,7 +463,7 @@ export async function sendTestEmail(
                 This is a test email from <strong>FormZero</strong>.
               </p>
               <p style="margin: 0; color: #252525; font-size: 16px; line-height: 1.6;">
-                Your SMTP settings are working correctly!
+                Your email settings are working correctly!
               </p>
             </td>
           </tr>
@@ -78,7 +486,7 @@ export async function sendTestEmail(
       `.trim(),
     })
 
-    return { success: true, messageId: info.messageId }
+    return { success: true, messageId: messageId ?? undefined }
   } catch (error) {
     console.error("Error sending test email:", error)
 
@@ -98,40 +506,81 @@ export async function sendTestEmail(
   }
 }
 
+export type EmailMessage = {
+  subject: string
+  text: string
+  html: string
+}
+
+export type EmailRecipients = {
+  to: string[]
+  cc: string[]
+  bcc: string[]
+}
+
+// Every field is optional; the form's own address is the From address without one
+export type EmailSender = {
+  name: string | null
+  address: string | null
+  replyTo: string | null
+}
+
 /**
  * Sends a notification email when a new form submission is received
  */
 export async function sendSubmissionNotification(
   config: EmailConfig,
-  submission: SubmissionEmailData
+  recipients: EmailRecipients,
+  message: EmailMessage,
+  sender: EmailSender = { name: null, address: null, replyTo: null }
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    // Create nodemailer transporter
-    const transporter = nodemailer.createTransport({
-      host: config.smtp_host,
-      port: config.smtp_port,
-      auth: {
-        user: config.notification_email,
-        pass: config.notification_email_password,
-      },
+    const transport = await createEmailTransport(config)
+
+    // Send email
+    await transport.send({
+      from: { name: sender.name ?? "", address: sender.address ?? config.notification_email },
+      replyTo: sender.replyTo,
+      to: recipients.to,
+      cc: recipients.cc,
+      bcc: recipients.bcc,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
     })
 
-    // Format the submission data for email display
-    const submissionHtml = formatSubmissionData(submission.data)
-    const submissionText = formatSubmissionDataText(submission.data)
+    return { success: true }
+  } catch (error) {
+    console.error("Error sending notification email:", error)
 
-    // Format timestamp
-    const timestamp = new Date(submission.createdAt).toLocaleString('en-US', {
-      dateStyle: 'full',
-      timeStyle: 'long',
-    })
+    let errorMessage = "Failed to send notification email"
+    if (error instanceof Error) {
+      errorMessage = error.message
+    }
 
-    // Send email
-    await transporter.sendMail({
-      from: config.notification_email,
-      to: config.notification_email,
-      subject: `New Submission for "${submission.formName}"`,
-      text: `
+    return { success: false, error: errorMessage }
+  }
+}
+
+/**
+ * Builds the built-in notification email, used for any part a form has no template for
+ */
+export function buildSubmissionEmail(submission: SubmissionEmailData): EmailMessage {
+  // Format the submission data for email display
+  const submissionHtml = formatSubmissionData(submission.data, submission.fields)
+  const submissionText = formatSubmissionDataText(submission.data, submission.fields)
+  const attachmentsHtml = formatAttachments(submission.attachments)
+  const attachmentsText = formatAttachmentsText(submission.attachments)
+
+  // Format timestamp
+  const timestamp = new Date(submission.createdAt).toLocaleString('en-US', {
+    dateStyle: 'full',
+    timeStyle: 'long',
+  })
+
+  return {
+    subject: `New Submission for "${submission.formName}"`,
+    text: `
 FormZero - New Form Submission
 
 You have received a new submission for your form "${submission.formName}".
@@ -145,11 +594,11 @@ Received: ${timestamp}
 SUBMITTED DATA
 ==============
 ${submissionText}
-
+${attachmentsText}
 ---
 This email was automatically sent by FormZero
-      `.trim(),
-      html: `
+    `.trim(),
+    html: `
 <!DOCTYPE html>
 <html>
 <head>
@@ -170,7 +619,7 @@ This email was automatically sent by FormZero
                 New Form Submission
               </h1>
               <p style="margin: 8px 0 0 0; color: #b4b4b4; font-size: 16px;">
-                ${submission.formName}
+                ${escapeHtml(submission.formName)}
               </p>
             </td>
           </tr>
@@ -181,7 +630,7 @@ This email was automatically sent by FormZero
 
               <!-- Introduction -->
               <p style="margin: 0 0 24px 0; color: #252525; font-size: 16px; line-height: 1.6;">
-                You have received a new submission for your form <strong>${submission.formName}</strong>.
+                You have received a new submission for your form <strong>${escapeHtml(submission.formName)}</strong>.
               </p>
 
               <!-- Metadata -->
@@ -205,6 +654,8 @@ This email was automatically sent by FormZero
 
               ${submissionHtml}
 
+              ${attachmentsHtml}
+
             </td>
           </tr>
 
@@ -222,15 +673,67 @@ This email was automatically sent by FormZero
     </tr>
   </table>
 </body>
+</html>
+    `.trim(),
+  }
+}
+
+/**
+ * Sends the submitter a confirmation email from the form's sender, or its own
+ * address when it has none. The text is sent as typed; the HTML part is the
+ * same text, escaped, in the usual layout.
+ */
+export async function sendAutoresponse(
+  config: EmailConfig,
+  message: { to: string; subject: string; text: string },
+  sender: Omit<EmailSender, "replyTo"> = { name: null, address: null }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const transport = await createEmailTransport(config)
+
+    await transport.send({
+      from: { name: sender.name ?? "", address: sender.address ?? config.notification_email },
+      replyTo: null,
+      to: [message.to],
+      cc: [],
+      bcc: [],
+      subject: message.subject,
+      text: message.text,
+      html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(message.subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background-color: #ffffff; border-radius: 10px; overflow: hidden; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);">
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 32px; color: #252525; font-size: 16px; line-height: 1.6;">
+              ${escapeHtml(message.text).replace(/\n/g, "<br>")}
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
 </html>
       `.trim(),
     })
 
     return { success: true }
   } catch (error) {
-    console.error("Error sending notification email:", error)
+    console.error("Error sending autoresponse:", error)
 
-    let errorMessage = "Failed to send notification email"
+    let errorMessage = "Failed to send autoresponse"
     if (error instanceof Error) {
       errorMessage = error.message
     }
@@ -242,8 +745,8 @@ This email was automatically sent by FormZero
 /**
  * Formats submission data as HTML table
  */
-function formatSubmissionData(data: Record<string, any>): string {
-  const entries = Object.entries(data)
+function formatSubmissionData(data: Record<string, any>, fields: string[]): string {
+  const entries = orderEntries(data, fields)
 
   if (entries.length === 0) {
     return '<p style="color: #8e8e8e; font-style: italic;">No data submitted</p>'
@@ -251,9 +754,7 @@ function formatSubmissionData(data: Record<string, any>): string {
 
   const rows = entries
     .map(([key, value]) => {
-      const displayKey = key
-        .replace(/_/g, ' ')
-        .replace(/\b\w/g, (l) => l.toUpperCase())
+      const displayKey = formatFieldName(key)
 
       let displayValue = formatValue(value)
 
@@ -280,8 +781,8 @@ function formatSubmissionData(data: Record<string, any>): string {
 /**
  * Formats submission data as plain text
  */
-function formatSubmissionDataText(data: Record<string, any>): string {
-  const entries = Object.entries(data)
+function formatSubmissionDataText(data: Record<string, any>, fields: string[]): string {
+  const entries = orderEntries(data, fields)
 
   if (entries.length === 0) {
     return 'No data submitted'
@@ -289,15 +790,74 @@ function formatSubmissionDataText(data: Record<string, any>): string {
 
   return entries
     .map(([key, value]) => {
-      const displayKey = key
-        .replace(/_/g, ' ')
-        .replace(/\b\w/g, (l) => l.toUpperCase())
+      const displayKey = formatFieldName(key)
 
       return `${displayKey}: ${formatValueText(value)}`
     })
     .join('\n')
 }
 
+/**
+ * Orders submitted fields like the form's field catalog, so every notification
+ * lists them the same way
+ */
+export function orderEntries(data: Record<string, any>, fields: string[]): [string, any][] {
+  const known = fields.filter((name) => Object.hasOwn(data, name))
+  const rest = Object.keys(data).filter((name) => !fields.includes(name))
+  return [...known, ...rest].map((name) => [name, data[name]])
+}
+
+/**
+ * Turns a field name like `first_name` into a label like `First Name`
+ */
+export function formatFieldName(key: string): string {
+  return key
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, (l) => l.toUpperCase())
+}
+
+/**
+ * Lists uploaded files with links to download them from the dashboard
+ */
+function formatAttachments(attachments: SubmissionEmailData["attachments"]): string {
+  if (attachments.length === 0) {
+    return ''
+  }
+
+  const items = attachments
+    .map((file) => `
+      <li style="margin: 0 0 8px 0; color: #252525; font-size: 14px;">
+        <a href="${escapeHtml(file.url)}" style="color: #252525; text-decoration: underline;">${escapeHtml(file.name)}</a>
+        <span style="color: #8e8e8e;">(${formatFileSize(file.size)})</span>
+      </li>
+    `)
+    .join('')
+
+  return `
+    <h2 style="margin: 32px 0 16px 0; color: #252525; font-size: 18px; font-weight: 600;">
+      Attachments
+    </h2>
+    <ul style="margin: 0; padding-left: 20px;">
+      ${items}
+    </ul>
+  `
+}
+
+/**
+ * Lists uploaded files as plain text
+ */
+function formatAttachmentsText(attachments: SubmissionEmailData["attachments"]): string {
+  if (attachments.length === 0) {
+    return ''
+  }
+
+  return `
+ATTACHMENTS
+===========
+${attachments.map((file) => `${file.name} (${formatFileSize(file.size)}): ${file.url}`).join('\n')}
+`
+}
+
 /**
  * Formats a value for HTML display
  */
@@ -306,6 +866,10 @@ function formatValue(value: any): string {
     return '<span style="color: #b4b4b4; font-style: italic;">Not provided</span>'
   }
 
+  if (isFileReference(value)) {
+    return `${escapeHtml(value.name)} <span style="color: #8e8e8e;">(${formatFileSize(value.size)}, see attachments)</span>`
+  }
+
   if (typeof value === 'boolean') {
     return value ? '✓ Yes' : '✗ No'
   }
@@ -315,7 +879,7 @@ function formatValue(value: any): string {
       return '<span style="color: #b4b4b4; font-style: italic;">Empty list</span>'
     }
     return '<ul style="margin: 0; padding-left: 20px;">' +
-      value.map(item => `<li>${escapeHtml(String(item))}</li>`).join('') +
+      value.map(item => `<li>${typeof item === 'object' && item !== null ? formatValue(item) : escapeHtml(String(item))}</li>`).join('') +
       '</ul>'
   }
 
@@ -342,11 +906,15 @@ function formatValue(value: any): string {
 /**
  * Formats a value for plain text display
  */
-function formatValueText(value: any): string {
+export function formatValueText(value: any): string {
   if (value === null || value === undefined) {
     return '(Not provided)'
   }
 
+  if (isFileReference(value)) {
+    return `${value.name} (${formatFileSize(value.size)})`
+  }
+
   if (typeof value === 'boolean') {
     return value ? 'Yes' : 'No'
   }
@@ -355,7 +923,7 @@ function formatValueText(value: any): string {
     if (value.length === 0) {
       return '(Empty list)'
     }
-    return '\n  - ' + value.map(item => String(item)).join('\n  - ')
+    return '\n  - ' + value.map(item => isFileReference(item) ? formatValueText(item) : typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)).join('\n  - ')
   }
 
   if (typeof value === 'object') {
@@ -368,7 +936,7 @@ function formatValueText(value: any): string {
 /**
  * Escapes HTML special characters
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   const map: Record<string, string> = {
     '&': '&amp;',
     '<': '&lt;',
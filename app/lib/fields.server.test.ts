@@ -0,0 +1,71 @@
+/// <reference types="node" />
+import assert from "node:assert/strict"
+import { after, before, describe, test } from "node:test"
+import { listFieldNames, recordSubmissionFields } from "./fields.server"
+import { listSubmissionFields } from "./submissions.server"
+import { createTestEnv } from "./test-env.server"
+
+let env: Awaited<ReturnType<typeof createTestEnv>>
+
+before(async () => {
+  env = await createTestEnv()
+})
+
+after(async () => {
+  await env.dispose()
+})
+
+async function createForm(id: string) {
+  await env.DB.prepare("INSERT INTO forms (id, name, created_at, updated_at) VALUES (?, ?, 0, 0)").bind(id, id).run()
+}
+
+async function addSubmission(formId: string, data: Record<string, unknown>, state: { spam?: boolean; deleted?: boolean } = {}) {
+  await env.DB.prepare("INSERT INTO submissions (id, form_id, data, created_at, spam_reason, deleted_at) VALUES (?, ?, ?, ?, ?, ?)")
+    .bind(crypto.randomUUID(), formId, JSON.stringify(data), Date.now(), state.spam ? "Honeypot" : null, state.deleted ? Date.now() : null)
+    .run()
+}
+
+describe("listFieldNames", () => {
+  test("builds the catalog from the inbox on the first read", async () => {
+    await createForm("first-read")
+    await addSubmission("first-read", { name: "Ada", email: "ada@example.com" })
+    await addSubmission("first-read", { name: "Bob", message: "Hi" })
+    await addSubmission("first-read", { casino: "Win big" }, { spam: true })
+    await addSubmission("first-read", { old: "x" }, { deleted: true })
+
+    assert.deepEqual(await listFieldNames(env.DB, "first-read"), ["name", "email", "message"])
+    assert.ok(await env.DB.prepare("SELECT 1 FROM field_catalogs WHERE form_id = ?").bind("first-read").first())
+  })
+
+  test("reads the catalog once there is one instead of scanning again", async () => {
+    await createForm("catalogued")
+    await addSubmission("catalogued", { name: "Ada" })
+    assert.deepEqual(await listFieldNames(env.DB, "catalogued"), ["name"])
+
+    // Only recorded fields join; the scheduled job picks up anything else
+    const data = { name: "Bob", phone: "555" }
+    await addSubmission("catalogued", data)
+    assert.deepEqual(await listFieldNames(env.DB, "catalogued"), ["name"])
+
+    await recordSubmissionFields(env.DB, "catalogued", data)
+    assert.deepEqual(await listFieldNames(env.DB, "catalogued"), ["name", "phone"])
+  })
+
+  test("catalogs a form without submissions as empty", async () => {
+    await createForm("empty")
+    assert.deepEqual(await listFieldNames(env.DB, "empty"), [])
+    assert.ok(await env.DB.prepare("SELECT 1 FROM field_catalogs WHERE form_id = ?").bind("empty").first())
+  })
+})
+
+describe("listSubmissionFields", () => {
+  test("lists only the fields used in the view", async () => {
+    await createForm("views")
+    await addSubmission("views", { name: "Ada" })
+    await addSubmission("views", { casino: "Win big" }, { spam: true })
+    await addSubmission("views", { old: "x" }, { deleted: true })
+
+    assert.deepEqual(await listSubmissionFields(env.DB, "views", "spam"), ["casino"])
+    assert.deepEqual(await listSubmissionFields(env.DB, "views", "trash"), ["old"])
+  })
+})
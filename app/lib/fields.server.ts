@@ -0,0 +1,202 @@
+import type { FormField } from "#/types/field"
+
+// Forms whose catalog is refreshed per scheduled run; the rest wait for the next one
+const CATALOGS_PER_RUN = 100
+
+// Kinds of value that can all be written as a plain string
+const TEXT_KINDS = new Set(["text", "email", "number", "url", "date"])
+
+// Spam and trash are left out so junk doesn't skew the catalog
+const INBOX = "deleted_at IS NULL AND spam_reason IS NULL"
+
+// Mirrors classifyValue below
+const KIND_SQL = `
+  CASE json_each.type
+    WHEN 'null' THEN 'empty'
+    WHEN 'true' THEN 'boolean'
+    WHEN 'false' THEN 'boolean'
+    WHEN 'integer' THEN 'number'
+    WHEN 'real' THEN 'number'
+    WHEN 'array' THEN CASE WHEN json_array_length(json_each.value) = 0 THEN 'empty' ELSE 'list' END
+    WHEN 'object' THEN CASE WHEN json_extract(json_each.value, '$.kind') = 'file' THEN 'file' ELSE 'object' END
+    ELSE CASE
+      WHEN trim(json_each.value) = '' THEN 'empty'
+      WHEN json_each.value GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]' THEN 'date'
+      WHEN json_each.value LIKE 'http://%' OR json_each.value LIKE 'https://%' THEN 'url'
+      WHEN json_each.value GLOB '?*@?*.?*' AND json_each.value NOT GLOB '*[ ]*' THEN 'email'
+      WHEN json_each.value GLOB '[0-9]*' AND json_each.value NOT GLOB '*[^0-9.]*' THEN 'number'
+      WHEN json_each.value GLOB '-[0-9]*' AND substr(json_each.value, 2) NOT GLOB '*[^0-9.]*' THEN 'number'
+      ELSE 'text'
+    END
+  END
+`
+
+/**
+ * Field names in catalog order, for the dashboard, exports and emails. A form
+ * without a catalog yet gets one now, so only its first read scans submissions.
+ */
+export async function listFieldNames(db: D1Database, formId: string): Promise<string[]> {
+  const [catalog, fields] = await db.batch<any>([
+    db.prepare("SELECT 1 FROM field_catalogs WHERE form_id = ?").bind(formId),
+    db.prepare("SELECT name FROM form_fields WHERE form_id = ? ORDER BY position, name").bind(formId),
+  ])
+
+  if (catalog.results.length === 0) {
+    return (await inferFormFields(db, formId)).map((field) => field.name)
+  }
+
+  return (fields.results as { name: string }[]).map((row) => row.name)
+}
+
+/**
+ * The form's inferred fields with their observed types and fill rates
+ */
+export async function getFieldCatalog(db: D1Database, formId: string): Promise<FormField[]> {
+  const result = await db
+    .prepare("SELECT name, type, fill_rate FROM form_fields WHERE form_id = ? ORDER BY position, name")
+    .bind(formId)
+    .all<FormField>()
+
+  return result.results
+}
+
+/**
+ * Adds fields the catalog hasn't seen yet, so they show up before the next
+ * scheduled run works out their fill rates
+ */
+export async function recordSubmissionFields(db: D1Database, formId: string, data: Record<string, any>): Promise<void> {
+  const entries = Object.entries(data)
+  if (entries.length === 0) {
+    return
+  }
+
+  await db.batch(
+    entries.map(([name, value]) => {
+      const kind = classifyValue(value)
+      return db
+        .prepare(`
+          INSERT INTO form_fields (form_id, name, type, fill_rate, position)
+          VALUES (?, ?, ?, NULL, (SELECT COALESCE(MAX(position) + 1, 0) FROM form_fields WHERE form_id = ?))
+          ON CONFLICT(form_id, name) DO NOTHING
+        `)
+        .bind(formId, name, kind === "empty" ? "text" : kind, formId)
+    })
+  )
+}
+
+/**
+ * Re-infers the catalog of every form whose inbox changed since its last run
+ */
+export async function refreshFieldCatalogs(db: D1Database, now = Date.now()): Promise<number> {
+  const stale = await db
+    .prepare(`
+      SELECT forms.id FROM forms
+      LEFT JOIN field_catalogs ON field_catalogs.form_id = forms.id
+      LEFT JOIN (
+        SELECT form_id, COUNT(*) AS count, MAX(created_at) AS last_submission_at
+        FROM submissions WHERE ${INBOX} GROUP BY form_id
+      ) AS inbox ON inbox.form_id = forms.id
+      WHERE field_catalogs.form_id IS NULL
+        OR field_catalogs.submission_count != COALESCE(inbox.count, 0)
+        OR field_catalogs.last_submission_at IS NOT inbox.last_submission_at
+      LIMIT ?
+    `)
+    .bind(CATALOGS_PER_RUN)
+    .all<{ id: string }>()
+
+  for (const { id } of stale.results) {
+    await inferFormFields(db, id, now)
+  }
+
+  return stale.results.length
+}
+
+/**
+ * Replaces the form's catalog with one inferred from all of its inbox submissions
+ */
+export async function inferFormFields(db: D1Database, formId: string, now = Date.now()): Promise<FormField[]> {
+  const [totals, kinds] = await db.batch<any>([
+    db
+      .prepare(`SELECT COUNT(*) AS count, MAX(created_at) AS last_submission_at FROM submissions WHERE form_id = ? AND ${INBOX}`)
+      .bind(formId),
+    db
+      .prepare(`
+        SELECT key, kind, COUNT(*) AS count, MIN(position) AS position FROM (
+          SELECT json_each.key AS key, json_each.id AS position, ${KIND_SQL} AS kind
+          FROM submissions, json_each(submissions.data)
+          WHERE submissions.form_id = ? AND ${INBOX}
+        )
+        GROUP BY key, kind
+      `)
+      .bind(formId),
+  ])
+
+  const { count: submissionCount, last_submission_at: lastSubmissionAt } = totals.results[0] as {
+    count: number
+    last_submission_at: number | null
+  }
+
+  // Collect the kinds of value seen per field, keeping the earliest position it appeared at
+  const seen = new Map<string, { kinds: Set<string>; filled: number; position: number }>()
+  for (const row of kinds.results as { key: string; kind: string; count: number; position: number }[]) {
+    const field = seen.get(row.key) ?? { kinds: new Set<string>(), filled: 0, position: row.position }
+    field.position = Math.min(field.position, row.position)
+    if (row.kind !== "empty") {
+      field.kinds.add(row.kind)
+      field.filled += row.count
+    }
+    seen.set(row.key, field)
+  }
+
+  const fields: FormField[] = [...seen.entries()]
+    .sort(([nameA, a], [nameB, b]) => a.position - b.position || nameA.localeCompare(nameB))
+    .map(([name, field]) => ({
+      name,
+      type: summarizeKinds(field.kinds),
+      fill_rate: submissionCount > 0 ? field.filled / submissionCount : 0,
+    }))
+
+  await db.batch([
+    db.prepare("DELETE FROM form_fields WHERE form_id = ?").bind(formId),
+    ...fields.map((field, position) =>
+      db
+        .prepare("INSERT INTO form_fields (form_id, name, type, fill_rate, position) VALUES (?, ?, ?, ?, ?)")
+        .bind(formId, field.name, field.type, field.fill_rate, position)
+    ),
+    db
+      .prepare(`
+        INSERT INTO field_catalogs (form_id, submission_count, last_submission_at, inferred_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          submission_count = excluded.submission_count,
+          last_submission_at = excluded.last_submission_at,
+          inferred_at = excluded.inferred_at
+      `)
+      .bind(formId, submissionCount, lastSubmissionAt, now),
+  ])
+
+  return fields
+}
+
+// One kind wins outright; a mix of plain values is text, anything else is mixed
+function summarizeKinds(kinds: Set<string>): string {
+  if (kinds.size === 0) return "text"
+  if (kinds.size === 1) return [...kinds][0]
+  return [...kinds].every((kind) => TEXT_KINDS.has(kind)) ? "text" : "mixed"
+}
+
+function classifyValue(value: unknown): string {
+  if (value === null || value === undefined) return "empty"
+  if (typeof value === "boolean") return "boolean"
+  if (typeof value === "number") return "number"
+  if (Array.isArray(value)) return value.length === 0 ? "empty" : "list"
+  if (typeof value === "object") return (value as { kind?: unknown }).kind === "file" ? "file" : "object"
+
+  const text = String(value)
+  if (text.trim() === "") return "empty"
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return "date"
+  if (/^https?:\/\//i.test(text)) return "url"
+  if (/^[^ ]+@[^ ]+\.[^ ]+$/.test(text)) return "email"
+  if (/^-?\d[\d.]*$/.test(text)) return "number"
+  return "text"
+}
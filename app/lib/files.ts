@@ -0,0 +1,33 @@
+/**
+ * What a submission stores in place of an uploaded file
+ */
+export type FileReference = {
+  kind: "file"
+  id: string
+  name: string
+  type: string
+  size: number
+}
+
+export function isFileReference(value: unknown): value is FileReference {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as FileReference).kind === "file" &&
+    typeof (value as FileReference).id === "string" &&
+    typeof (value as FileReference).name === "string"
+  )
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Dashboard URL that downloads an uploaded file after checking the session
+ */
+export function getFileUrl(formId: string, fileId: string): string {
+  return `/forms/${formId}/files/${fileId}`
+}
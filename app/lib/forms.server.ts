@@ -0,0 +1,96 @@
+export type PublicForm = {
+  id: string
+  name: string
+  archived_at: number | null
+}
+
+/**
+ * Generates a random, non-enumerable key for a form's public submission endpoint
+ */
+export function generatePublicKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(12))
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Turns a form name into a unique dashboard slug, appending -2, -3, ... on collisions
+ */
+export async function generateFormId(db: D1Database, name: string): Promise<string> {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "form"
+
+  const result = await db
+    .prepare("SELECT id FROM forms WHERE id = ? OR id LIKE ?")
+    .bind(base, `${base}-%`)
+    .all<{ id: string }>()
+  const taken = new Set(result.results.map((row) => row.id))
+
+  let id = base
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`
+  }
+  return id
+}
+
+/**
+ * Resolves a public key to its form, accepting a rotated-out key until its grace period ends
+ */
+export async function findFormByPublicKey(
+  db: D1Database,
+  publicKey: string,
+  now = Date.now()
+): Promise<PublicForm | null> {
+  return db
+    .prepare(`
+      SELECT id, name, archived_at
+      FROM forms
+      WHERE public_key = ?
+         OR (previous_public_key = ? AND (previous_public_key_expires_at IS NULL OR previous_public_key_expires_at > ?))
+      ORDER BY public_key = ? DESC
+      LIMIT 1
+    `)
+    .bind(publicKey, publicKey, now, publicKey)
+    .first<PublicForm>()
+}
+
+/**
+ * Issues a new public key; the old one keeps working for `graceMs` (0 disables it immediately)
+ */
+export async function rotatePublicKey(
+  db: D1Database,
+  formId: string,
+  graceMs: number,
+  now = Date.now()
+): Promise<string> {
+  const publicKey = generatePublicKey()
+
+  if (graceMs > 0) {
+    await db
+      .prepare(`
+        UPDATE forms
+        SET previous_public_key = public_key,
+            previous_public_key_expires_at = ?,
+            public_key = ?,
+            updated_at = ?
+        WHERE id = ?
+      `)
+      .bind(now + graceMs, publicKey, now, formId)
+      .run()
+  } else {
+    await db
+      .prepare(`
+        UPDATE forms
+        SET previous_public_key = NULL,
+            previous_public_key_expires_at = NULL,
+            public_key = ?,
+            updated_at = ?
+        WHERE id = ?
+      `)
+      .bind(publicKey, now, formId)
+      .run()
+  }
+
+  return publicKey
+}
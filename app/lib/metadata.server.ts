@@ -0,0 +1,111 @@
+import type { SubmissionMetadata } from "#/types/submission"
+
+export const IP_MODES = ["full", "hash", "none"] as const
+export type IpMode = (typeof IP_MODES)[number]
+
+// Headers are client-controlled, so stored values are capped
+const MAX_USER_AGENT_LENGTH = 512
+const MAX_REFERRER_LENGTH = 2048
+const MAX_UTM_LENGTH = 256
+
+const UTM_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content"] as const
+
+export type MetadataSettings = {
+  metadata_capture: number | null
+  metadata_ip_mode: string | null
+  metadata_ip_salt: string | null
+}
+
+/**
+ * Loads the form's metadata capture settings, or null when no settings exist
+ */
+export async function getMetadataSettings(db: D1Database, formId: string): Promise<MetadataSettings | null> {
+  return db
+    .prepare("SELECT metadata_capture, metadata_ip_mode, metadata_ip_salt FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<MetadataSettings>()
+}
+
+/**
+ * Generates the per-form salt for hashed IP addresses
+ */
+export function generateIpSalt(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/**
+ * Reads where the submission came from. Everything is null unless the form has
+ * capture enabled. UTM parameters come from the page that posted the form, or
+ * failing that from the submission URL itself.
+ */
+export async function captureMetadata(request: Request, settings: MetadataSettings | null): Promise<SubmissionMetadata> {
+  const metadata: SubmissionMetadata = {
+    ip: null,
+    user_agent: null,
+    referrer: null,
+    country: null,
+    city: null,
+    utm_source: null,
+    utm_medium: null,
+    utm_campaign: null,
+    utm_term: null,
+    utm_content: null,
+  }
+
+  if (!settings?.metadata_capture) {
+    return metadata
+  }
+
+  const ip = request.headers.get("cf-connecting-ip")
+  if (ip && settings.metadata_ip_mode === "full") {
+    metadata.ip = ip
+  } else if (ip && settings.metadata_ip_mode === "hash" && settings.metadata_ip_salt) {
+    metadata.ip = await hashIp(settings.metadata_ip_salt, ip)
+  }
+
+  metadata.user_agent = truncate(request.headers.get("user-agent"), MAX_USER_AGENT_LENGTH)
+  metadata.referrer = truncate(request.headers.get("referer"), MAX_REFERRER_LENGTH)
+
+  // Only set on requests that went through Cloudflare
+  const cf = (request as { cf?: { country?: string; city?: string } }).cf
+  metadata.country = cf?.country || null
+  metadata.city = cf?.city || null
+
+  const sources = [parseSearchParams(metadata.referrer), new URL(request.url).searchParams]
+  for (const param of UTM_PARAMS) {
+    const value = sources.map((params) => params?.get(param)?.trim()).find(Boolean)
+    metadata[param] = truncate(value ?? null, MAX_UTM_LENGTH)
+  }
+
+  return metadata
+}
+
+// Keyed with the form's salt so hashes can be matched within a form but not reversed
+async function hashIp(salt: string, ip: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(salt),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(ip))
+  return toHex(new Uint8Array(signature)).slice(0, 32)
+}
+
+function parseSearchParams(url: string | null): URLSearchParams | null {
+  if (!url) return null
+  try {
+    return new URL(url).searchParams
+  } catch {
+    return null
+  }
+}
+
+function truncate(value: string | null, length: number): string | null {
+  return value ? value.slice(0, length) : null
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,18 @@
+import type { SubmissionMetadata } from "#/types/submission"
+
+export type MetadataField = keyof SubmissionMetadata
+
+// Display order for the detail view, table filters and CSV columns; each key is
+// also the column name and the list filter's query parameter
+export const METADATA_FIELDS: { key: MetadataField; label: string }[] = [
+  { key: "ip", label: "IP Address" },
+  { key: "user_agent", label: "User Agent" },
+  { key: "referrer", label: "Referrer" },
+  { key: "country", label: "Country" },
+  { key: "city", label: "City" },
+  { key: "utm_source", label: "UTM Source" },
+  { key: "utm_medium", label: "UTM Medium" },
+  { key: "utm_campaign", label: "UTM Campaign" },
+  { key: "utm_term", label: "UTM Term" },
+  { key: "utm_content", label: "UTM Content" },
+]
@@ -0,0 +1,144 @@
+export const ORIGIN_MODES = ["strict", "lenient"] as const
+
+export type OriginMode = (typeof ORIGIN_MODES)[number]
+
+export type OriginSettings = {
+  allowed_origins: string | null
+  origin_mode: OriginMode | null
+}
+
+export type OriginCheck =
+  | { allowed: true }
+  | { allowed: false; origin: string | null; mode: OriginMode }
+
+type OriginPattern = {
+  scheme: string | null
+  wildcard: boolean
+  host: string
+  port: string
+}
+
+// [scheme://][*.]host[:port], with an optional trailing slash
+const PATTERN = /^(?:(https?):\/\/)?(\*\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(\d{1,5}))?\/?$/i
+
+const DEFAULT_PORTS: Record<string, string> = { http: "80", https: "443" }
+
+/**
+ * Loads the form's origin allowlist, or null when no settings exist
+ */
+export async function getOriginSettings(db: D1Database, formId: string): Promise<OriginSettings | null> {
+  return db
+    .prepare("SELECT allowed_origins, origin_mode FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<OriginSettings>()
+}
+
+/**
+ * Parses an allowlist with one origin per line. The scheme is optional (any scheme matches)
+ * and `*.` matches any subdomain, but not the domain itself. Throws on an invalid line.
+ */
+export function parseAllowedOrigins(allowedOrigins: string): OriginPattern[] {
+  return allowedOrigins
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const match = line.match(PATTERN)
+      if (!match) {
+        throw new Error(`Invalid origin: ${line}`)
+      }
+      const scheme = match[1]?.toLowerCase() ?? null
+      return {
+        scheme,
+        wildcard: !!match[2],
+        host: match[3].toLowerCase(),
+        // URL drops default ports, so patterns have to as well
+        port: match[4] && match[4] !== DEFAULT_PORTS[scheme ?? ""] ? match[4] : "",
+      }
+    })
+}
+
+/**
+ * The origin a request was sent from, falling back to the Referer when the
+ * browser didn't send an Origin header
+ */
+export function getRequestOrigin(request: Request): string | null {
+  const origin = request.headers.get("origin")
+  if (origin && origin !== "null") {
+    return origin
+  }
+
+  const referer = request.headers.get("referer")
+  if (!referer) return null
+
+  try {
+    return new URL(referer).origin
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Checks the request's origin against the form's allowlist; every origin is allowed
+ * when the list is empty
+ */
+export function checkOrigin(request: Request, settings: OriginSettings | null): OriginCheck {
+  if (!settings?.allowed_origins) {
+    return { allowed: true }
+  }
+
+  const origin = getRequestOrigin(request)
+  if (origin && isOriginAllowed(origin, parseAllowedOrigins(settings.allowed_origins))) {
+    return { allowed: true }
+  }
+
+  return { allowed: false, origin, mode: settings.origin_mode ?? "strict" }
+}
+
+/**
+ * CORS headers for the submission endpoint: a wildcard when the form has no allowlist,
+ * otherwise the request's origin is echoed back only if it is on the list
+ */
+export function getCorsHeaders(request: Request, settings: OriginSettings | null): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Accept",
+    "Access-Control-Max-Age": "86400",
+  }
+
+  if (!settings?.allowed_origins) {
+    headers["Access-Control-Allow-Origin"] = "*"
+    return headers
+  }
+
+  // The response now depends on the Origin header, so caches must key on it
+  headers["Vary"] = "Origin"
+
+  const origin = request.headers.get("origin")
+  if (origin && isOriginAllowed(origin, parseAllowedOrigins(settings.allowed_origins))) {
+    headers["Access-Control-Allow-Origin"] = origin
+  }
+
+  return headers
+}
+
+/**
+ * Checks an origin (or any absolute URL) against parsed allowlist patterns
+ */
+export function isOriginAllowed(origin: string, patterns: OriginPattern[]): boolean {
+  let url: URL
+  try {
+    url = new URL(origin)
+  } catch {
+    return false
+  }
+
+  const scheme = url.protocol.replace(/:$/, "")
+  const host = url.hostname.toLowerCase()
+
+  return patterns.some((pattern) => {
+    if (pattern.scheme && pattern.scheme !== scheme) return false
+    if (pattern.port !== url.port) return false
+    return pattern.wildcard ? host.endsWith(`.${pattern.host}`) : host === pattern.host
+  })
+}
@@ -0,0 +1,154 @@
+export const FIELD_PARSING_MODES = ["nested", "flat"] as const
+export type FieldParsingMode = (typeof FIELD_PARSING_MODES)[number]
+
+// Deeper keys are kept as-is rather than expanded
+const MAX_DEPTH = 5
+
+// `name`, then any mix of `[key]`, `[]` and `.key` segments
+const KEY_PATTERN = /^([^.[\]]+)((?:\[[^[\]]*\]|\.[^.[\]]+)*)$/
+const SEGMENT_PATTERN = /\[([^[\]]*)\]|\.([^.[\]]+)/g
+
+export type ParsingSettings = {
+  field_parsing: string | null
+}
+
+/**
+ * Loads how the form parses field names, or null when no settings exist
+ */
+export async function getParsingSettings(db: D1Database, formId: string): Promise<ParsingSettings | null> {
+  return db
+    .prepare("SELECT field_parsing FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<ParsingSettings>()
+}
+
+/**
+ * Turns urlencoded or multipart fields into submission data. Repeated names become
+ * arrays and `address[city]` or `address.city` become nested objects, unless the
+ * form uses flat parsing, where the last value for each name wins.
+ */
+export function parseFormData(formData: FormData, settings: ParsingSettings | null): Record<string, any> {
+  if (settings?.field_parsing === "flat") {
+    return Object.fromEntries(formData)
+  }
+  return expandFields(formData.entries())
+}
+
+/**
+ * Expands bracket and dot notation in the top-level keys of a JSON body, so JSON
+ * clients can post the same names as an HTML form
+ */
+export function parseJsonBody(body: Record<string, unknown>, settings: ParsingSettings | null): Record<string, any> {
+  if (settings?.field_parsing === "flat") {
+    return body
+  }
+  return expandFields(Object.entries(body))
+}
+
+function expandFields(entries: Iterable<[string, unknown]>): Record<string, any> {
+  const root: Record<string, any> = {}
+  // Only containers built here are turned into arrays; objects posted as JSON are left alone
+  const created = new WeakSet<object>()
+
+  for (const [name, value] of entries) {
+    const path = parseKey(name)
+    if (!path || !assign(root, path.segments, value, path.append, created)) {
+      // Names that can't be expanded, or clash with an earlier field, are kept as they came
+      addValue(root, name, value, false)
+    }
+  }
+
+  return Object.fromEntries(Object.entries(root).map(([name, value]) => [name, toArrays(value, created)]))
+}
+
+function parseKey(name: string): { segments: string[]; append: boolean } | null {
+  const match = KEY_PATTERN.exec(name)
+  if (!match) return null
+
+  const segments = [match[1]]
+  for (const [, bracket, dotted] of match[2].matchAll(SEGMENT_PATTERN)) {
+    segments.push(bracket ?? dotted)
+  }
+
+  // A trailing `[]` marks a list even when only one value is sent
+  const append = segments.length > 1 && segments[segments.length - 1] === ""
+  if (append) segments.pop()
+
+  if (segments.length > MAX_DEPTH || segments.some((segment) => !segment)) {
+    return null
+  }
+  return { segments, append }
+}
+
+function assign(
+  root: Record<string, any>,
+  segments: string[],
+  value: unknown,
+  append: boolean,
+  created: WeakSet<object>
+): boolean {
+  let container = root
+
+  for (const segment of segments.slice(0, -1)) {
+    const next = getOwn(container, segment)
+    if (next === undefined) {
+      const child = {}
+      created.add(child)
+      setOwn(container, segment, child)
+      container = child
+    } else if (isPlainObject(next)) {
+      container = next
+    } else {
+      return false
+    }
+  }
+
+  const key = segments[segments.length - 1]
+  const existing = getOwn(container, key)
+  if (isPlainObject(existing) && created.has(existing)) {
+    return false
+  }
+  addValue(container, key, value, append)
+  return true
+}
+
+// Repeated names collect into an array in the order they were sent
+function addValue(container: Record<string, any>, key: string, value: unknown, append: boolean) {
+  const existing = getOwn(container, key)
+  if (existing === undefined) {
+    setOwn(container, key, append ? [value] : value)
+  } else if (Array.isArray(existing)) {
+    existing.push(value)
+  } else {
+    setOwn(container, key, [existing, value])
+  }
+}
+
+// Field names like `__proto__` must become plain properties, never reach Object.prototype
+function getOwn(container: Record<string, any>, key: string): any {
+  return Object.hasOwn(container, key) ? container[key] : undefined
+}
+
+function setOwn(container: Record<string, any>, key: string, value: unknown) {
+  Object.defineProperty(container, key, { value, writable: true, enumerable: true, configurable: true })
+}
+
+// `items[0][name]` builds an object keyed by index, which reads better as a list
+function toArrays(value: any, created: WeakSet<object>): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => toArrays(item, created))
+  }
+  if (!isPlainObject(value) || !created.has(value)) {
+    return value
+  }
+
+  const entries = Object.entries(value).map(([key, item]) => [key, toArrays(item, created)] as const)
+  if (entries.length > 0 && entries.every(([key]) => /^(0|[1-9]\d{0,3})$/.test(key))) {
+    return entries.sort(([a], [b]) => Number(a) - Number(b)).map(([, item]) => item)
+  }
+  return Object.fromEntries(entries)
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof File)
+}
@@ -0,0 +1,113 @@
+export const RATE_LIMIT_WINDOWS = [60, 3600, 86400]
+
+export const DEFAULT_RATE_LIMIT_WINDOW = 3600
+
+export type RateLimitSettings = {
+  rate_limit_window_seconds: number | null
+  rate_limit_per_form: number | null
+  rate_limit_per_ip: number | null
+}
+
+export type RateLimitResult =
+  | { limited: false }
+  | { limited: true; retryAfter: number }
+
+/**
+ * Loads the form's rate limits, or null when no settings exist
+ */
+export async function getRateLimitSettings(db: D1Database, formId: string): Promise<RateLimitSettings | null> {
+  return db
+    .prepare("SELECT rate_limit_window_seconds, rate_limit_per_form, rate_limit_per_ip FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<RateLimitSettings>()
+}
+
+/**
+ * Counts a submission attempt against the form's limits and reports whether it is over
+ * any of them. Rejected attempts still count, so a client that keeps retrying stays blocked
+ * until the window ends.
+ */
+export async function consumeRateLimit(
+  db: D1Database,
+  formId: string,
+  ip: string | null,
+  settings: RateLimitSettings | null,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const limits: { key: string; max: number }[] = []
+
+  if (settings?.rate_limit_per_form) {
+    limits.push({ key: `form:${formId}`, max: settings.rate_limit_per_form })
+  }
+  if (settings?.rate_limit_per_ip && ip) {
+    limits.push({ key: `ip:${formId}:${ip}`, max: settings.rate_limit_per_ip })
+  }
+
+  if (limits.length === 0) {
+    return { limited: false }
+  }
+
+  const windowMs = (settings?.rate_limit_window_seconds || DEFAULT_RATE_LIMIT_WINDOW) * 1000
+  const windowStart = Math.floor(now / windowMs) * windowMs
+  const windowEnd = windowStart + windowMs
+
+  // Increment every counter in one round trip; the upsert keeps concurrent requests exact
+  const results = await db.batch<{ count: number }>(
+    limits.map(({ key }) =>
+      db
+        .prepare(`
+          INSERT INTO rate_limits (key, window_start, count, expires_at) VALUES (?, ?, 1, ?)
+          ON CONFLICT(key, window_start) DO UPDATE SET count = count + 1
+          RETURNING count
+        `)
+        .bind(key, windowStart, windowEnd)
+    )
+  )
+
+  const limited = limits.some(({ max }, i) => (results[i].results[0]?.count ?? 0) > max)
+
+  return limited
+    ? { limited: true, retryAfter: Math.max(1, Math.ceil((windowEnd - now) / 1000)) }
+    : { limited: false }
+}
+
+/**
+ * Counts one use of `key` in a fixed window of `windowSeconds` and reports whether it
+ * went over `max`. Shares the form limits' counters table and cleanup.
+ */
+export async function consumeCounter(
+  db: D1Database,
+  key: string,
+  max: number,
+  windowSeconds: number,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const windowMs = windowSeconds * 1000
+  const windowStart = Math.floor(now / windowMs) * windowMs
+  const windowEnd = windowStart + windowMs
+
+  const count = await db
+    .prepare(`
+      INSERT INTO rate_limits (key, window_start, count, expires_at) VALUES (?, ?, 1, ?)
+      ON CONFLICT(key, window_start) DO UPDATE SET count = count + 1
+      RETURNING count
+    `)
+    .bind(key, windowStart, windowEnd)
+    .first<number>("count")
+
+  return (count ?? 0) > max
+    ? { limited: true, retryAfter: Math.max(1, Math.ceil((windowEnd - now) / 1000)) }
+    : { limited: false }
+}
+
+/**
+ * Deletes counters for windows that have ended
+ */
+export async function purgeExpiredRateLimits(db: D1Database, now = Date.now()): Promise<number> {
+  const result = await db
+    .prepare("DELETE FROM rate_limits WHERE expires_at < ?")
+    .bind(now)
+    .run()
+
+  return result.meta.changes
+}
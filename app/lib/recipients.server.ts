@@ -0,0 +1,227 @@
+import type { EmailRecipients, EmailSender } from "./email.server"
+import { EMAIL_PATTERN, getField } from "./schema.server"
+
+export const ROUTE_OPERATORS = ["equals", "not_equals", "contains"] as const
+export type RouteOperator = (typeof ROUTE_OPERATORS)[number]
+
+// Keeps recipient lists and rules to a sensible size
+const MAX_RECIPIENTS = 50
+const MAX_ROUTES = 20
+const MAX_VALUE_LENGTH = 200
+const MAX_SENDER_NAME_LENGTH = 100
+
+export const DEFAULT_REPLY_TO_FIELD = "email"
+
+/**
+ * Sends the notification to its own recipients when the submitted `field`
+ * matches `value`. Comparisons ignore case and surrounding spaces, and a list
+ * of values (checkbox groups, multiple selects) matches when any item does.
+ */
+export type NotificationRoute = {
+  field: string
+  operator: RouteOperator
+  value: string
+} & EmailRecipients
+
+export type RecipientSettings = {
+  notification_email: string | null
+  notification_to: string | null
+  notification_cc: string | null
+  notification_bcc: string | null
+  notification_routes: string | null
+}
+
+export type SenderSettings = {
+  notification_from_name: string | null
+  notification_from_email: string | null
+  notification_reply_to_field: string | null
+}
+
+/**
+ * Whether the value is a single, bare email address. Anything that could end a
+ * header or add another address (line breaks, commas, angle brackets, quotes)
+ * fails, so a passing value is safe to put in one.
+ */
+export function isEmailAddress(value: string): boolean {
+  return EMAIL_PATTERN.test(value) && !/[<>"(),;:\\[\]]/.test(value)
+}
+
+/**
+ * Trims a sender display name, throwing when it's too long or has characters
+ * that don't belong in a header
+ */
+export function parseSenderName(value: string): string {
+  const name = value.trim()
+  if (/[\x00-\x1f\x7f]/.test(name)) {
+    throw new Error("The sender name can't contain line breaks or control characters")
+  }
+  if (name.length > MAX_SENDER_NAME_LENGTH) {
+    throw new Error(`The sender name can be at most ${MAX_SENDER_NAME_LENGTH} characters`)
+  }
+  return name
+}
+
+/**
+ * Splits addresses separated by commas, semicolons or line breaks, throwing on
+ * the first one that isn't an email address
+ */
+export function parseRecipientList(value: string): string[] {
+  const addresses = [...new Set(value.split(/[,;\s]+/).map((address) => address.trim()).filter(Boolean))]
+
+  for (const address of addresses) {
+    if (!isEmailAddress(address)) {
+      throw new Error(`"${address}" is not an email address`)
+    }
+  }
+  if (addresses.length > MAX_RECIPIENTS) {
+    throw new Error(`A list can have at most ${MAX_RECIPIENTS} addresses`)
+  }
+
+  return addresses
+}
+
+/**
+ * Validates routing rules sent from the settings page, throwing with a message
+ * that names the offending rule
+ */
+export function parseNotificationRoutes(value: unknown): NotificationRoute[] {
+  if (!Array.isArray(value)) {
+    throw new Error("Routing rules must be a list")
+  }
+  if (value.length > MAX_ROUTES) {
+    throw new Error(`A form can have at most ${MAX_ROUTES} routing rules`)
+  }
+
+  return value.map((route: any, index) => {
+    const label = `Rule ${index + 1}`
+
+    const field = typeof route?.field === "string" ? route.field.trim() : ""
+    if (!field) {
+      throw new Error(`${label} needs a field name`)
+    }
+    if (!ROUTE_OPERATORS.includes(route.operator)) {
+      throw new Error(`${label} has an unknown condition`)
+    }
+
+    const matchValue = typeof route.value === "string" ? route.value.trim() : ""
+    if (!matchValue) {
+      throw new Error(`${label} needs a value to compare "${field}" with`)
+    }
+    if (matchValue.length > MAX_VALUE_LENGTH) {
+      throw new Error(`${label} has a value longer than ${MAX_VALUE_LENGTH} characters`)
+    }
+
+    const recipients: EmailRecipients = { to: [], cc: [], bcc: [] }
+    for (const kind of ["to", "cc", "bcc"] as const) {
+      // The settings page sends what was typed; stored rules hold lists
+      const list = Array.isArray(route[kind]) ? route[kind].map(String).join(",") : route[kind]
+      try {
+        recipients[kind] = parseRecipientList(typeof list === "string" ? list : "")
+      } catch (error) {
+        throw new Error(`${label}: ${(error as Error).message}`)
+      }
+    }
+    if (recipients.to.length + recipients.cc.length + recipients.bcc.length === 0) {
+      throw new Error(`${label} needs at least one recipient`)
+    }
+
+    return { field, operator: route.operator, value: matchValue, ...recipients }
+  })
+}
+
+/**
+ * Works out who a submission's notification goes to. Recipients of every
+ * matching rule replace the form's lists; a form without lists emails the SMTP
+ * account it sends from, as before recipients could be set.
+ */
+export function resolveRecipients(settings: RecipientSettings, data: Record<string, any>): EmailRecipients {
+  const routed = getNotificationRoutes(settings).filter((route) => matchesRoute(route, data))
+
+  const recipients: EmailRecipients = routed.length > 0
+    ? {
+        to: routed.flatMap((route) => route.to),
+        cc: routed.flatMap((route) => route.cc),
+        bcc: routed.flatMap((route) => route.bcc),
+      }
+    : {
+        to: readList(settings.notification_to),
+        cc: readList(settings.notification_cc),
+        bcc: readList(settings.notification_bcc),
+      }
+
+  if (recipients.to.length + recipients.cc.length + recipients.bcc.length === 0 && settings.notification_email) {
+    recipients.to = [settings.notification_email]
+  }
+
+  // Each address is emailed once, in the most visible list it appears in
+  const seen = new Set<string>()
+  const unique = (addresses: string[]) =>
+    addresses.filter((address) => {
+      const key = address.toLowerCase()
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+
+  return { to: unique(recipients.to), cc: unique(recipients.cc), bcc: unique(recipients.bcc) }
+}
+
+/**
+ * Works out the From and Reply-To of a submission's notification. Reply-To is
+ * the submitter's address when the configured field holds exactly one; any
+ * other value is left out rather than trusted in a header.
+ */
+export function resolveSender(settings: SenderSettings, data: Record<string, any>): EmailSender {
+  const value = getField(data, settings.notification_reply_to_field || DEFAULT_REPLY_TO_FIELD)
+  const replyTo = typeof value === "string" ? value.trim() : ""
+
+  return {
+    name: settings.notification_from_name || null,
+    address: settings.notification_from_email || null,
+    replyTo: isEmailAddress(replyTo) ? replyTo : null,
+  }
+}
+
+function getNotificationRoutes(settings: RecipientSettings): NotificationRoute[] {
+  if (!settings.notification_routes) {
+    return []
+  }
+
+  try {
+    return parseNotificationRoutes(JSON.parse(settings.notification_routes))
+  } catch (error) {
+    // The settings action only stores valid rules, so this means the column was edited by hand
+    console.error("Ignoring invalid notification routes:", error)
+    return []
+  }
+}
+
+function readList(value: string | null): string[] {
+  if (!value) {
+    return []
+  }
+
+  try {
+    return parseRecipientList(value)
+  } catch (error) {
+    console.error("Ignoring invalid recipient list:", error)
+    return []
+  }
+}
+
+function matchesRoute(route: NotificationRoute, data: Record<string, any>): boolean {
+  const value = getField(data, route.field)
+  const items = (Array.isArray(value) ? value : [value])
+    .filter((item) => typeof item === "string" || typeof item === "number" || typeof item === "boolean")
+    .map((item) => String(item).trim().toLowerCase())
+  const expected = route.value.toLowerCase()
+
+  switch (route.operator) {
+    case "equals":
+      return items.includes(expected)
+    case "not_equals":
+      return !items.includes(expected)
+    case "contains":
+      return items.some((item) => item.includes(expected))
+  }
+}
@@ -0,0 +1,98 @@
+/// <reference types="node" />
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import { getSignedFieldErrors, getSuccessRedirect, getValidationRedirect } from "./redirects.server"
+import type { RedirectSettings } from "./redirects.server"
+
+const ENDPOINT = "https://formzero.example/api/forms/abc/submissions"
+const SECRET = "test-secret"
+
+const settings: RedirectSettings = {
+  success_redirect_url: null,
+  error_redirect_url: null,
+  redirect_hosts: "example.com",
+  allowed_origins: null,
+}
+
+function post(redirect: string | null, referer?: string): Request {
+  const url = new URL(ENDPOINT)
+  if (redirect !== null) url.searchParams.set("redirect", redirect)
+  return new Request(url, { method: "POST", headers: referer ? { referer } : {} })
+}
+
+describe("getSuccessRedirect", () => {
+  test("follows same-site paths as the resolved path", () => {
+    assert.equal(getSuccessRedirect(post("/thanks?x=1#top"), null), "/thanks?x=1#top")
+    assert.equal(getSuccessRedirect(post("/a/../thanks"), null), "/thanks")
+  })
+
+  test("follows allowlisted hosts", () => {
+    assert.equal(getSuccessRedirect(post("https://example.com/thanks"), settings), "https://example.com/thanks")
+  })
+
+  for (const target of [
+    "//evil.com",
+    "/\\evil.com",
+    "/\t/evil.com",
+    "/\n/evil.com",
+    "/\r/evil.com",
+    " /evil.com",
+    "https://evil.com/",
+    "javascript:alert(1)",
+  ]) {
+    test(`rejects ${JSON.stringify(target)}`, () => {
+      assert.equal(getSuccessRedirect(post(target), settings), "/success")
+    })
+  }
+
+  test("keeps an encoded backslash in the path on this site", () => {
+    const location = getSuccessRedirect(post("/%5C/evil.com"), settings)
+    assert.equal(location, "/%5C/evil.com")
+    assert.equal(new URL(location, ENDPOINT).origin, "https://formzero.example")
+  })
+
+  test("follows an allowlisted Referer but not another one", () => {
+    assert.equal(getSuccessRedirect(post(null, "https://example.com/contact"), settings), "https://example.com/contact")
+    assert.equal(getSuccessRedirect(post(null, "https://evil.com/contact"), settings), "/success")
+  })
+})
+
+describe("getValidationRedirect", () => {
+  const errors = { email: "Must be a valid email address" }
+  const noAllowlist: RedirectSettings = { ...settings, redirect_hosts: null }
+
+  test("goes back to the form's page with a message per field", async () => {
+    const location = new URL(await getValidationRedirect(post(null, "https://site.test/contact?errors[name]=old"), errors, noAllowlist, SECRET))
+    assert.equal(location.origin + location.pathname, "https://site.test/contact")
+    assert.deepEqual([...location.searchParams], [["errors[email]", "Must be a valid email address"]])
+  })
+
+  test("goes back only to allowlisted pages when there's an allowlist", async () => {
+    assert.match(await getValidationRedirect(post(null, "https://example.com/contact"), errors, settings, SECRET), /^https:\/\/example\.com\/contact\?/)
+    assert.match(await getValidationRedirect(post(null, "https://site.test/contact"), errors, settings, SECRET), /^\/error\?error=validation_failed&/)
+  })
+
+  test("goes to the error URL without a Referer", async () => {
+    const location = await getValidationRedirect(post(null), errors, { ...noAllowlist, error_redirect_url: "https://site.test/oops" }, SECRET)
+    assert.match(location, /^https:\/\/site\.test\/oops\?error=validation_failed&/)
+  })
+
+  test("never goes back to a Referer that would leave the site", async () => {
+    const location = await getValidationRedirect(post(null, "/\t/evil.com"), { email: "Must be a valid email address" }, settings, SECRET)
+    assert.equal(new URL(location, ENDPOINT).origin, "https://formzero.example")
+  })
+
+  test("signs the messages it sends to the built-in error page", async () => {
+    const location = new URL(await getValidationRedirect(post(null), errors, settings, SECRET), ENDPOINT)
+    assert.deepEqual(await getSignedFieldErrors(location, SECRET), [{ field: "email", message: "Must be a valid email address" }])
+    assert.deepEqual(await getSignedFieldErrors(location, "another-secret"), [])
+
+    location.searchParams.set("errors[email]", "Your account is locked, call 555-0100")
+    assert.deepEqual(await getSignedFieldErrors(location, SECRET), [])
+  })
+
+  test("shows no messages from an unsigned link", async () => {
+    const url = new URL("https://formzero.example/error?error=validation_failed&errors[email]=Call+555-0100")
+    assert.deepEqual(await getSignedFieldErrors(url, SECRET), [])
+  })
+})
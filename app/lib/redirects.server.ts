@@ -0,0 +1,206 @@
+import { isOriginAllowed, parseAllowedOrigins } from "./origins.server"
+
+// Signs the field errors sent to FormZero's own error page, see signFieldErrors
+const ERRORS_SIGNATURE_PARAM = "errors_sig"
+const ERRORS_SIGNATURE_CONTEXT = "formzero field errors"
+
+export type RedirectSettings = {
+  success_redirect_url: string | null
+  error_redirect_url: string | null
+  redirect_hosts: string | null
+  allowed_origins: string | null
+}
+
+/**
+ * Loads the form's redirect targets and the hosts redirects may go to
+ */
+export async function getRedirectSettings(db: D1Database, formId: string): Promise<RedirectSettings | null> {
+  return db
+    .prepare("SELECT success_redirect_url, error_redirect_url, redirect_hosts, allowed_origins FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<RedirectSettings>()
+}
+
+/**
+ * Validates a configured redirect target, which must be an absolute http(s) URL
+ */
+export function parseRedirectUrl(value: string): URL {
+  const url = new URL(value)
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("Redirect URLs must start with http:// or https://")
+  }
+  return url
+}
+
+/**
+ * Where to send the browser after an accepted HTML post: an allowlisted `?redirect=`,
+ * then the form's success URL, then an allowlisted Referer, then the built-in page
+ */
+export function getSuccessRedirect(request: Request, settings: RedirectSettings | null): string {
+  const redirectParam = new URL(request.url).searchParams.get("redirect")
+  const target = redirectParam && resolveRedirect(redirectParam, request, settings)
+  if (target) {
+    return target
+  }
+
+  if (settings?.success_redirect_url) {
+    return settings.success_redirect_url
+  }
+
+  const referer = request.headers.get("referer")
+  const back = referer && resolveRedirect(referer, request, settings)
+  if (back) {
+    return back
+  }
+
+  return "/success"
+}
+
+/**
+ * Where to send the browser when an HTML post fails: the form's error URL when set,
+ * otherwise the built-in error page. The error code is passed along either way.
+ */
+export function getErrorRedirect(error: string, settings: RedirectSettings | null): string {
+  if (settings?.error_redirect_url) {
+    const url = new URL(settings.error_redirect_url)
+    url.searchParams.set("error", error)
+    return url.toString()
+  }
+
+  return `/error?error=${error}`
+}
+
+/**
+ * Where to send the browser when an HTML post fails validation: back to the form's
+ * page when it's allowlisted, or when the form has no allowlist at all, otherwise
+ * wherever other errors go. Each message is added as an `errors[field]` query
+ * parameter so the page can show it next to the field. `secret` signs them when
+ * they go to FormZero's own error page.
+ */
+export async function getValidationRedirect(
+  request: Request,
+  errors: Record<string, string>,
+  settings: RedirectSettings | null,
+  secret: string
+): Promise<string> {
+  const referer = request.headers.get("referer")
+  // The Referer is the page the browser posted from, so without an allowlist going
+  // back there can't take anyone somewhere they weren't already
+  const back = referer && resolveRedirect(referer, request, settings, { anyHostWithoutAllowlist: true })
+  const target = new URL(back || getErrorRedirect("validation_failed", settings), request.url)
+
+  // Drop the errors from an earlier failed attempt
+  for (const key of [...target.searchParams.keys()]) {
+    if (key.startsWith("errors[") || key === ERRORS_SIGNATURE_PARAM) target.searchParams.delete(key)
+  }
+  for (const [field, message] of Object.entries(errors)) {
+    target.searchParams.set(`errors[${field}]`, message)
+  }
+
+  if (target.origin !== new URL(request.url).origin) {
+    return target.toString()
+  }
+
+  target.searchParams.set(ERRORS_SIGNATURE_PARAM, await signFieldErrors(getFieldErrors(target.searchParams), secret))
+  return target.pathname + target.search + target.hash
+}
+
+/**
+ * Reads the `errors[field]` messages from a URL's query string
+ */
+export function getFieldErrors(params: URLSearchParams): { field: string; message: string }[] {
+  return [...params]
+    .filter(([key]) => key.startsWith("errors[") && key.endsWith("]"))
+    .map(([key, message]) => ({ field: key.slice("errors[".length, -1), message }))
+}
+
+/**
+ * Returns the field errors in the URL when FormZero signed them, and none otherwise,
+ * so a crafted link can't put words in FormZero's mouth on its own origin
+ */
+export async function getSignedFieldErrors(url: URL, secret: string): Promise<{ field: string; message: string }[]> {
+  const errors = getFieldErrors(url.searchParams)
+  const signature = url.searchParams.get(ERRORS_SIGNATURE_PARAM)
+  if (errors.length === 0 || !secret || !signature || !/^[0-9a-f]{64}$/.test(signature)) {
+    return []
+  }
+
+  const key = await importKey(secret)
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    key,
+    Uint8Array.from(signature.match(/../g)!, (byte) => parseInt(byte, 16)),
+    encodeFieldErrors(errors)
+  )
+  return valid ? errors : []
+}
+
+async function signFieldErrors(errors: { field: string; message: string }[], secret: string): Promise<string> {
+  const signature = await crypto.subtle.sign("HMAC", await importKey(secret), encodeFieldErrors(errors))
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+// Prefixed, so a signature made here can't pass for one made elsewhere with the same secret
+function encodeFieldErrors(errors: { field: string; message: string }[]): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${ERRORS_SIGNATURE_CONTEXT}\n${JSON.stringify(errors.map(({ field, message }) => [field, message]))}`)
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  )
+}
+
+/**
+ * Resolves a redirect target against the request, returning what to put in
+ * Location, or null when it isn't allowed. Same-site targets come back as the
+ * resolved path, so the browser follows exactly what was checked; anything
+ * else needs an allowlisted host, or with `anyHostWithoutAllowlist`, no allowlist.
+ */
+function resolveRedirect(
+  target: string,
+  request: Request,
+  settings: RedirectSettings | null,
+  options: { anyHostWithoutAllowlist?: boolean } = {}
+): string | null {
+  // Browsers drop tabs and line breaks from URLs, which turns "/\t/evil.com" into "//evil.com"
+  if (/[\x00-\x20\x7f]|\s/.test(target)) {
+    return null
+  }
+
+  let url: URL
+  try {
+    url = new URL(target, request.url)
+  } catch {
+    return null
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return null
+  }
+
+  if (url.origin === new URL(request.url).origin) {
+    return url.pathname + url.search + url.hash
+  }
+
+  const allowlist = [
+    settings?.redirect_hosts,
+    settings?.allowed_origins,
+    settings?.success_redirect_url && new URL(settings.success_redirect_url).origin,
+    settings?.error_redirect_url && new URL(settings.error_redirect_url).origin,
+  ].filter(Boolean).join("\n")
+
+  if (!allowlist) {
+    return options.anyHostWithoutAllowlist ? url.toString() : null
+  }
+
+  try {
+    return isOriginAllowed(url.origin, parseAllowedOrigins(allowlist)) ? url.toString() : null
+  } catch {
+    // A malformed stored list shouldn't turn into an open redirect
+    return null
+  }
+}
@@ -0,0 +1,63 @@
+import { encryptLegacySmtpPasswords } from "./email.server"
+import { purgeExpiredSubmissions } from "./submissions.server"
+import { purgeExpiredRateLimits } from "./rate-limit.server"
+import { purgeOrphanedFiles } from "./uploads.server"
+import { refreshFieldCatalogs } from "./fields.server"
+import { failStalledWebhookDeliveries, purgeOldWebhookDeliveries } from "./webhooks.server"
+
+/**
+ * Runs periodic maintenance from the Worker's cron trigger
+ */
+export async function runScheduledTasks(env: Env, now = Date.now()): Promise<void> {
+  // SMTP passwords saved before they were encrypted at rest. They're sent with as
+  // they are until this runs; a failure is retried on the next run.
+  try {
+    const encrypted = await encryptLegacySmtpPasswords(env.DB, env.SMTP_ENCRYPTION_KEY)
+    if (encrypted > 0) console.log(`Encrypted ${encrypted} stored SMTP password(s)`)
+  } catch (error) {
+    console.error("Failed to encrypt stored SMTP passwords:", error)
+  }
+
+  try {
+    const purged = await purgeExpiredSubmissions(env.DB, now)
+    console.log(`Purged ${purged} expired submission(s) from trash`)
+  } catch (error) {
+    console.error("Failed to purge expired submissions:", error)
+  }
+
+  try {
+    const purged = await purgeExpiredRateLimits(env.DB, now)
+    console.log(`Purged ${purged} expired rate limit counter(s)`)
+  } catch (error) {
+    console.error("Failed to purge expired rate limit counters:", error)
+  }
+
+  // Runs after the trash purge so files from just-deleted submissions go too
+  try {
+    const purged = await purgeOrphanedFiles(env.DB, env.UPLOADS, now)
+    console.log(`Purged ${purged} orphaned file(s)`)
+  } catch (error) {
+    console.error("Failed to purge orphaned files:", error)
+  }
+
+  try {
+    const refreshed = await refreshFieldCatalogs(env.DB, now)
+    console.log(`Refreshed the field catalog of ${refreshed} form(s)`)
+  } catch (error) {
+    console.error("Failed to refresh field catalogs:", error)
+  }
+
+  try {
+    const failed = await failStalledWebhookDeliveries(env.DB, now)
+    if (failed > 0) console.log(`Marked ${failed} stalled webhook deliveries as failed`)
+  } catch (error) {
+    console.error("Failed to mark stalled webhook deliveries as failed:", error)
+  }
+
+  try {
+    const purged = await purgeOldWebhookDeliveries(env.DB, now)
+    console.log(`Purged ${purged} old webhook deliveries`)
+  } catch (error) {
+    console.error("Failed to purge old webhook deliveries:", error)
+  }
+}
@@ -0,0 +1,230 @@
+import { isFileReference } from "./files"
+
+export const FIELD_TYPES = ["text", "email", "number", "url", "date", "enum"] as const
+export type FieldType = (typeof FIELD_TYPES)[number]
+
+// Keeps a pasted schema, and the patterns in it, to a sensible size
+const MAX_FIELDS = 100
+const MAX_PATTERN_LENGTH = 500
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export type FieldRule = {
+  name: string
+  type: FieldType
+  required: boolean
+  minLength: number | null
+  maxLength: number | null
+  pattern: string | null
+  options: string[] | null
+}
+
+export type SchemaSettings = {
+  field_schema: string | null
+}
+
+/**
+ * Loads the form's field schema, or an empty list when it has none
+ */
+export async function getFieldSchema(db: D1Database, formId: string): Promise<FieldRule[]> {
+  const settings = await db
+    .prepare("SELECT field_schema FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<SchemaSettings>()
+
+  if (!settings?.field_schema) {
+    return []
+  }
+
+  try {
+    return parseFieldSchema(JSON.parse(settings.field_schema))
+  } catch (error) {
+    // The settings action only stores valid schemas, so this means the column was edited by hand
+    console.error("Ignoring invalid field schema:", error)
+    return []
+  }
+}
+
+/**
+ * Validates a schema sent from the settings page, throwing with a message that
+ * names the offending field
+ */
+export function parseFieldSchema(value: unknown): FieldRule[] {
+  if (!Array.isArray(value)) {
+    throw new Error("Schema must be a list of fields")
+  }
+  if (value.length > MAX_FIELDS) {
+    throw new Error(`A schema can have at most ${MAX_FIELDS} fields`)
+  }
+
+  const names = new Set<string>()
+
+  return value.map((field: any) => {
+    const name = typeof field?.name === "string" ? field.name.trim() : ""
+    if (!name) {
+      throw new Error("Every field needs a name")
+    }
+    if (names.has(name)) {
+      throw new Error(`"${name}" is listed more than once`)
+    }
+    names.add(name)
+
+    if (!FIELD_TYPES.includes(field.type)) {
+      throw new Error(`"${name}" has an unknown type`)
+    }
+
+    const minLength = parseLength(field.minLength, name)
+    const maxLength = parseLength(field.maxLength, name)
+    if (minLength !== null && maxLength !== null && minLength > maxLength) {
+      throw new Error(`"${name}" has a minimum length above its maximum`)
+    }
+
+    const pattern = typeof field.pattern === "string" && field.pattern ? field.pattern : null
+    if (pattern) {
+      if (pattern.length > MAX_PATTERN_LENGTH) {
+        throw new Error(`The pattern for "${name}" is too long`)
+      }
+      try {
+        new RegExp(pattern)
+      } catch {
+        throw new Error(`The pattern for "${name}" is not a valid regular expression`)
+      }
+    }
+
+    let options: string[] | null = null
+    if (field.type === "enum") {
+      const values: string[] = Array.isArray(field.options)
+        ? field.options.map((option: unknown) => String(option).trim()).filter(Boolean)
+        : []
+      options = values
+      if (values.length === 0) {
+        throw new Error(`"${name}" needs at least one option`)
+      }
+    }
+
+    return {
+      name,
+      type: field.type,
+      required: field.required === true,
+      minLength,
+      maxLength,
+      pattern,
+      options,
+    }
+  })
+}
+
+/**
+ * Checks the submission against the schema, returning a message per invalid
+ * field. Fields the schema doesn't mention are left alone.
+ */
+export function validateSubmission(data: Record<string, any>, schema: FieldRule[]): Record<string, string> {
+  const errors: Record<string, string> = {}
+
+  for (const rule of schema) {
+    const value = getField(data, rule.name)
+    // Checkbox groups and multiple selects arrive as lists; every item must pass
+    const values = (Array.isArray(value) ? value : [value]).filter((item) => !isEmpty(item))
+
+    if (values.length === 0) {
+      if (rule.required) {
+        errors[rule.name] = "This field is required"
+      }
+      continue
+    }
+
+    for (const item of values) {
+      const error = validateValue(item, rule)
+      if (error) {
+        errors[rule.name] = error
+        break
+      }
+    }
+  }
+
+  return errors
+}
+
+function validateValue(value: unknown, rule: FieldRule): string | null {
+  // Uploads are only checked for presence; the upload settings cover their size and type
+  if (value instanceof File || isFileReference(value)) {
+    return null
+  }
+  if (typeof value === "object") {
+    return "Must be a single value"
+  }
+
+  const text = String(value).trim()
+
+  if (rule.minLength !== null && text.length < rule.minLength) {
+    return `Must be at least ${rule.minLength} characters`
+  }
+  if (rule.maxLength !== null && text.length > rule.maxLength) {
+    return `Must be at most ${rule.maxLength} characters`
+  }
+
+  switch (rule.type) {
+    case "email":
+      if (!EMAIL_PATTERN.test(text)) return "Must be a valid email address"
+      break
+    case "number":
+      if (!Number.isFinite(Number(text))) return "Must be a number"
+      break
+    case "url":
+      if (!isHttpUrl(text)) return "Must be a valid URL"
+      break
+    case "date":
+      if (!DATE_PATTERN.test(text) || Number.isNaN(Date.parse(text))) return "Must be a date in YYYY-MM-DD format"
+      break
+    case "enum":
+      if (!rule.options?.includes(text)) return `Must be one of: ${rule.options?.join(", ")}`
+      break
+  }
+
+  // Anchored so the pattern has to describe the whole value, like the HTML pattern attribute
+  if (rule.pattern && !new RegExp(`^(?:${rule.pattern})$`).test(text)) {
+    return "Is not in the expected format"
+  }
+
+  return null
+}
+
+/**
+ * Reads a submitted field; `address.city` reaches into objects built from nested field names
+ */
+export function getField(data: Record<string, any>, name: string): unknown {
+  if (Object.hasOwn(data, name)) {
+    return data[name]
+  }
+  return name.split(".").reduce<any>(
+    (value, key) => (typeof value === "object" && value !== null && Object.hasOwn(value, key) ? value[key] : undefined),
+    data
+  )
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined) return true
+  if (value instanceof File) return value.size === 0 && !value.name
+  return typeof value === "string" && value.trim() === ""
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === "http:" || url.protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+function parseLength(value: unknown, name: string): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null
+  }
+  const length = Number(value)
+  if (!Number.isInteger(length) || length < 0) {
+    throw new Error(`Lengths for "${name}" must be whole numbers`)
+  }
+  return length
+}
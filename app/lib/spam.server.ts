@@ -0,0 +1,160 @@
+// Hidden field the signed render timestamp is posted in
+export const TIMESTAMP_FIELD = "_formzero_ts"
+
+// Tokens signed further in the future than this are rejected outright
+const CLOCK_SKEW_MS = 60 * 1000
+
+const LINK_PATTERN = /\bhttps?:\/\/|\bwww\./gi
+
+export type SpamSettings = {
+  spam_honeypot_field: string | null
+  spam_min_submit_seconds: number | null
+  spam_timestamp_secret: string | null
+  spam_blocklist: string | null
+  spam_max_links: number | null
+}
+
+export type SpamVerdict =
+  | { action: "drop" }
+  | { action: "accept"; data: Record<string, any>; spamReason: string | null }
+
+/**
+ * Loads the form's spam filters, or null when none are configured
+ */
+export async function getSpamSettings(db: D1Database, formId: string): Promise<SpamSettings | null> {
+  return db
+    .prepare(
+      "SELECT spam_honeypot_field, spam_min_submit_seconds, spam_timestamp_secret, spam_blocklist, spam_max_links FROM form_settings WHERE form_id = ?"
+    )
+    .bind(formId)
+    .first<SpamSettings>()
+}
+
+/**
+ * Runs the form's spam filters. A filled honeypot drops the submission; every other
+ * filter keeps it with a spam reason. Filter fields are stripped from the stored data.
+ */
+export async function checkSubmission(
+  data: Record<string, any>,
+  settings: SpamSettings | null,
+  now = Date.now()
+): Promise<SpamVerdict> {
+  const cleaned = { ...data }
+  const token = cleaned[TIMESTAMP_FIELD]
+  delete cleaned[TIMESTAMP_FIELD]
+
+  if (!settings) {
+    return { action: "accept", data: cleaned, spamReason: null }
+  }
+
+  if (settings.spam_honeypot_field) {
+    const honeypot = cleaned[settings.spam_honeypot_field]
+    delete cleaned[settings.spam_honeypot_field]
+    if (honeypot !== undefined && honeypot !== null && String(honeypot).trim() !== "") {
+      return { action: "drop" }
+    }
+  }
+
+  let spamReason: string | null = null
+
+  if (settings.spam_min_submit_seconds && settings.spam_timestamp_secret) {
+    const renderedAt = typeof token === "string"
+      ? await verifyTimestamp(settings.spam_timestamp_secret, token)
+      : null
+
+    if (renderedAt === null || renderedAt > now + CLOCK_SKEW_MS) {
+      spamReason = "Missing or invalid form timestamp"
+    } else if (now - renderedAt < settings.spam_min_submit_seconds * 1000) {
+      spamReason = `Submitted within ${settings.spam_min_submit_seconds}s of loading the form`
+    }
+  }
+
+  const text = collectText(cleaned).join("\n")
+
+  if (!spamReason && settings.spam_blocklist) {
+    const match = parseBlocklist(settings.spam_blocklist).find((rule) =>
+      rule instanceof RegExp ? rule.test(text) : text.toLowerCase().includes(rule)
+    )
+    if (match) {
+      spamReason = `Matched blocklist entry ${match instanceof RegExp ? match.toString() : `"${match}"`}`
+    }
+  }
+
+  if (!spamReason && settings.spam_max_links !== null) {
+    const links = text.match(LINK_PATTERN)?.length ?? 0
+    if (links > settings.spam_max_links) {
+      spamReason = `Contains ${links} links (limit ${settings.spam_max_links})`
+    }
+  }
+
+  return { action: "accept", data: cleaned, spamReason }
+}
+
+/**
+ * Parses a blocklist with one entry per line: plain text matches case-insensitively,
+ * `/pattern/flags` lines are regular expressions. Throws on an invalid expression.
+ */
+export function parseBlocklist(blocklist: string): (string | RegExp)[] {
+  return blocklist
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const regex = line.match(/^\/(.+)\/([a-z]*)$/)
+      if (!regex) return line.toLowerCase()
+      // A global flag would make test() stateful between calls
+      return new RegExp(regex[1], regex[2].replace("g", ""))
+    })
+}
+
+/**
+ * Generates the per-form key used to sign render timestamps
+ */
+export function generateTimestampSecret(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/**
+ * Signs a render timestamp as `<timestamp>.<hmac>` for the hidden timestamp field
+ */
+export async function signTimestamp(secret: string, timestamp = Date.now()): Promise<string> {
+  const key = await importKey(secret)
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(String(timestamp)))
+  return `${timestamp}.${toHex(new Uint8Array(signature))}`
+}
+
+/**
+ * Returns the timestamp from a signed token, or null when the signature doesn't match
+ */
+async function verifyTimestamp(secret: string, token: string): Promise<number | null> {
+  const match = token.match(/^(\d{1,16})\.([0-9a-f]{64})$/)
+  if (!match) return null
+
+  const key = await importKey(secret)
+  const signature = Uint8Array.from(match[2].match(/../g)!, (byte) => parseInt(byte, 16))
+  const valid = await crypto.subtle.verify("HMAC", key, signature, new TextEncoder().encode(match[1]))
+
+  return valid ? Number(match[1]) : null
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  )
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+function collectText(value: unknown): string[] {
+  if (value === null || value === undefined) return []
+  if (typeof value === "object") {
+    return Object.values(value).flatMap(collectText)
+  }
+  return [String(value)]
+}
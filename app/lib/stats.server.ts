@@ -0,0 +1,217 @@
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export const CHART_RANGES = [7, 30, 90, 365] as const
+export const CHART_BUCKETS = ["hour", "day", "week", "month"] as const
+
+export type ChartRange = (typeof CHART_RANGES)[number]
+export type ChartBucket = (typeof CHART_BUCKETS)[number]
+
+export type ChartParams = {
+  range: ChartRange
+  bucket: ChartBucket
+  // Minutes east of UTC used for bucket boundaries, e.g. 120 for UTC+2
+  tzOffset: number
+}
+
+export type SubmissionStats = {
+  total: number
+  thisWeek: number
+  thisMonth: number
+  weekTrend: number
+  monthTrend: number
+}
+
+export type ChartPoint = {
+  date: string
+  count: number
+}
+
+// Hourly buckets are only offered for short ranges to keep the chart readable
+const MAX_HOURLY_RANGE = 7
+
+// SQL expressions producing a bucket key; the single parameter is the timezone offset in ms
+const BUCKET_SQL: Record<ChartBucket, string> = {
+  hour: "strftime('%Y-%m-%dT%H', (created_at + ?) / 1000, 'unixepoch')",
+  day: "strftime('%Y-%m-%d', (created_at + ?) / 1000, 'unixepoch')",
+  week: "date((created_at + ?) / 1000, 'unixepoch', '-6 days', 'weekday 1')",
+  month: "strftime('%Y-%m', (created_at + ?) / 1000, 'unixepoch')",
+}
+
+/**
+ * Reads chart range and bucket from search params and the timezone offset from the `tz_offset` cookie
+ */
+export function parseChartParams(request: Request): ChartParams {
+  const url = new URL(request.url)
+  const range = parseInt(url.searchParams.get("range") || "", 10) as ChartRange
+  const bucket = url.searchParams.get("bucket") as ChartBucket
+
+  const cookie = request.headers.get("cookie") || ""
+  const tzMatch = cookie.match(/(?:^|;\s*)tz_offset=(-?\d+)/)
+  const tzOffset = tzMatch ? parseInt(tzMatch[1], 10) : 0
+
+  const validRange = CHART_RANGES.includes(range) ? range : 30
+  const validBucket = CHART_BUCKETS.includes(bucket) ? bucket : "day"
+
+  return {
+    range: validRange,
+    bucket: validBucket === "hour" && validRange > MAX_HOURLY_RANGE ? "day" : validBucket,
+    // Real offsets are within ±14 hours
+    tzOffset: Math.abs(tzOffset) <= 14 * 60 ? tzOffset : 0,
+  }
+}
+
+/**
+ * Counts total, weekly and monthly submissions (plus the previous periods for trends) in one query
+ */
+export async function getSubmissionStats(
+  db: D1Database,
+  formId: string,
+  now = Date.now()
+): Promise<SubmissionStats> {
+  const oneWeekAgo = now - 7 * DAY_MS
+  const twoWeeksAgo = now - 14 * DAY_MS
+  const oneMonthAgo = now - 30 * DAY_MS
+  const twoMonthsAgo = now - 60 * DAY_MS
+
+  const counts = await db
+    .prepare(`
+      SELECT
+        COUNT(*) AS total,
+        COUNT(CASE WHEN created_at >= ? THEN 1 END) AS this_week,
+        COUNT(CASE WHEN created_at >= ? AND created_at < ? THEN 1 END) AS previous_week,
+        COUNT(CASE WHEN created_at >= ? THEN 1 END) AS this_month,
+        COUNT(CASE WHEN created_at >= ? AND created_at < ? THEN 1 END) AS previous_month
+      FROM submissions
+      WHERE form_id = ? AND deleted_at IS NULL AND spam_reason IS NULL
+    `)
+    .bind(oneWeekAgo, twoWeeksAgo, oneWeekAgo, oneMonthAgo, twoMonthsAgo, oneMonthAgo, formId)
+    .first<{
+      total: number
+      this_week: number
+      previous_week: number
+      this_month: number
+      previous_month: number
+    }>()
+
+  const total = counts?.total ?? 0
+  const thisWeek = counts?.this_week ?? 0
+  const previousWeek = counts?.previous_week ?? 0
+  const thisMonth = counts?.this_month ?? 0
+  const previousMonth = counts?.previous_month ?? 0
+
+  return {
+    total,
+    thisWeek,
+    thisMonth,
+    weekTrend: calculateTrend(thisWeek, previousWeek),
+    monthTrend: calculateTrend(thisMonth, previousMonth),
+  }
+}
+
+/**
+ * Groups submissions into hour/day/week/month buckets in the viewer's timezone,
+ * filling buckets without submissions with zero
+ */
+export async function getSubmissionChart(
+  db: D1Database,
+  formId: string,
+  params: ChartParams,
+  now = Date.now()
+): Promise<ChartPoint[]> {
+  const offsetMs = params.tzOffset * 60 * 1000
+
+  // Work in "shifted" time where UTC getters return the viewer's local wall clock
+  const shiftedNow = now + offsetMs
+  const firstDay = startOfDay(shiftedNow) - (params.range - 1) * DAY_MS
+  const shiftedStart = startOfBucket(firstDay, params.bucket)
+
+  const result = await db
+    .prepare(`
+      SELECT ${BUCKET_SQL[params.bucket]} AS bucket, COUNT(*) AS count
+      FROM submissions
+      WHERE form_id = ? AND deleted_at IS NULL AND spam_reason IS NULL AND created_at >= ?
+      GROUP BY bucket
+    `)
+    .bind(offsetMs, formId, shiftedStart - offsetMs)
+    .all<{ bucket: string; count: number }>()
+
+  const counts = new Map(result.results.map((row) => [row.bucket, row.count]))
+
+  const points: ChartPoint[] = []
+  for (let t = shiftedStart; t <= shiftedNow; t = nextBucket(t, params.bucket)) {
+    points.push({
+      date: formatBucketLabel(t, params.bucket),
+      count: counts.get(formatBucketKey(t, params.bucket)) ?? 0,
+    })
+  }
+
+  return points
+}
+
+function calculateTrend(current: number, previous: number): number {
+  if (previous === 0) {
+    return current > 0 ? 100 : 0
+  }
+  return Math.round(((current - previous) / previous) * 100)
+}
+
+function startOfDay(t: number): number {
+  return Math.floor(t / DAY_MS) * DAY_MS
+}
+
+function startOfBucket(t: number, bucket: ChartBucket): number {
+  const date = new Date(t)
+  switch (bucket) {
+    case "hour":
+      return Math.floor(t / HOUR_MS) * HOUR_MS
+    case "day":
+      return startOfDay(t)
+    case "week":
+      // getUTCDay() is 0 for Sunday; weeks start on Monday
+      return startOfDay(t) - ((date.getUTCDay() + 6) % 7) * DAY_MS
+    case "month":
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+  }
+}
+
+function nextBucket(t: number, bucket: ChartBucket): number {
+  const date = new Date(t)
+  switch (bucket) {
+    case "hour":
+      return t + HOUR_MS
+    case "day":
+      return t + DAY_MS
+    case "week":
+      return t + 7 * DAY_MS
+    case "month":
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+  }
+}
+
+// Must match the keys produced by BUCKET_SQL
+function formatBucketKey(t: number, bucket: ChartBucket): string {
+  const iso = new Date(t).toISOString()
+  switch (bucket) {
+    case "hour":
+      return iso.slice(0, 13)
+    case "day":
+    case "week":
+      return iso.slice(0, 10)
+    case "month":
+      return iso.slice(0, 7)
+  }
+}
+
+function formatBucketLabel(t: number, bucket: ChartBucket): string {
+  const date = new Date(t)
+  switch (bucket) {
+    case "hour":
+      return date.toLocaleString("en-US", { timeZone: "UTC", month: "short", day: "numeric", hour: "numeric" })
+    case "day":
+    case "week":
+      return date.toLocaleDateString("en-US", { timeZone: "UTC", month: "short", day: "numeric" })
+    case "month":
+      return date.toLocaleDateString("en-US", { timeZone: "UTC", month: "short", year: "numeric" })
+  }
+}
@@ -0,0 +1,478 @@
+import type { Submission, SubmissionMetadata } from "#/types/submission"
+import { METADATA_FIELDS } from "./metadata"
+import type { MetadataField } from "./metadata"
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 100
+
+// Days a deleted submission can be restored before the scheduled job purges it
+export const TRASH_RETENTION_DAYS = 30
+
+export const SUBMISSION_VIEWS = ["inbox", "spam", "trash"] as const
+
+export type SubmissionView = (typeof SUBMISSION_VIEWS)[number]
+
+export type SubmissionListParams = {
+  view: SubmissionView
+  q: string
+  // Exact matches on metadata columns, e.g. ?country=DE&utm_source=newsletter
+  filters: Partial<Record<MetadataField, string>>
+  sort: string
+  desc: boolean
+  after: string | null
+  before: string | null
+  limit: number
+}
+
+export type SubmissionPage = {
+  submissions: Submission[]
+  total: number
+  nextCursor: string | null
+  prevCursor: string | null
+}
+
+type Cursor = [value: string | number, id: string]
+
+const SUBMISSION_COLUMNS = [
+  "id",
+  "form_id",
+  "data",
+  "created_at",
+  "deleted_at",
+  "spam_reason",
+  ...METADATA_FIELDS.map((field) => field.key),
+].join(", ")
+
+/**
+ * Reads list parameters (search, sort, cursor, page size) from URL search params
+ */
+export function parseSubmissionListParams(searchParams: URLSearchParams): SubmissionListParams {
+  const sort = searchParams.get("sort") || "created_at"
+  const limit = parseInt(searchParams.get("limit") || "", 10)
+  const view = searchParams.get("view") as SubmissionView
+
+  const filters: SubmissionListParams["filters"] = {}
+  for (const { key } of METADATA_FIELDS) {
+    const value = searchParams.get(key)
+    if (value) filters[key] = value
+  }
+
+  return {
+    view: SUBMISSION_VIEWS.includes(view) ? view : "inbox",
+    q: searchParams.get("q")?.trim() || "",
+    filters,
+    sort: sort === "created_at" || getDataFieldPath(sort) ? sort : "created_at",
+    desc: searchParams.get("dir") !== "asc",
+    after: searchParams.get("after"),
+    before: searchParams.get("before"),
+    limit: limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+  }
+}
+
+/**
+ * Fetches one page of submissions using keyset pagination on (sort value, id)
+ */
+export async function listSubmissions(
+  db: D1Database,
+  formId: string,
+  params: SubmissionListParams
+): Promise<SubmissionPage> {
+  const [rows, total] = await Promise.all([
+    querySubmissionRows(db, formId, params),
+    countSubmissions(db, formId, params),
+  ])
+
+  const backwards = !params.after && !!params.before
+  const hasMore = rows.length > params.limit
+  const pageRows = rows.slice(0, params.limit)
+  if (backwards) {
+    pageRows.reverse()
+  }
+
+  const first = pageRows[0]
+  const last = pageRows[pageRows.length - 1]
+
+  // Going forward, a previous page exists whenever we started from a cursor;
+  // going backwards, a next page always exists (the one we came from)
+  const hasNext = backwards ? !!params.before : hasMore
+  const hasPrev = backwards ? hasMore : !!params.after
+
+  return {
+    submissions: pageRows.map(parseSubmissionRow),
+    total,
+    nextCursor: hasNext && last ? encodeCursor([last.sort_value, last.id]) : null,
+    prevCursor: hasPrev && first ? encodeCursor([first.sort_value, first.id]) : null,
+  }
+}
+
+/**
+ * Iterates over every submission matching the params in batches, for exports
+ */
+export async function* iterateSubmissions(
+  db: D1Database,
+  formId: string,
+  params: SubmissionListParams,
+  batchSize = 500
+): AsyncGenerator<Submission> {
+  let after: string | null = null
+
+  while (true) {
+    const rows = await querySubmissionRows(db, formId, {
+      ...params,
+      after,
+      before: null,
+      limit: batchSize,
+    })
+
+    for (const row of rows.slice(0, batchSize)) {
+      yield parseSubmissionRow(row)
+    }
+
+    if (rows.length <= batchSize) {
+      return
+    }
+
+    const last = rows[batchSize - 1]
+    after = encodeCursor([last.sort_value, last.id])
+  }
+}
+
+/**
+ * Fetches a single submission belonging to the form
+ */
+export async function getSubmission(
+  db: D1Database,
+  formId: string,
+  submissionId: string
+): Promise<Submission | null> {
+  const row = await db
+    .prepare(`SELECT ${SUBMISSION_COLUMNS}, created_at AS sort_value FROM submissions WHERE id = ? AND form_id = ?`)
+    .bind(submissionId, formId)
+    .first<SubmissionRow>()
+
+  return row ? parseSubmissionRow(row) : null
+}
+
+/**
+ * Fetches the form's most recent inbox submission, e.g. to preview templates with
+ */
+export async function getLatestSubmission(db: D1Database, formId: string): Promise<Submission | null> {
+  const row = await db
+    .prepare(`
+      SELECT ${SUBMISSION_COLUMNS}, created_at AS sort_value FROM submissions
+      WHERE form_id = ? AND deleted_at IS NULL AND spam_reason IS NULL
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `)
+    .bind(formId)
+    .first<SubmissionRow>()
+
+  return row ? parseSubmissionRow(row) : null
+}
+
+/**
+ * Finds the ids of the submissions before and after the given one in list order
+ */
+export async function getAdjacentSubmissionIds(
+  db: D1Database,
+  formId: string,
+  submissionId: string,
+  params: SubmissionListParams
+): Promise<{ prevId: string | null; nextId: string | null }> {
+  const path = getDataFieldPath(params.sort)
+  const current = await db
+    .prepare(`SELECT ${path ? "COALESCE(json_extract(data, ?), '')" : "created_at"} AS sort_value FROM submissions WHERE id = ? AND form_id = ?`)
+    .bind(...(path ? [path] : []), submissionId, formId)
+    .first<{ sort_value: string | number }>()
+
+  if (!current) {
+    return { prevId: null, nextId: null }
+  }
+
+  const cursor = encodeCursor([current.sort_value, submissionId])
+  const [prev, next] = await Promise.all([
+    querySubmissionRows(db, formId, { ...params, after: null, before: cursor, limit: 1 }),
+    querySubmissionRows(db, formId, { ...params, after: cursor, before: null, limit: 1 }),
+  ])
+
+  return {
+    prevId: prev[0]?.id ?? null,
+    nextId: next[0]?.id ?? null,
+  }
+}
+
+/**
+ * Lists every top-level field name used by the form's submissions in a view.
+ * This scans them all; the inbox has the field catalog instead.
+ */
+export async function listSubmissionFields(db: D1Database, formId: string, view: SubmissionView): Promise<string[]> {
+  const result = await db
+    .prepare(`
+      SELECT DISTINCT json_each.key AS key FROM submissions, json_each(submissions.data)
+      WHERE submissions.form_id = ? AND ${VIEW_CLAUSES[view]}
+      ORDER BY key
+    `)
+    .bind(formId)
+    .all<{ key: string }>()
+
+  return result.results.map((row) => row.key)
+}
+
+/**
+ * Whether any of the form's submissions has captured metadata, so exports know
+ * to include those columns
+ */
+export async function hasSubmissionMetadata(db: D1Database, formId: string): Promise<boolean> {
+  const conditions = METADATA_FIELDS.map(({ key }) => `${key} IS NOT NULL`).join(" OR ")
+  const row = await db
+    .prepare(`SELECT 1 FROM submissions WHERE form_id = ? AND (${conditions}) LIMIT 1`)
+    .bind(formId)
+    .first()
+
+  return row !== null
+}
+
+/**
+ * Moves submissions to the trash, where they can be restored until purged
+ */
+export async function trashSubmissions(
+  db: D1Database,
+  formId: string,
+  ids: string[],
+  now = Date.now()
+): Promise<number> {
+  // Ids are passed as one JSON array to stay under D1's bound parameter limit
+  const result = await db
+    .prepare("UPDATE submissions SET deleted_at = ? WHERE form_id = ? AND deleted_at IS NULL AND id IN (SELECT value FROM json_each(?))")
+    .bind(now, formId, JSON.stringify(ids))
+    .run()
+
+  return result.meta.changes
+}
+
+/**
+ * Moves submissions out of the trash
+ */
+export async function restoreSubmissions(db: D1Database, formId: string, ids: string[]): Promise<number> {
+  const result = await db
+    .prepare("UPDATE submissions SET deleted_at = NULL WHERE form_id = ? AND deleted_at IS NOT NULL AND id IN (SELECT value FROM json_each(?))")
+    .bind(formId, JSON.stringify(ids))
+    .run()
+
+  return result.meta.changes
+}
+
+/**
+ * Flags submissions as spam, moving them out of the inbox
+ */
+export async function markSubmissionsAsSpam(
+  db: D1Database,
+  formId: string,
+  ids: string[],
+  reason = "Marked as spam"
+): Promise<number> {
+  const result = await db
+    .prepare("UPDATE submissions SET spam_reason = ? WHERE form_id = ? AND spam_reason IS NULL AND id IN (SELECT value FROM json_each(?))")
+    .bind(reason, formId, JSON.stringify(ids))
+    .run()
+
+  return result.meta.changes
+}
+
+/**
+ * Clears the spam flag, moving submissions back to the inbox
+ */
+export async function markSubmissionsAsNotSpam(db: D1Database, formId: string, ids: string[]): Promise<number> {
+  const result = await db
+    .prepare("UPDATE submissions SET spam_reason = NULL WHERE form_id = ? AND spam_reason IS NOT NULL AND id IN (SELECT value FROM json_each(?))")
+    .bind(formId, JSON.stringify(ids))
+    .run()
+
+  return result.meta.changes
+}
+
+/**
+ * Permanently deletes trashed submissions; pass no ids to empty the whole trash
+ */
+export async function purgeSubmissions(db: D1Database, formId: string, ids?: string[]): Promise<number> {
+  const result = ids
+    ? await db
+        .prepare("DELETE FROM submissions WHERE form_id = ? AND deleted_at IS NOT NULL AND id IN (SELECT value FROM json_each(?))")
+        .bind(formId, JSON.stringify(ids))
+        .run()
+    : await db
+        .prepare("DELETE FROM submissions WHERE form_id = ? AND deleted_at IS NOT NULL")
+        .bind(formId)
+        .run()
+
+  return result.meta.changes
+}
+
+/**
+ * Permanently deletes submissions that have been in the trash longer than the retention window
+ */
+export async function purgeExpiredSubmissions(db: D1Database, now = Date.now()): Promise<number> {
+  const cutoff = now - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  const result = await db
+    .prepare("DELETE FROM submissions WHERE deleted_at IS NOT NULL AND deleted_at < ?")
+    .bind(cutoff)
+    .run()
+
+  return result.meta.changes
+}
+
+type SubmissionRow = SubmissionMetadata & {
+  id: string
+  form_id: string
+  data: string
+  created_at: number
+  deleted_at: number | null
+  spam_reason: string | null
+  sort_value: string | number
+}
+
+async function querySubmissionRows(
+  db: D1Database,
+  formId: string,
+  params: SubmissionListParams
+): Promise<SubmissionRow[]> {
+  const path = getDataFieldPath(params.sort)
+  // Missing fields sort as empty strings so keyset comparisons never hit NULL
+  const sortExpr = path ? "COALESCE(json_extract(data, ?), '')" : "created_at"
+  const sortBindings = path ? [path] : []
+
+  const filter = buildFilterClause(params)
+  const sql: string[] = [`SELECT ${SUBMISSION_COLUMNS}, ${sortExpr} AS sort_value FROM submissions WHERE form_id = ? AND ${filter.clause}`]
+  const bindings: unknown[] = [...sortBindings, formId, ...filter.bindings]
+
+  // Walking backwards flips both the comparison and the order; the caller
+  // reverses the rows again to restore display order
+  const backwards = !params.after && !!params.before
+  const cursor = decodeCursor(params.after || params.before)
+  const desc = backwards ? !params.desc : params.desc
+
+  if (cursor) {
+    const op = desc ? "<" : ">"
+    sql.push(`AND (${sortExpr} ${op} ? OR (${sortExpr} = ? AND id ${op} ?))`)
+    bindings.push(...sortBindings, cursor[0], ...sortBindings, cursor[0], cursor[1])
+  }
+
+  const dir = desc ? "DESC" : "ASC"
+  sql.push(`ORDER BY sort_value ${dir}, id ${dir} LIMIT ?`)
+  bindings.push(params.limit + 1)
+
+  const result = await db
+    .prepare(sql.join(" "))
+    .bind(...bindings)
+    .all<SubmissionRow>()
+
+  return result.results
+}
+
+/**
+ * Counts submissions in a view, optionally narrowed by a search query and filters
+ */
+export async function countSubmissions(
+  db: D1Database,
+  formId: string,
+  params: FilterParams
+): Promise<number> {
+  const filter = buildFilterClause(params)
+  const result = await db
+    .prepare(`SELECT COUNT(*) AS count FROM submissions WHERE form_id = ? AND ${filter.clause}`)
+    .bind(formId, ...filter.bindings)
+    .first<{ count: number }>()
+
+  return result?.count ?? 0
+}
+
+// Trash holds every deleted submission, spam or not
+const VIEW_CLAUSES: Record<SubmissionView, string> = {
+  inbox: "deleted_at IS NULL AND spam_reason IS NULL",
+  spam: "deleted_at IS NULL AND spam_reason IS NOT NULL",
+  trash: "deleted_at IS NOT NULL",
+}
+
+type FilterParams = Pick<SubmissionListParams, "view" | "q"> & Partial<Pick<SubmissionListParams, "filters">>
+
+/**
+ * Restricts rows to the requested view and metadata filters and, when searching,
+ * matches the query against every scalar value in the submission, including nested ones
+ */
+function buildFilterClause(params: FilterParams): { clause: string; bindings: unknown[] } {
+  const clauses = [VIEW_CLAUSES[params.view]]
+  const bindings: unknown[] = []
+
+  // Keys come from METADATA_FIELDS, never from the request, so they're safe to interpolate
+  for (const { key } of METADATA_FIELDS) {
+    const value = params.filters?.[key]
+    if (value) {
+      clauses.push(`${key} = ?`)
+      bindings.push(value)
+    }
+  }
+
+  if (params.q) {
+    clauses.push("EXISTS (SELECT 1 FROM json_tree(submissions.data) WHERE json_tree.atom LIKE ? ESCAPE '\\')")
+    bindings.push(`%${params.q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`)
+  }
+
+  return { clause: clauses.join(" AND "), bindings }
+}
+
+/**
+ * Maps a `data.<field>` sort key to a JSON path, or null for anything else
+ */
+function getDataFieldPath(sort: string): string | null {
+  if (!sort.startsWith("data.")) return null
+
+  const field = sort.slice("data.".length)
+  if (!field || field.includes('"')) return null
+
+  return `$."${field}"`
+}
+
+function parseSubmissionRow(row: SubmissionRow): Submission {
+  return {
+    id: row.id,
+    form_id: row.form_id,
+    data: JSON.parse(row.data),
+    created_at: row.created_at,
+    deleted_at: row.deleted_at,
+    spam_reason: row.spam_reason,
+    metadata: Object.fromEntries(
+      METADATA_FIELDS.map(({ key }) => [key, row[key]])
+    ) as SubmissionMetadata,
+  }
+}
+
+function encodeCursor(cursor: Cursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor))
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+}
+
+function decodeCursor(value: string | null): Cursor | null {
+  if (!value) return null
+
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0))
+    const cursor = JSON.parse(new TextDecoder().decode(bytes))
+
+    if (
+      Array.isArray(cursor) &&
+      cursor.length === 2 &&
+      (typeof cursor[0] === "string" || typeof cursor[0] === "number") &&
+      typeof cursor[1] === "string"
+    ) {
+      return cursor as Cursor
+    }
+  } catch {
+    // Malformed cursors fall through to the first page
+  }
+
+  return null
+}
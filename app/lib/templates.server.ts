@@ -0,0 +1,275 @@
+import type { SubmissionEmailData } from "#/types/submission"
+import { buildSubmissionEmail, escapeHtml, formatFieldName, formatValueText, orderEntries } from "./email.server"
+import type { EmailMessage } from "./email.server"
+
+// Keeps stored templates, and what they can expand to, to a sensible size
+export const MAX_TEMPLATE_LENGTH = 50000
+const MAX_DEPTH = 10
+const MAX_OUTPUT_LENGTH = 1_000_000
+
+const DATE_STYLES = ["full", "long", "medium", "short"] as const
+
+/**
+ * A parsed template. Tags are:
+ *
+ *   {{ path }}                    a value, e.g. `email`, `address.city` or `form.name`
+ *   {{ path | filter:"arg" }}     piped through date, upper, lower or default
+ *   {{#if path}} … {{else}} … {{/if}}
+ *   {{#each path as item}} … {{/each}}
+ *
+ * Paths are looked up, never evaluated, so a template can only read the values it's given.
+ */
+type Node =
+  | { type: "text"; text: string }
+  | { type: "value"; path: string[]; filters: Filter[] }
+  | { type: "if"; path: string[]; then: Node[]; else: Node[] }
+  | { type: "each"; path: string[]; name: string; body: Node[] }
+
+type Filter = { name: string; arg: string | null }
+
+type Block = { node: Extract<Node, { type: "if" | "each" }>; target: Node[] }
+
+const FILTERS = ["date", "upper", "lower", "default"]
+
+export type NotificationTemplates = {
+  notification_subject_template: string | null
+  notification_html_template: string | null
+  notification_text_template: string | null
+}
+
+/**
+ * Loads the form's notification email templates, or null when no settings exist
+ */
+export async function getNotificationTemplates(db: D1Database, formId: string): Promise<NotificationTemplates | null> {
+  return db
+    .prepare("SELECT notification_subject_template, notification_html_template, notification_text_template FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<NotificationTemplates>()
+}
+
+/**
+ * Renders the notification email from the form's templates. Parts without a
+ * template, or whose template fails to render, use the built-in email.
+ */
+export function renderSubmissionEmail(submission: SubmissionEmailData, templates: NotificationTemplates | null): EmailMessage {
+  const message = buildSubmissionEmail(submission)
+  const context = createTemplateContext(submission)
+
+  const render = (template: string | null | undefined, fallback: string, html = false) => {
+    if (!template) return fallback
+    try {
+      return renderTemplate(template, context, { html })
+    } catch (error) {
+      // Templates are checked when saved, so this means the column was edited by hand
+      console.error("Ignoring invalid notification template:", error)
+      return fallback
+    }
+  }
+
+  return {
+    // Submitted values could carry line breaks, which don't belong in a subject
+    subject: render(templates?.notification_subject_template, message.subject).replace(/[\r\n]+/g, " ").trim() || message.subject,
+    text: render(templates?.notification_text_template, message.text),
+    html: render(templates?.notification_html_template, message.html, true),
+  }
+}
+
+/**
+ * What templates can read: the submitted fields by name, plus `form`, `submission`
+ * and `fields`, a list of `{ name, label, value }` in catalog order
+ */
+export type TemplateContext = Record<string, unknown>
+
+/**
+ * Builds the values a template renders against from a submission
+ */
+export function createTemplateContext(submission: SubmissionEmailData): TemplateContext {
+  return {
+    ...submission.data,
+    form: { id: submission.formId, name: submission.formName },
+    submission: { id: submission.id, created_at: submission.createdAt },
+    fields: orderEntries(submission.data, submission.fields).map(([name, value]) => ({
+      name,
+      label: formatFieldName(name),
+      value,
+    })),
+    attachments: submission.attachments,
+  }
+}
+
+/**
+ * Parses a template, throwing with a message that points at the offending tag
+ */
+export function parseTemplate(source: string): Node[] {
+  if (source.length > MAX_TEMPLATE_LENGTH) {
+    throw new Error(`Templates can be at most ${MAX_TEMPLATE_LENGTH} characters`)
+  }
+
+  const root: Node[] = []
+  const stack: Block[] = []
+  let target = root
+  let last = 0
+
+  for (const match of source.matchAll(/\{\{(.*?)\}\}/gs)) {
+    if (match.index > last) {
+      target.push({ type: "text", text: source.slice(last, match.index) })
+    }
+    last = match.index + match[0].length
+
+    const tag = match[1].trim()
+    const block = stack[stack.length - 1]
+
+    if (tag.startsWith("#if ")) {
+      const node: Node = { type: "if", path: parsePath(tag.slice(4)), then: [], else: [] }
+      target.push(node)
+      stack.push({ node, target })
+      target = node.then
+    } else if (tag.startsWith("#each ")) {
+      const each = tag.slice(6).match(/^(\S+)\s+as\s+([A-Za-z_]\w*)$/)
+      if (!each) {
+        throw new Error(`Write loops as {{#each list as item}}, not {{${tag}}}`)
+      }
+      const node: Node = { type: "each", path: parsePath(each[1]), name: each[2], body: [] }
+      target.push(node)
+      stack.push({ node, target })
+      target = node.body
+    } else if (tag === "else") {
+      if (block?.node.type !== "if") {
+        throw new Error("{{else}} must be inside an {{#if}}")
+      }
+      if (target === block.node.else) {
+        throw new Error("An {{#if}} can only have one {{else}}")
+      }
+      target = block.node.else
+    } else if (tag === "/if" || tag === "/each") {
+      if (block?.node.type !== tag.slice(1)) {
+        throw new Error(`{{${tag}}} doesn't close an open {{#${tag.slice(1)}}}`)
+      }
+      stack.pop()
+      target = block.target
+    } else if (tag.startsWith("#") || tag.startsWith("/")) {
+      throw new Error(`Unknown tag {{${tag}}}`)
+    } else {
+      const [path, ...filters] = tag.split("|")
+      target.push({ type: "value", path: parsePath(path), filters: filters.map(parseFilter) })
+    }
+
+    if (stack.length > MAX_DEPTH) {
+      throw new Error(`Blocks can be nested at most ${MAX_DEPTH} deep`)
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`{{#${stack[stack.length - 1].node.type}}} is never closed`)
+  }
+
+  if (last < source.length) {
+    target.push({ type: "text", text: source.slice(last) })
+  }
+
+  return root
+}
+
+/**
+ * Renders a template. With `html`, every value goes through escapeHtml, so
+ * submitted text can never add markup of its own.
+ */
+export function renderTemplate(source: string, context: TemplateContext, options: { html?: boolean } = {}): string {
+  const output = renderNodes(parseTemplate(source), [context], options.html ?? false)
+  return output.length > MAX_OUTPUT_LENGTH ? output.slice(0, MAX_OUTPUT_LENGTH) : output
+}
+
+function renderNodes(nodes: Node[], scopes: Record<string, unknown>[], html: boolean): string {
+  let output = ""
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.text
+        break
+      case "value": {
+        const text = node.filters.reduce(applyFilter, formatValue(lookup(scopes, node.path)))
+        output += html ? escapeHtml(text) : text
+        break
+      }
+      case "if":
+        output += renderNodes(isTruthy(lookup(scopes, node.path)) ? node.then : node.else, scopes, html)
+        break
+      case "each": {
+        const list = lookup(scopes, node.path)
+        for (const item of Array.isArray(list) ? list : []) {
+          output += renderNodes(node.body, [{ [node.name]: item }, ...scopes], html)
+          if (output.length > MAX_OUTPUT_LENGTH) return output
+        }
+        break
+      }
+    }
+  }
+
+  return output
+}
+
+// The innermost scope that has the first key wins, so loop variables shadow fields
+function lookup(scopes: Record<string, unknown>[], path: string[]): unknown {
+  const scope = scopes.find((candidate) => Object.hasOwn(candidate, path[0]))
+  if (!scope) return undefined
+
+  return path.reduce<unknown>(
+    (value, key) => (typeof value === "object" && value !== null && Object.hasOwn(value, key) ? (value as any)[key] : undefined),
+    scope
+  )
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (Array.isArray(value)) return value.map((item) => formatValueText(item).trim()).join(", ")
+  return formatValueText(value).trim()
+}
+
+function applyFilter(text: string, filter: Filter): string {
+  switch (filter.name) {
+    case "upper":
+      return text.toUpperCase()
+    case "lower":
+      return text.toLowerCase()
+    case "default":
+      return text === "" ? filter.arg ?? "" : text
+    case "date":
+      return formatDate(text, filter.arg)
+    default:
+      return text
+  }
+}
+
+// Timestamps and date strings alike; anything else is left as it was
+function formatDate(text: string, style: string | null): string {
+  const date = new Date(/^\d+$/.test(text) ? Number(text) : text)
+  if (text === "" || Number.isNaN(date.getTime())) return text
+
+  if (style === "iso") return date.toISOString()
+
+  const dateStyle = DATE_STYLES.find((candidate) => candidate === style) ?? "long"
+  return date.toLocaleString("en-US", { dateStyle, timeStyle: "short", timeZone: "UTC" }) + " UTC"
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === "string") return value.trim() !== ""
+  return value !== null && value !== undefined && value !== false
+}
+
+function parsePath(value: string): string[] {
+  const path = value.trim()
+  if (!/^[^\s.|{}]+(\.[^\s.|{}]+)*$/.test(path)) {
+    throw new Error(`"${path}" is not a field name`)
+  }
+  return path.split(".")
+}
+
+function parseFilter(value: string): Filter {
+  const match = value.trim().match(/^(\w+)(?::"([^"]*)")?$/)
+  if (!match || !FILTERS.includes(match[1])) {
+    throw new Error(`Unknown filter "${value.trim()}"; use ${FILTERS.join(", ")}`)
+  }
+  return { name: match[1], arg: match[2] ?? null }
+}
@@ -0,0 +1,31 @@
+/// <reference types="node" />
+import { readdirSync, readFileSync } from "node:fs"
+import { Miniflare } from "miniflare"
+
+const MIGRATIONS_DIR = new URL("../../migrations/", import.meta.url)
+
+/**
+ * Local D1 and R2 from Miniflare for tests, with the migrations applied. Each
+ * call starts from empty storage; dispose it when done.
+ */
+export async function createTestEnv() {
+  const mf = new Miniflare({
+    modules: true,
+    script: "export default {}",
+    d1Databases: ["DB"],
+    r2Buckets: ["UPLOADS"],
+  })
+
+  const DB = (await mf.getD1Database("DB")) as unknown as D1Database
+  const UPLOADS = (await mf.getR2Bucket("UPLOADS")) as unknown as R2Bucket
+
+  for (const file of readdirSync(MIGRATIONS_DIR).filter((name) => name.endsWith(".sql")).sort()) {
+    const sql = readFileSync(new URL(file, MIGRATIONS_DIR), "utf8").replace(/--.*$/gm, "")
+    const statements = sql.split(/;\s*$/m).map((statement) => statement.trim()).filter(Boolean)
+    if (statements.length > 0) {
+      await DB.batch(statements.map((statement) => DB.prepare(statement)))
+    }
+  }
+
+  return { DB, UPLOADS, dispose: () => mf.dispose() }
+}
@@ -0,0 +1,139 @@
+/// <reference types="node" />
+import assert from "node:assert/strict"
+import { after, before, describe, test } from "node:test"
+import type { FileReference } from "./files"
+import { createTestEnv } from "./test-env.server"
+import { collectFiles, purgeOrphanedFiles, replaceFiles, storeFiles, validateFiles } from "./uploads.server"
+
+const MB = 1024 * 1024
+
+let env: Awaited<ReturnType<typeof createTestEnv>>
+
+before(async () => {
+  env = await createTestEnv()
+  await env.DB.prepare("INSERT INTO forms (id, name, created_at, updated_at) VALUES ('form', 'Apply', 0, 0)").run()
+})
+
+after(async () => {
+  await env.dispose()
+})
+
+describe("collectFiles", () => {
+  test("finds files at any depth and skips empty inputs", () => {
+    const cv = new File(["cv"], "cv.pdf")
+    const photo = new File(["photo"], "photo.png")
+    const empty = new File([], "")
+
+    assert.deepEqual(collectFiles({ cv, extra: empty, gallery: [photo], name: "Ada" }), [
+      { field: "cv", file: cv },
+      { field: "gallery[0]", file: photo },
+    ])
+  })
+})
+
+describe("validateFiles", () => {
+  const files = (...sizes: number[]) =>
+    sizes.map((size, i) => ({ field: `file${i}`, file: new File([new Uint8Array(size)], `file${i}.png`, { type: "image/png" }) }))
+
+  test("accepts files within the limits", () => {
+    assert.equal(validateFiles(files(10, 20), { upload_max_files: 2, upload_max_file_size: 20, upload_allowed_types: "image/*" }), null)
+  })
+
+  test("rejects too many files", () => {
+    assert.deepEqual(validateFiles(files(1, 1, 1), { upload_max_files: 2, upload_max_file_size: null, upload_allowed_types: null }), {
+      error: "too_many_files",
+      message: "At most 2 file(s) can be uploaded",
+    })
+  })
+
+  test("rejects files over the size limit", () => {
+    assert.deepEqual(validateFiles(files(MB + 1), { upload_max_files: null, upload_max_file_size: MB, upload_allowed_types: null }), {
+      error: "file_too_large",
+      message: '"file0.png" is larger than the 1 MB limit',
+    })
+  })
+
+  test("rejects types that aren't allowed", () => {
+    assert.deepEqual(validateFiles(files(1), { upload_max_files: null, upload_max_file_size: null, upload_allowed_types: "application/pdf, text/*" }), {
+      error: "file_type_not_allowed",
+      message: '"file0.png" is not an allowed file type',
+    })
+  })
+})
+
+describe("storeFiles", () => {
+  test("puts each file in R2 and records it for the form", async () => {
+    const cv = new File(["%PDF-1.7"], "cv.pdf", { type: "application/pdf" })
+    const references = await storeFiles(env.DB, env.UPLOADS, "form", "submission", [{ field: "cv", file: cv }], 1000)
+
+    const reference = references.get(cv)
+    assert.ok(reference)
+    assert.deepEqual({ ...reference, id: "" }, { kind: "file", id: "", name: "cv.pdf", type: "application/pdf", size: 8 })
+
+    const row = await env.DB.prepare("SELECT * FROM submission_files WHERE id = ?").bind(reference.id).first()
+    assert.deepEqual(row, {
+      id: reference.id,
+      submission_id: "submission",
+      form_id: "form",
+      field: "cv",
+      name: "cv.pdf",
+      type: "application/pdf",
+      size: 8,
+      r2_key: `form/submission/${reference.id}`,
+      created_at: 1000,
+    })
+
+    const object = await env.UPLOADS.get(`form/submission/${reference.id}`)
+    assert.ok(object)
+    assert.equal(await object.text(), "%PDF-1.7")
+    assert.equal(object.httpMetadata?.contentType, "application/pdf")
+    assert.deepEqual(object.customMetadata, { name: "cv.pdf" })
+  })
+
+  test("stores nothing without files", async () => {
+    assert.equal((await storeFiles(env.DB, env.UPLOADS, "form", "none", [])).size, 0)
+  })
+})
+
+describe("purgeOrphanedFiles", () => {
+  test("deletes files whose submission is gone once they're past the grace period", async () => {
+    const now = Date.UTC(2026, 0, 1)
+    await env.DB.prepare("INSERT INTO submissions (id, form_id, data, created_at) VALUES ('kept', 'form', '{}', 0)").run()
+
+    const kept = new File(["kept"], "kept.txt")
+    const orphan = new File(["orphan"], "orphan.txt")
+    const recent = new File(["recent"], "recent.txt")
+    const keptRef = (await storeFiles(env.DB, env.UPLOADS, "form", "kept", [{ field: "f", file: kept }], now - 2 * 60 * 60 * 1000)).get(kept)!
+    const orphanRef = (await storeFiles(env.DB, env.UPLOADS, "form", "gone", [{ field: "f", file: orphan }], now - 2 * 60 * 60 * 1000)).get(orphan)!
+    const recentRef = (await storeFiles(env.DB, env.UPLOADS, "form", "inserting", [{ field: "f", file: recent }], now - 60 * 1000)).get(recent)!
+
+    // Also counts the file from the storeFiles test above, whose submission was never inserted
+    assert.equal(await purgeOrphanedFiles(env.DB, env.UPLOADS, now), 2)
+    assert.equal(await env.UPLOADS.head(`form/gone/${orphanRef.id}`), null)
+    assert.ok(await env.UPLOADS.head(`form/kept/${keptRef.id}`))
+    assert.ok(await env.UPLOADS.head(`form/inserting/${recentRef.id}`))
+    assert.equal(await env.DB.prepare("SELECT 1 FROM submission_files WHERE id = ?").bind(orphanRef.id).first(), null)
+  })
+})
+
+describe("replaceFiles", () => {
+  const file = new File(["hello"], "cv.pdf", { type: "application/pdf" })
+  const reference: FileReference = { kind: "file", id: "stored", name: "cv.pdf", type: "application/pdf", size: 5 }
+
+  test("swaps uploads for their stored references", () => {
+    assert.deepEqual(replaceFiles({ name: "Ada", cv: file, more: [file] }, new Map([[file, reference]])), {
+      name: "Ada",
+      cv: reference,
+      more: [reference],
+    })
+  })
+
+  test("drops submitted objects that pose as references", () => {
+    const forged = { kind: "file", id: "someone-elses-file", name: "secret.pdf", type: "application/pdf", size: 1 }
+
+    assert.deepEqual(
+      replaceFiles({ cv: forged, list: [forged, "kept"], nested: { cv: { kind: "file" } } }, new Map()),
+      { cv: null, list: [null, "kept"], nested: { cv: null } }
+    )
+  })
+})
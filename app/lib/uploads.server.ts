@@ -0,0 +1,212 @@
+import type { FileReference } from "./files"
+
+export const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024
+export const DEFAULT_MAX_FILES = 5
+
+// Workers reject request bodies over 100 MB before they reach us anyway
+export const MAX_FILE_SIZE_LIMIT = 100 * 1024 * 1024
+
+// Files newer than this may belong to a submission that is still being inserted
+const ORPHAN_GRACE_MS = 60 * 60 * 1000
+
+export type UploadSettings = {
+  upload_max_file_size: number | null
+  upload_max_files: number | null
+  upload_allowed_types: string | null
+}
+
+export type UploadedFile = {
+  field: string
+  file: File
+}
+
+export type UploadError = {
+  error: "too_many_files" | "file_too_large" | "file_type_not_allowed"
+  message: string
+}
+
+/**
+ * Loads the form's upload limits, or null when no settings exist
+ */
+export async function getUploadSettings(db: D1Database, formId: string): Promise<UploadSettings | null> {
+  return db
+    .prepare("SELECT upload_max_file_size, upload_max_files, upload_allowed_types FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<UploadSettings>()
+}
+
+/**
+ * Finds every uploaded file in the submission, at any depth. Empty file inputs,
+ * which browsers still send as a nameless zero-byte part, are left out.
+ */
+export function collectFiles(value: unknown, field = ""): UploadedFile[] {
+  if (value instanceof File) {
+    return value.size > 0 || value.name ? [{ field, file: value }] : []
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      collectFiles(item, Array.isArray(value) ? `${field}[${key}]` : field ? `${field}.${key}` : key)
+    )
+  }
+  return []
+}
+
+/**
+ * Checks the files against the form's count, size and type limits
+ */
+export function validateFiles(files: UploadedFile[], settings: UploadSettings | null): UploadError | null {
+  const maxFiles = settings?.upload_max_files ?? DEFAULT_MAX_FILES
+  const maxFileSize = settings?.upload_max_file_size ?? DEFAULT_MAX_FILE_SIZE
+  const allowedTypes = parseAllowedTypes(settings?.upload_allowed_types ?? "")
+
+  if (files.length > maxFiles) {
+    return { error: "too_many_files", message: `At most ${maxFiles} file(s) can be uploaded` }
+  }
+
+  for (const { file } of files) {
+    if (file.size > maxFileSize) {
+      return { error: "file_too_large", message: `"${file.name}" is larger than the ${formatMegabytes(maxFileSize)} limit` }
+    }
+    if (allowedTypes.length > 0 && !allowedTypes.some((type) => matchesType(file.type, type))) {
+      return { error: "file_type_not_allowed", message: `"${file.name}" is not an allowed file type` }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parses a comma or newline separated list of MIME types, allowing `image/*` wildcards
+ */
+export function parseAllowedTypes(allowedTypes: string): string[] {
+  return allowedTypes
+    .split(/[,\n]/)
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Uploads the files to R2 and records them, returning the reference each file
+ * should be replaced with in the stored submission
+ */
+export async function storeFiles(
+  db: D1Database,
+  bucket: R2Bucket,
+  formId: string,
+  submissionId: string,
+  files: UploadedFile[],
+  now = Date.now()
+): Promise<Map<File, FileReference>> {
+  const references = new Map<File, FileReference>()
+  if (files.length === 0) {
+    return references
+  }
+
+  const rows = await Promise.all(
+    files.map(async ({ field, file }) => {
+      const id = crypto.randomUUID()
+      // The user's file name never ends up in the key
+      const key = `${formId}/${submissionId}/${id}`
+      const type = file.type || "application/octet-stream"
+
+      await bucket.put(key, file, {
+        httpMetadata: { contentType: type },
+        customMetadata: { name: file.name },
+      })
+
+      references.set(file, { kind: "file", id, name: file.name, type, size: file.size })
+      return { id, field, name: file.name, type, size: file.size, key }
+    })
+  )
+
+  await db.batch(
+    rows.map((row) =>
+      db
+        .prepare("INSERT INTO submission_files (id, submission_id, form_id, field, name, type, size, r2_key, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)")
+        .bind(row.id, submissionId, formId, row.field, row.name, row.type, row.size, row.key, now)
+    )
+  )
+
+  return references
+}
+
+/**
+ * Swaps every File in the submission for its stored reference. Submitted
+ * objects that only look like a reference, such as `{ "kind": "file" }` in a
+ * JSON body, become null so they can't point at another submission's file.
+ */
+export function replaceFiles(value: unknown, references: Map<File, FileReference>): any {
+  if (value instanceof File) {
+    return references.get(value) ?? null
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceFiles(item, references))
+  }
+  if (typeof value === "object" && value !== null) {
+    if ((value as { kind?: unknown }).kind === "file") {
+      return null
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceFiles(item, references)])
+    )
+  }
+  return value
+}
+
+/**
+ * Fetches a file's metadata, making sure it belongs to the form
+ */
+export async function getSubmissionFile(
+  db: D1Database,
+  formId: string,
+  fileId: string
+): Promise<{ name: string; type: string; size: number; r2_key: string } | null> {
+  return db
+    .prepare("SELECT name, type, size, r2_key FROM submission_files WHERE id = ? AND form_id = ?")
+    .bind(fileId, formId)
+    .first()
+}
+
+/**
+ * Deletes files, from R2 and D1, whose submission has been permanently deleted
+ */
+export async function purgeOrphanedFiles(db: D1Database, bucket: R2Bucket, now = Date.now()): Promise<number> {
+  let purged = 0
+
+  while (true) {
+    // R2 deletes up to 1000 keys per call
+    const result = await db
+      .prepare(`
+        SELECT id, r2_key FROM submission_files
+        WHERE created_at < ? AND NOT EXISTS (SELECT 1 FROM submissions WHERE submissions.id = submission_files.submission_id)
+        LIMIT 1000
+      `)
+      .bind(now - ORPHAN_GRACE_MS)
+      .all<{ id: string; r2_key: string }>()
+
+    const rows = result.results
+    if (rows.length === 0) {
+      return purged
+    }
+
+    await bucket.delete(rows.map((row) => row.r2_key))
+    await db
+      .prepare("DELETE FROM submission_files WHERE id IN (SELECT value FROM json_each(?))")
+      .bind(JSON.stringify(rows.map((row) => row.id)))
+      .run()
+
+    purged += rows.length
+    if (rows.length < 1000) {
+      return purged
+    }
+  }
+}
+
+function matchesType(fileType: string, allowed: string): boolean {
+  const type = fileType.toLowerCase()
+  return allowed.endsWith("/*") ? type.startsWith(allowed.slice(0, -1)) : type === allowed
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`
+}
@@ -0,0 +1,208 @@
+/// <reference types="node" />
+import assert from "node:assert/strict"
+import { after, before, beforeEach, describe, test } from "node:test"
+import { createTestEnv } from "./test-env.server"
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_SIGNATURE_HEADER,
+  enqueueWebhookDeliveries,
+  failStalledWebhookDeliveries,
+  processWebhookBatch,
+  purgeOldWebhookDeliveries,
+  signWebhookPayload,
+} from "./webhooks.server"
+import type { WebhookMessage, WebhookPayload } from "./webhooks.server"
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const NOW = Date.UTC(2026, 0, 31)
+
+let env: Awaited<ReturnType<typeof createTestEnv>>
+
+before(async () => {
+  env = await createTestEnv()
+  await env.DB.batch([
+    env.DB.prepare("INSERT INTO forms (id, name, created_at, updated_at) VALUES ('form', 'Contact', 0, 0)"),
+    env.DB.prepare("INSERT INTO webhooks (id, form_id, url, secret, created_at) VALUES ('hook', 'form', 'https://example.com/hook', 'whsec_test', 0)"),
+  ])
+})
+
+after(async () => {
+  await env.dispose()
+})
+
+beforeEach(async () => {
+  await env.DB.prepare("DELETE FROM webhook_deliveries").run()
+})
+
+async function addDelivery(id: string, status: string, createdAt: number, lastAttemptAt: number | null = null) {
+  await env.DB.prepare(`
+    INSERT INTO webhook_deliveries (id, webhook_id, form_id, submission_id, payload, status, attempts, error, created_at, last_attempt_at)
+    VALUES (?, 'hook', 'form', 'submission', '{}', ?, ?, ?, ?, ?)
+  `)
+    .bind(id, status, lastAttemptAt ? 3 : 0, status === "retrying" ? "Endpoint responded with 503" : null, createdAt, lastAttemptAt)
+    .run()
+}
+
+async function getStatuses() {
+  const { results } = await env.DB.prepare("SELECT id, status, error FROM webhook_deliveries ORDER BY id").all()
+  return results
+}
+
+describe("failStalledWebhookDeliveries", () => {
+  test("fails deliveries the queue stopped retrying", async () => {
+    await addDelivery("a-never-queued", "pending", NOW - 2 * DAY)
+    await addDelivery("b-gave-up", "retrying", NOW - 3 * DAY, NOW - 2 * DAY)
+    await addDelivery("c-waiting", "retrying", NOW - 2 * DAY, NOW - 3 * HOUR)
+    await addDelivery("d-just-queued", "pending", NOW - HOUR)
+
+    assert.equal(await failStalledWebhookDeliveries(env.DB, NOW), 2)
+    assert.deepEqual(await getStatuses(), [
+      { id: "a-never-queued", status: "failed", error: "Delivery was never attempted" },
+      { id: "b-gave-up", status: "failed", error: "Endpoint responded with 503" },
+      { id: "c-waiting", status: "retrying", error: "Endpoint responded with 503" },
+      { id: "d-just-queued", status: "pending", error: null },
+    ])
+  })
+})
+
+describe("purgeOldWebhookDeliveries", () => {
+  test("deletes deliveries past the retention window whatever their status", async () => {
+    await addDelivery("a-old-succeeded", "succeeded", NOW - 31 * DAY)
+    await addDelivery("b-old-retrying", "retrying", NOW - 31 * DAY, NOW - 31 * DAY)
+    await addDelivery("c-recent", "succeeded", NOW - 29 * DAY)
+
+    assert.equal(await purgeOldWebhookDeliveries(env.DB, NOW), 2)
+    assert.deepEqual((await getStatuses()).map((row) => row.id), ["c-recent"])
+  })
+})
+
+// Stands in for the WEBHOOKS queue: redelivers retried messages with one more attempt, noting each delay
+function createQueue() {
+  let pending: { body: WebhookMessage; attempts: number }[] = []
+  const delays: number[] = []
+
+  const queue = {
+    async send(body: WebhookMessage) {
+      pending.push({ body, attempts: 1 })
+    },
+    async sendBatch(messages: Iterable<{ body: WebhookMessage }>) {
+      for (const { body } of messages) pending.push({ body, attempts: 1 })
+    },
+  } as unknown as Queue<WebhookMessage>
+
+  // Hands everything queued to the consumer, like one run of the queue handler
+  async function deliver(fetcher: typeof fetch) {
+    const messages = pending
+    pending = []
+    await processWebhookBatch(
+      {
+        queue: "formzero-webhooks",
+        messages: messages.map((message) => ({
+          id: crypto.randomUUID(),
+          timestamp: new Date(),
+          body: message.body,
+          attempts: message.attempts,
+          ack: () => {},
+          retry: (options?: { delaySeconds?: number }) => {
+            delays.push(options?.delaySeconds ?? 0)
+            pending.push({ body: message.body, attempts: message.attempts + 1 })
+          },
+        })),
+      } as unknown as MessageBatch<WebhookMessage>,
+      env.DB,
+      fetcher
+    )
+    return messages.length
+  }
+
+  return { queue, delays, deliver }
+}
+
+// An endpoint that answers each request with the next status, repeating the last
+function createEndpoint(...statuses: number[]) {
+  const requests: Request[] = []
+  const fetcher = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push(new Request(input, init))
+    return new Response(null, { status: statuses[Math.min(requests.length, statuses.length) - 1] })
+  }) as typeof fetch
+  return { requests, fetcher }
+}
+
+const payload: WebhookPayload = {
+  event: "submission.created",
+  form: { id: "form", name: "Contact" },
+  submission: {
+    id: "submission",
+    data: { name: "Ada" },
+    created_at: NOW,
+    metadata: {} as WebhookPayload["submission"]["metadata"],
+  },
+}
+
+async function getDelivery() {
+  return env.DB.prepare("SELECT status, attempts, response_status, error FROM webhook_deliveries").first()
+}
+
+describe("webhook delivery", () => {
+  test("posts the signed payload and records the success", async () => {
+    const { queue, deliver } = createQueue()
+    const endpoint = createEndpoint(200)
+
+    assert.equal(await enqueueWebhookDeliveries(env.DB, queue, "form", payload, NOW), 1)
+    assert.equal(await deliver(endpoint.fetcher), 1)
+
+    const [request] = endpoint.requests
+    const body = await request.text()
+    assert.equal(request.url, "https://example.com/hook")
+    assert.deepEqual(JSON.parse(body), payload)
+
+    const timestamp = Number(/^t=(\d+),/.exec(request.headers.get(WEBHOOK_SIGNATURE_HEADER) ?? "")?.[1])
+    assert.equal(request.headers.get(WEBHOOK_SIGNATURE_HEADER), await signWebhookPayload("whsec_test", body, timestamp))
+
+    assert.deepEqual(await getDelivery(), { status: "succeeded", attempts: 1, response_status: 200, error: null })
+    assert.equal(await deliver(endpoint.fetcher), 0)
+  })
+
+  test("backs off from a minute to four hours, over about a day, then gives up", async () => {
+    const { queue, delays, deliver } = createQueue()
+    const endpoint = createEndpoint(503)
+
+    await enqueueWebhookDeliveries(env.DB, queue, "form", payload, NOW)
+    while (await deliver(endpoint.fetcher)) {}
+
+    assert.equal(endpoint.requests.length, MAX_WEBHOOK_ATTEMPTS)
+    assert.deepEqual(delays, [60, 120, 240, 480, 960, 1920, 3840, 7680, 14400, 14400, 14400, 14400, 14400])
+    const hours = delays.reduce((total, delay) => total + delay, 0) / 3600
+    assert.ok(hours > 23 && hours < 25, `${hours} hours`)
+
+    assert.deepEqual(await getDelivery(), {
+      status: "failed",
+      attempts: MAX_WEBHOOK_ATTEMPTS,
+      response_status: 503,
+      error: "Endpoint responded with 503",
+    })
+  })
+
+  test("succeeds on a retry after a temporary failure", async () => {
+    const { queue, delays, deliver } = createQueue()
+    const endpoint = createEndpoint(429, 500, 204)
+
+    await enqueueWebhookDeliveries(env.DB, queue, "form", payload, NOW)
+    while (await deliver(endpoint.fetcher)) {}
+
+    assert.deepEqual(delays, [60, 120])
+    assert.deepEqual(await getDelivery(), { status: "succeeded", attempts: 3, response_status: 204, error: null })
+  })
+
+  test("doesn't retry client errors", async () => {
+    const { queue, delays, deliver } = createQueue()
+    const endpoint = createEndpoint(404)
+
+    await enqueueWebhookDeliveries(env.DB, queue, "form", payload, NOW)
+    while (await deliver(endpoint.fetcher)) {}
+
+    assert.deepEqual(delays, [])
+    assert.deepEqual(await getDelivery(), { status: "failed", attempts: 1, response_status: 404, error: "Endpoint responded with 404" })
+  })
+})
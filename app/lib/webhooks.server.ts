@@ -0,0 +1,304 @@
+import type { SubmissionMetadata } from "#/types/submission"
+import type { Webhook, WebhookDelivery, WebhookStatus } from "#/types/webhook"
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-FormZero-Signature"
+
+// Attempts per delivery, including the first. Retries back off from a minute to four
+// hours apart, so the last one comes about 24 hours after the first attempt.
+export const MAX_WEBHOOK_ATTEMPTS = 14
+const BASE_RETRY_DELAY_SECONDS = 60
+const MAX_RETRY_DELAY_SECONDS = 4 * 60 * 60
+
+// Deliveries are kept for the log this long before the scheduled job purges them
+export const WEBHOOK_LOG_RETENTION_DAYS = 30
+
+// Retries are at most MAX_RETRY_DELAY_SECONDS apart, so a delivery left this long
+// without an attempt lost its queue message and won't be tried again
+const STALLED_DELIVERY_MS = 24 * 60 * 60 * 1000
+
+const DELIVERY_TIMEOUT_MS = 10_000
+const MAX_ERROR_LENGTH = 500
+
+export type WebhookMessage = {
+  deliveryId: string
+}
+
+export type WebhookPayload = {
+  event: "submission.created"
+  form: { id: string; name: string }
+  submission: {
+    id: string
+    data: Record<string, any>
+    created_at: number
+    metadata: SubmissionMetadata
+  }
+}
+
+/**
+ * Validates a webhook endpoint, which must be an absolute http(s) URL
+ */
+export function parseWebhookUrl(value: string): URL {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new Error("Enter a valid webhook URL")
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("Webhook URLs must start with http:// or https://")
+  }
+  return url
+}
+
+/**
+ * Generates the secret a webhook's payloads are signed with
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${toHex(crypto.getRandomValues(new Uint8Array(24)))}`
+}
+
+/**
+ * Lists the form's webhooks; secrets are left out
+ */
+export async function listWebhooks(db: D1Database, formId: string): Promise<Webhook[]> {
+  const result = await db
+    .prepare("SELECT id, form_id, url, enabled, created_at FROM webhooks WHERE form_id = ? ORDER BY created_at")
+    .bind(formId)
+    .all<Webhook>()
+
+  return result.results
+}
+
+/**
+ * Lists the form's most recent deliveries across all of its webhooks
+ */
+export async function listWebhookDeliveries(db: D1Database, formId: string, limit = 20): Promise<WebhookDelivery[]> {
+  const result = await db
+    .prepare(`
+      SELECT id, webhook_id, submission_id, status, attempts, response_status, error, created_at, last_attempt_at
+      FROM webhook_deliveries
+      WHERE form_id = ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `)
+    .bind(formId, limit)
+    .all<WebhookDelivery>()
+
+  return result.results
+}
+
+/**
+ * Records a delivery for each of the form's enabled webhooks and queues them
+ */
+export async function enqueueWebhookDeliveries(
+  db: D1Database,
+  queue: Queue<WebhookMessage>,
+  formId: string,
+  payload: WebhookPayload,
+  now = Date.now()
+): Promise<number> {
+  const webhooks = await db
+    .prepare("SELECT id FROM webhooks WHERE form_id = ? AND enabled = 1")
+    .bind(formId)
+    .all<{ id: string }>()
+
+  if (webhooks.results.length === 0) {
+    return 0
+  }
+
+  const body = JSON.stringify(payload)
+  const deliveryIds = webhooks.results.map(() => crypto.randomUUID())
+
+  await db.batch(
+    webhooks.results.map((webhook, i) =>
+      db
+        .prepare(`
+          INSERT INTO webhook_deliveries (id, webhook_id, form_id, submission_id, payload, status, created_at)
+          VALUES (?, ?, ?, ?, ?, 'pending', ?)
+        `)
+        .bind(deliveryIds[i], webhook.id, formId, payload.submission.id, body, now)
+    )
+  )
+
+  await queue.sendBatch(deliveryIds.map((deliveryId) => ({ body: { deliveryId } })))
+  return deliveryIds.length
+}
+
+/**
+ * Sends an earlier delivery's payload again as a new delivery, so the log keeps both
+ */
+export async function redeliverWebhook(
+  db: D1Database,
+  queue: Queue<WebhookMessage>,
+  formId: string,
+  deliveryId: string,
+  now = Date.now()
+): Promise<boolean> {
+  const id = crypto.randomUUID()
+  const result = await db
+    .prepare(`
+      INSERT INTO webhook_deliveries (id, webhook_id, form_id, submission_id, payload, status, created_at)
+      SELECT ?, webhook_deliveries.webhook_id, webhook_deliveries.form_id, webhook_deliveries.submission_id, webhook_deliveries.payload, 'pending', ?
+      FROM webhook_deliveries
+      JOIN webhooks ON webhooks.id = webhook_deliveries.webhook_id
+      WHERE webhook_deliveries.id = ? AND webhook_deliveries.form_id = ?
+    `)
+    .bind(id, now, deliveryId, formId)
+    .run()
+
+  if (result.meta.changes === 0) {
+    return false
+  }
+
+  await queue.send({ deliveryId: id })
+  return true
+}
+
+/**
+ * Queue consumer: attempts each delivery, retrying failures with exponential
+ * backoff until MAX_WEBHOOK_ATTEMPTS is reached
+ */
+export async function processWebhookBatch(
+  batch: MessageBatch<WebhookMessage>,
+  db: D1Database,
+  fetcher: typeof fetch = fetch
+): Promise<void> {
+  for (const message of batch.messages) {
+    try {
+      const result = await attemptDelivery(db, message.body.deliveryId, fetcher)
+      if (result === "retry") {
+        message.retry({ delaySeconds: getRetryDelay(message.attempts) })
+      } else {
+        message.ack()
+      }
+    } catch (error) {
+      // Couldn't even record the attempt; let the queue try again later
+      console.error("Failed to process webhook delivery:", error)
+      message.retry({ delaySeconds: getRetryDelay(message.attempts) })
+    }
+  }
+}
+
+/**
+ * Signs `<timestamp>.<body>` so receivers can reject both forged and replayed
+ * payloads. The header reads `t=<unix seconds>,v1=<hex HMAC-SHA256>`.
+ */
+export async function signWebhookPayload(secret: string, body: string, timestamp: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${body}`))
+  return `t=${timestamp},v1=${toHex(new Uint8Array(signature))}`
+}
+
+/**
+ * Marks deliveries the queue stopped retrying as failed. That happens when the
+ * consumer itself kept failing until the queue's max_retries ran out, or the
+ * message was never queued.
+ */
+export async function failStalledWebhookDeliveries(db: D1Database, now = Date.now()): Promise<number> {
+  const result = await db
+    .prepare(`
+      UPDATE webhook_deliveries SET status = 'failed', error = COALESCE(error, 'Delivery was never attempted')
+      WHERE status IN ('pending', 'retrying') AND COALESCE(last_attempt_at, created_at) < ?
+    `)
+    .bind(now - STALLED_DELIVERY_MS)
+    .run()
+
+  return result.meta.changes
+}
+
+/**
+ * Deletes deliveries older than the log retention window, whatever their status
+ */
+export async function purgeOldWebhookDeliveries(db: D1Database, now = Date.now()): Promise<number> {
+  const cutoff = now - WEBHOOK_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  const result = await db
+    .prepare("DELETE FROM webhook_deliveries WHERE created_at < ?")
+    .bind(cutoff)
+    .run()
+
+  return result.meta.changes
+}
+
+async function attemptDelivery(
+  db: D1Database,
+  deliveryId: string,
+  fetcher: typeof fetch
+): Promise<"done" | "retry"> {
+  const delivery = await db
+    .prepare(`
+      SELECT webhook_deliveries.payload, webhook_deliveries.attempts, webhook_deliveries.status,
+             webhooks.url, webhooks.secret, webhooks.enabled
+      FROM webhook_deliveries
+      JOIN webhooks ON webhooks.id = webhook_deliveries.webhook_id
+      WHERE webhook_deliveries.id = ?
+    `)
+    .bind(deliveryId)
+    .first<{ payload: string; attempts: number; status: WebhookStatus; url: string; secret: string; enabled: number }>()
+
+  // The webhook was deleted, or the queue redelivered a message we already finished
+  if (!delivery || delivery.status === "succeeded" || delivery.status === "failed") {
+    return "done"
+  }
+
+  const attempts = delivery.attempts + 1
+  const now = Date.now()
+  let responseStatus: number | null = null
+  let error: string | null = null
+
+  if (!delivery.enabled) {
+    error = "Webhook was disabled"
+  } else {
+    try {
+      const response = await fetcher(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "FormZero-Webhooks",
+          "X-FormZero-Event": "submission.created",
+          "X-FormZero-Delivery": deliveryId,
+          [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(delivery.secret, delivery.payload, Math.floor(now / 1000)),
+        },
+        body: delivery.payload,
+        redirect: "manual",
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      })
+      responseStatus = response.status
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`
+      }
+      // Release the connection; the body isn't needed
+      await response.body?.cancel()
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Request failed"
+    }
+  }
+
+  // Client errors other than timeouts and rate limits won't fix themselves
+  const permanent = !delivery.enabled ||
+    (responseStatus !== null && responseStatus >= 400 && responseStatus < 500 && responseStatus !== 408 && responseStatus !== 429)
+  const status: WebhookStatus = !error
+    ? "succeeded"
+    : permanent || attempts >= MAX_WEBHOOK_ATTEMPTS ? "failed" : "retrying"
+
+  await db
+    .prepare("UPDATE webhook_deliveries SET status = ?, attempts = ?, response_status = ?, error = ?, last_attempt_at = ? WHERE id = ?")
+    .bind(status, attempts, responseStatus, error?.slice(0, MAX_ERROR_LENGTH) ?? null, now, deliveryId)
+    .run()
+
+  return status === "retrying" ? "retry" : "done"
+}
+
+// 1m, 2m, 4m ... capped at MAX_RETRY_DELAY_SECONDS
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS)
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+}
@@ -9,16 +9,39 @@ export default [
   route("setup", "routes/setup.tsx"),
   route("/forms", "routes/forms.tsx", [
     route(":formId", "routes/forms.$formId.tsx", [
-      route("submissions", "routes/forms.$formId.submissions.tsx"),
+      route("submissions", "routes/forms.$formId.submissions.tsx", [
+        route(":submissionId", "routes/forms.$formId.submissions.$submissionId.tsx"),
+      ]),
+      route("submissions/export", "routes/forms.$formId.submissions.export.tsx"),
+      route("files/:fileId", "routes/forms.$formId.files.$fileId.tsx"),
       route("integration", "routes/forms.$formId.integration.tsx"),
       route("settings", "routes/forms.$formId.settings.tsx"),
+      route("settings/general", "routes/forms.$formId.settings.general.tsx"),
+      route("settings/spam", "routes/forms.$formId.settings.spam.tsx"),
+      route("settings/captcha", "routes/forms.$formId.settings.captcha.tsx"),
+      route("settings/rate-limit", "routes/forms.$formId.settings.rate-limit.tsx"),
+      route("settings/origins", "routes/forms.$formId.settings.origins.tsx"),
+      route("settings/redirects", "routes/forms.$formId.settings.redirects.tsx"),
+      route("settings/uploads", "routes/forms.$formId.settings.uploads.tsx"),
+      route("settings/parsing", "routes/forms.$formId.settings.parsing.tsx"),
+      route("settings/schema", "routes/forms.$formId.settings.schema.tsx"),
+      route("settings/metadata", "routes/forms.$formId.settings.metadata.tsx"),
+      route("settings/webhooks", "routes/forms.$formId.settings.webhooks.tsx"),
       route("settings/notifications", "routes/forms.$formId.settings.notifications.tsx"),
       route("settings/notifications/test", "routes/forms.$formId.settings.notifications.test.tsx"),
+      route("settings/recipients", "routes/forms.$formId.settings.recipients.tsx"),
+      route("settings/sender", "routes/forms.$formId.settings.sender.tsx"),
+      route("settings/templates", "routes/forms.$formId.settings.templates.tsx"),
+      route("settings/templates/preview", "routes/forms.$formId.settings.templates.preview.tsx"),
+      route("settings/autoresponder", "routes/forms.$formId.settings.autoresponder.tsx"),
+      route("settings/channels", "routes/forms.$formId.settings.channels.tsx"),
+      route("settings/channels/test", "routes/forms.$formId.settings.channels.test.tsx"),
     ]),
   ]),
 
   route("/api/auth/*", "routes/api.auth.$.tsx"),
-  route("/api/forms/:formId/submissions", "routes/api.forms.$formId.submissions.tsx"),
+  route("/api/forms/:formKey/submissions", "routes/api.forms.$formKey.submissions.tsx"),
+  route("/api/forms/:formKey/timestamp", "routes/api.forms.$formKey.timestamp.tsx"),
   route("/success", "routes/success.tsx"),
   route("/error", "routes/error.tsx"),
 ] satisfies RouteConfig;
@@ -0,0 +1,418 @@
+import type { Route } from "./+types/api.forms.$formKey.submissions";
+import { data, redirect } from "react-router";
+import { EMAIL_SETTINGS_COLUMNS, getEmailConfig, sendSubmissionNotification } from "~/lib/email.server";
+import type { EmailSettings } from "~/lib/email.server";
+import { findFormByPublicKey } from "~/lib/forms.server";
+import { checkSubmission, getSpamSettings } from "~/lib/spam.server";
+import { getCaptchaSettings, verifyCaptcha } from "~/lib/captcha.server";
+import { consumeRateLimit, getRateLimitSettings } from "~/lib/rate-limit.server";
+import { checkOrigin, getCorsHeaders, getOriginSettings } from "~/lib/origins.server";
+import { getErrorRedirect, getRedirectSettings, getSuccessRedirect, getValidationRedirect } from "~/lib/redirects.server";
+import type { RedirectSettings } from "~/lib/redirects.server";
+import { getFieldSchema, validateSubmission } from "~/lib/schema.server";
+import { listFieldNames, recordSubmissionFields } from "~/lib/fields.server";
+import { captureMetadata, getMetadataSettings } from "~/lib/metadata.server";
+import { enqueueWebhookDeliveries } from "~/lib/webhooks.server";
+import { notifyChannels } from "~/lib/channels.server";
+import { sendAutoresponder } from "~/lib/autoresponder.server";
+import { getNotificationTemplates, renderSubmissionEmail } from "~/lib/templates.server";
+import { resolveRecipients, resolveSender } from "~/lib/recipients.server";
+import type { RecipientSettings, SenderSettings } from "~/lib/recipients.server";
+import { getParsingSettings, parseFormData, parseJsonBody } from "~/lib/parsing.server";
+import { collectFiles, getUploadSettings, replaceFiles, storeFiles, validateFiles } from "~/lib/uploads.server";
+import { getFileUrl } from "~/lib/files";
+import type { SubmissionEmailData } from "#/types/submission";
+
+// Handle preflight OPTIONS requests
+export async function loader({ request, params, context }: Route.LoaderArgs) {
+  const db = context.cloudflare.env.DB;
+
+  // Preflights only succeed for origins on the form's allowlist, if it has one
+  const form = await findFormByPublicKey(db, params.formKey);
+  const corsHeaders = getCorsHeaders(
+    request,
+    form ? await getOriginSettings(db, form.id) : null
+  );
+
+  if (request.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  // For non-OPTIONS requests to this endpoint, return method not allowed
+  return data(
+    { error: "Method not allowed" },
+    { status: 405, headers: corsHeaders }
+  );
+}
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formKey } = params;
+  const db = context.cloudflare.env.DB;
+
+  // Determine if this is a JSON request (used throughout)
+  const contentType = request.headers.get("content-type") || "";
+  const acceptHeader = request.headers.get("accept") || "";
+  const isJsonRequest =
+    acceptHeader.includes("application/json") ||
+    contentType.includes("application/json");
+
+  // Any origin may read errors until the form's own allowlist is known
+  let corsHeaders = getCorsHeaders(request, null);
+  // HTML posts go to the built-in error page until the form's own redirects are known
+  let redirectSettings: RedirectSettings | null = null;
+
+  try {
+    // Resolve the public key (or a rotated key still in its grace period) to the form
+    const form = await findFormByPublicKey(db, formKey);
+
+    if (!form) {
+      if (isJsonRequest) {
+        return data(
+          { success: false, error: "Form not found" },
+          { status: 404, headers: corsHeaders }
+        );
+      }
+      return redirect("/error?error=form_not_found");
+    }
+
+    redirectSettings = await getRedirectSettings(db, form.id);
+
+    // Archived forms keep their data but stop accepting submissions
+    if (form.archived_at) {
+      if (isJsonRequest) {
+        return data(
+          { success: false, error: "This form is archived and no longer accepts submissions" },
+          { status: 410, headers: corsHeaders }
+        );
+      }
+      return redirect(getErrorRedirect("form_archived", redirectSettings));
+    }
+
+    const formId = form.id;
+
+    // Only origins on the form's allowlist may post; lenient mode keeps the rest as spam
+    const originSettings = await getOriginSettings(db, formId);
+    corsHeaders = getCorsHeaders(request, originSettings);
+    const originCheck = checkOrigin(request, originSettings);
+
+    if (!originCheck.allowed && originCheck.mode === "strict") {
+      if (isJsonRequest) {
+        return data(
+          { success: false, error: "Submissions from this origin are not allowed" },
+          { status: 403, headers: corsHeaders }
+        );
+      }
+      return redirect(getErrorRedirect("origin_not_allowed", redirectSettings));
+    }
+
+    // Count the attempt before doing any work on the body
+    const rateLimit = await consumeRateLimit(
+      db,
+      formId,
+      request.headers.get("cf-connecting-ip"),
+      await getRateLimitSettings(db, formId)
+    );
+
+    if (rateLimit.limited) {
+      if (isJsonRequest) {
+        return data(
+          { success: false, error: "Too many submissions, please try again later" },
+          {
+            status: 429,
+            headers: {
+              ...corsHeaders,
+              "Retry-After": String(rateLimit.retryAfter),
+              "Access-Control-Expose-Headers": "Retry-After",
+            },
+          }
+        );
+      }
+      return redirect(getErrorRedirect("rate_limited", redirectSettings), {
+        headers: { "Retry-After": String(rateLimit.retryAfter) },
+      });
+    }
+
+    // Parse request body based on content type
+    let submissionData: Record<string, any>;
+    const parsingSettings = await getParsingSettings(db, formId);
+
+    if (contentType.includes("application/json")) {
+      const body = await request.json();
+
+      if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        return data(
+          { success: false, error: "Request body must be a JSON object" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      submissionData = parseJsonBody(body as Record<string, unknown>, parsingSettings);
+    } else if (
+      contentType.includes("application/x-www-form-urlencoded") ||
+      contentType.includes("multipart/form-data")
+    ) {
+      const formData = await request.formData();
+      submissionData = parseFormData(formData, parsingSettings);
+    } else {
+      if (isJsonRequest) {
+        return data(
+          { success: false, error: "Unsupported content type" },
+          { status: 415, headers: corsHeaders }
+        );
+      }
+      return redirect(getErrorRedirect("unsupported_content_type", redirectSettings));
+    }
+
+    // Check uploads against the form's limits now; they are only stored once the submission is accepted
+    const uploadError = validateFiles(
+      collectFiles(submissionData),
+      await getUploadSettings(db, formId)
+    );
+
+    if (uploadError) {
+      if (isJsonRequest) {
+        return data(
+          { success: false, error: uploadError.message },
+          { status: uploadError.error === "file_type_not_allowed" ? 415 : 413, headers: corsHeaders }
+        );
+      }
+      return redirect(getErrorRedirect(uploadError.error, redirectSettings));
+    }
+
+    // Check the fields against the form's schema before the single-use CAPTCHA token is spent
+    const fieldErrors = validateSubmission(submissionData, await getFieldSchema(db, formId));
+
+    if (Object.keys(fieldErrors).length > 0) {
+      if (isJsonRequest) {
+        return data(
+          { success: false, error: "Some fields are invalid", errors: fieldErrors },
+          { status: 422, headers: corsHeaders }
+        );
+      }
+      return redirect(
+        await getValidationRedirect(request, fieldErrors, redirectSettings, context.cloudflare.env.BETTER_AUTH_SECRET),
+        303
+      );
+    }
+
+    // Verify the challenge widget before anything is stored
+    const captcha = await verifyCaptcha(
+      submissionData,
+      await getCaptchaSettings(db, formId),
+      request,
+      context.captchaVerifier
+    );
+
+    if (!captcha.success) {
+      if (isJsonRequest) {
+        return data(
+          { success: false, error: captcha.error },
+          { status: 403, headers: corsHeaders }
+        );
+      }
+      return redirect(getErrorRedirect("captcha_failed", redirectSettings));
+    }
+
+    submissionData = captcha.data;
+
+    // Generate submission ID and timestamp
+    const submissionId = crypto.randomUUID();
+    const createdAt = Date.now();
+
+    // Run the spam filters; a filled honeypot gets a normal-looking success without being stored
+    const verdict = await checkSubmission(
+      submissionData,
+      await getSpamSettings(db, formId),
+      createdAt
+    );
+
+    if (verdict.action === "drop") {
+      return successResponse(request, isJsonRequest, submissionId, corsHeaders, redirectSettings);
+    }
+
+    submissionData = verdict.data;
+    const spamReason = verdict.spamReason ??
+      (originCheck.allowed ? null : `Posted from ${originCheck.origin ?? "an unknown origin"}, which is not on the allowed origins list`);
+
+    // Upload files to R2 and keep only references to them in the submission
+    const fileReferences = await storeFiles(
+      db,
+      context.cloudflare.env.UPLOADS,
+      formId,
+      submissionId,
+      collectFiles(submissionData),
+      createdAt
+    );
+    submissionData = replaceFiles(submissionData, fileReferences);
+
+    // Note where the submission came from, if the form asks for it
+    const metadata = await captureMetadata(request, await getMetadataSettings(db, formId));
+
+    // Store submission in database
+    await db
+      .prepare(
+        `INSERT INTO submissions (
+          id, form_id, data, created_at, spam_reason,
+          ip, user_agent, referrer, country, city,
+          utm_source, utm_medium, utm_campaign, utm_term, utm_content
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        submissionId,
+        formId,
+        JSON.stringify(submissionData),
+        createdAt,
+        spamReason,
+        metadata.ip,
+        metadata.user_agent,
+        metadata.referrer,
+        metadata.country,
+        metadata.city,
+        metadata.utm_source,
+        metadata.utm_medium,
+        metadata.utm_campaign,
+        metadata.utm_term,
+        metadata.utm_content
+      )
+      .run();
+
+    // Spam is kept for review but never triggers a notification
+    if (spamReason) {
+      return successResponse(request, isJsonRequest, submissionId, corsHeaders, redirectSettings);
+    }
+
+    // New fields join the form's field catalog straight away
+    context.cloudflare.ctx.waitUntil(
+      recordSubmissionFields(db, formId, submissionData).catch((error) => {
+        console.error("Failed to record submission fields:", error);
+      })
+    );
+
+    // Queue a signed delivery to each of the form's webhooks; the queue consumer handles retries
+    context.cloudflare.ctx.waitUntil(
+      enqueueWebhookDeliveries(db, context.cloudflare.env.WEBHOOKS, formId, {
+        event: "submission.created",
+        form: { id: formId, name: form.name },
+        submission: { id: submissionId, data: submissionData, created_at: createdAt, metadata },
+      }).catch((error) => {
+        console.error("Failed to queue webhook deliveries:", error);
+      })
+    );
+
+    // Attachment links go through the dashboard, which requires signing in
+    const origin = new URL(request.url).origin;
+    // Built once and shared by the channels, the autoresponder and the email
+    let notificationData: Promise<SubmissionEmailData> | undefined;
+    const getNotificationData = (): Promise<SubmissionEmailData> =>
+      (notificationData ??= (async () => ({
+        id: submissionId,
+        formId: formId,
+        formName: form.name,
+        data: submissionData,
+        fields: await listFieldNames(db, formId),
+        createdAt: createdAt,
+        attachments: [...fileReferences.values()].map((file) => ({
+          name: file.name,
+          size: file.size,
+          url: `${origin}${getFileUrl(formId, file.id)}`,
+        })),
+      }))());
+
+    // Post to the form's Slack, Discord and Teams channels alongside the email
+    context.cloudflare.ctx.waitUntil(
+      (async () => {
+        await notifyChannels(
+          db,
+          formId,
+          await getNotificationData(),
+          `${origin}/forms/${formId}/submissions/${submissionId}`
+        );
+      })().catch((error) => {
+        console.error("Failed to notify channels:", error);
+      })
+    );
+
+    // Confirm receipt to the submitter, if the form has an autoresponder
+    context.cloudflare.ctx.waitUntil(
+      (async () => {
+        await sendAutoresponder(db, await getNotificationData(), context.cloudflare.env);
+      })().catch((error) => {
+        console.error("Failed to send autoresponder:", error);
+      })
+    );
+
+    // Send email notification asynchronously (don't await to avoid blocking response)
+    // This runs in the background after the response is sent
+    context.cloudflare.ctx.waitUntil(
+      (async () => {
+        try {
+          // Fetch form settings
+          const formSettings = await db
+            .prepare(
+              `SELECT ${EMAIL_SETTINGS_COLUMNS},
+                      notification_to, notification_cc, notification_bcc, notification_routes,
+                      notification_from_name, notification_from_email, notification_reply_to_field
+               FROM form_settings WHERE form_id = ?`
+            )
+            .bind(formId)
+            .first<EmailSettings & RecipientSettings & SenderSettings>();
+
+          // Check if email notifications are configured
+          const emailConfig = getEmailConfig(formSettings, context.cloudflare.env);
+          if (formSettings && emailConfig) {
+
+            // Render the form's own templates, falling back to the built-in email
+            const message = renderSubmissionEmail(
+              await getNotificationData(),
+              await getNotificationTemplates(db, formId)
+            );
+
+            // Routing rules pick recipients, and Reply-To the submitter, from what was submitted
+            const recipients = resolveRecipients(formSettings, submissionData);
+            const sender = resolveSender(formSettings, submissionData);
+
+            await sendSubmissionNotification(emailConfig, recipients, message, sender);
+          }
+        } catch (error) {
+          // Log error but don't fail the request
+          console.error("Failed to send email notification:", error);
+        }
+      })()
+    );
+
+    return successResponse(request, isJsonRequest, submissionId, corsHeaders, redirectSettings);
+  } catch (error) {
+    console.error("Error processing form submission:", error);
+
+    if (isJsonRequest) {
+      return data(
+        { success: false, error: "Failed to process submission" },
+        { status: 500, headers: corsHeaders }
+      );
+    } else {
+      return redirect(getErrorRedirect("internal_error", redirectSettings));
+    }
+  }
+}
+
+// Accepted submissions, including dropped and spam ones, all look the same to the sender
+function successResponse(
+  request: Request,
+  isJsonRequest: boolean,
+  submissionId: string,
+  corsHeaders: Record<string, string>,
+  redirectSettings: RedirectSettings | null
+) {
+  if (isJsonRequest) {
+    // Return JSON response
+    return data(
+      { success: true, id: submissionId },
+      { status: 201, headers: corsHeaders }
+    );
+  }
+
+  // Handle redirect for HTML form submissions, only ever to allowlisted hosts
+  return redirect(getSuccessRedirect(request, redirectSettings), 303);
+}
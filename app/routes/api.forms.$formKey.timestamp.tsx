@@ -0,0 +1,55 @@
+import type { Route } from "./+types/api.forms.$formKey.timestamp";
+import { data } from "react-router";
+import { findFormByPublicKey } from "~/lib/forms.server";
+import { getSpamSettings, signTimestamp, TIMESTAMP_FIELD } from "~/lib/spam.server";
+
+// Fetched cross-origin by the page embedding the form
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Accept",
+  "Access-Control-Max-Age": "86400",
+};
+
+// Issues a signed render timestamp for the minimum time-to-submit check
+export async function loader({ request, params, context }: Route.LoaderArgs) {
+  if (request.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  const db = context.cloudflare.env.DB;
+  const form = await findFormByPublicKey(db, params.formKey);
+
+  if (!form || form.archived_at) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  const settings = await getSpamSettings(db, form.id);
+
+  if (!settings?.spam_min_submit_seconds || !settings.spam_timestamp_secret) {
+    return data(
+      { success: false, error: "Minimum submit time is not enabled for this form" },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  return data(
+    {
+      success: true,
+      field: TIMESTAMP_FIELD,
+      value: await signTimestamp(settings.spam_timestamp_secret),
+    },
+    {
+      headers: {
+        ...corsHeaders,
+        "Cache-Control": "no-store",
+      },
+    }
+  );
+}
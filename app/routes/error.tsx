@@ -1,10 +1,43 @@
 import type { Route } from "./+types/error";
+import { getSignedFieldErrors } from "~/lib/redirects.server";
 
 const errorMessages = {
   form_not_found: {
     title: "Form Not Found",
     description: "The form you're trying to submit to doesn't exist. Please check the form URL and try again.",
   },
+  form_archived: {
+    title: "Form Closed",
+    description: "This form is no longer accepting submissions. Please contact the site owner if you need to get in touch.",
+  },
+  captcha_failed: {
+    title: "Verification Failed",
+    description: "We couldn't verify that you're human. Please go back, complete the challenge and submit the form again.",
+  },
+  origin_not_allowed: {
+    title: "Submission Not Allowed",
+    description: "This form doesn't accept submissions from the page you sent it from. Please contact the site owner.",
+  },
+  file_too_large: {
+    title: "File Too Large",
+    description: "One of the files you attached is larger than this form allows. Please go back and choose a smaller file.",
+  },
+  too_many_files: {
+    title: "Too Many Files",
+    description: "You attached more files than this form allows. Please go back and remove some of them.",
+  },
+  file_type_not_allowed: {
+    title: "File Type Not Allowed",
+    description: "One of the files you attached is a type this form doesn't accept. Please go back and choose a different file.",
+  },
+  validation_failed: {
+    title: "Check Your Answers",
+    description: "Some of the fields you filled in aren't valid. Please go back, correct them and submit the form again.",
+  },
+  rate_limited: {
+    title: "Too Many Submissions",
+    description: "This form has received too many submissions in a short time. Please wait a while and try again.",
+  },
   internal_error: {
     title: "Something Went Wrong",
     description: "We encountered an error while processing your submission. Please try again later.",
@@ -22,19 +55,22 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
-export function loader({ request }: Route.LoaderArgs) {
+export async function loader({ request, context }: Route.LoaderArgs) {
   const url = new URL(request.url);
-  const errorType = url.searchParams.get("error") as keyof typeof errorMessages | null;
+  const errorType = url.searchParams.get("error");
 
-  const errorData = errorType && errorMessages[errorType]
-    ? errorMessages[errorType]
+  const errorData = errorType && Object.hasOwn(errorMessages, errorType)
+    ? errorMessages[errorType as keyof typeof errorMessages]
     : errorMessages.internal_error;
 
-  return { errorData };
+  // Validation failures list a message per field as errors[field]=message, shown only when FormZero signed them
+  const fieldErrors = await getSignedFieldErrors(url, context.cloudflare.env.BETTER_AUTH_SECRET);
+
+  return { errorData, fieldErrors };
 }
 
 export default function Error({ loaderData }: Route.ComponentProps) {
-  const { errorData } = loaderData;
+  const { errorData, fieldErrors } = loaderData;
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -62,6 +98,15 @@ export default function Error({ loaderData }: Route.ComponentProps) {
           <p className="text-gray-600">
             {errorData.description}
           </p>
+          {fieldErrors.length > 0 && (
+            <ul className="mt-4 text-left text-sm text-gray-600 space-y-1">
+              {fieldErrors.map(({ field, message }) => (
+                <li key={field}>
+                  <span className="font-medium text-gray-900">{field}</span>: {message}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
     </div>
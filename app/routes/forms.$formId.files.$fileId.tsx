@@ -0,0 +1,36 @@
+import type { Route } from "./+types/forms.$formId.files.$fileId"
+import { redirect } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { getSubmissionFile } from "~/lib/uploads.server"
+
+// Streams an uploaded file from R2 to signed-in users
+export async function loader({ params, context, request }: Route.LoaderArgs) {
+  const { formId, fileId } = params
+  const { DB: db, UPLOADS: bucket } = context.cloudflare.env
+
+  // Resource routes skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return redirect("/login")
+  }
+
+  const file = await getSubmissionFile(db, formId, fileId)
+  const object = file ? await bucket.get(file.r2_key) : null
+  if (!file || !object) {
+    return new Response("File not found", { status: 404 })
+  }
+
+  // Always download rather than render, so uploaded HTML or SVG can't run on our origin
+  return new Response(object.body, {
+    headers: {
+      "Content-Type": file.type,
+      "Content-Length": String(object.size),
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, no-store",
+    },
+  })
+}
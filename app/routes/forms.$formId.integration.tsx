@@ -1,11 +1,12 @@
 import { useState } from "react"
-import { useParams } from "react-router"
+import { data, Link, useLoaderData } from "react-router"
 import type { Route } from "./+types/forms.$formId.integration"
 import { Copy, Check } from "lucide-react"
 import { Highlight, themes } from "prism-react-renderer"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs"
 import { Button } from "~/components/ui/button"
+import type { FormPublicKey } from "#/types/form"
 
 export const meta: Route.MetaFunction = () => {
   return [
@@ -14,16 +15,57 @@ export const meta: Route.MetaFunction = () => {
   ];
 };
 
+export async function loader({ params, context }: Route.LoaderArgs) {
+  const db = context.cloudflare.env.DB
+
+  const form = await db
+    .prepare("SELECT id, public_key, previous_public_key, previous_public_key_expires_at FROM forms WHERE id = ?")
+    .bind(params.formId)
+    .first<{ id: string } & FormPublicKey>()
+
+  if (!form) {
+    throw data("Form not found", { status: 404 })
+  }
+
+  const captcha = await db
+    .prepare("SELECT captcha_provider, captcha_site_key FROM form_settings WHERE form_id = ? AND captcha_provider IS NOT NULL")
+    .bind(params.formId)
+    .first<{ captcha_provider: string; captcha_site_key: string }>()
+
+  return { form, captcha }
+}
+
+// Script, container class and token field for each CAPTCHA widget
+const captchaWidgets: Record<string, { script: string; className: string; tokenField: string }> = {
+  turnstile: {
+    script: "https://challenges.cloudflare.com/turnstile/v0/api.js",
+    className: "cf-turnstile",
+    tokenField: "cf-turnstile-response",
+  },
+  hcaptcha: {
+    script: "https://js.hcaptcha.com/1/api.js",
+    className: "h-captcha",
+    tokenField: "h-captcha-response",
+  },
+  recaptcha: {
+    script: "https://www.google.com/recaptcha/api.js",
+    className: "g-recaptcha",
+    tokenField: "g-recaptcha-response",
+  },
+}
+
 export default function IntegrationPage() {
-  const params = useParams()
-  const formId = params.formId
+  const { form, captcha } = useLoaderData<typeof loader>()
   const [copiedEndpoint, setCopiedEndpoint] = useState(false)
   const [copiedCode, setCopiedCode] = useState(false)
 
   // Use browser location to construct endpoint
   const formEndpoint = typeof window !== "undefined"
-    ? `${window.location.origin}/api/forms/${formId}/submissions`
-    : `/api/forms/${formId}/submissions`
+    ? `${window.location.origin}/api/forms/${form.public_key}/submissions`
+    : `/api/forms/${form.public_key}/submissions`
+
+  const previousKeyActive = !!form.previous_public_key &&
+    (form.previous_public_key_expires_at === null || form.previous_public_key_expires_at > Date.now())
 
   const handleCopyEndpoint = async () => {
     await navigator.clipboard.writeText(formEndpoint)
@@ -37,11 +79,16 @@ export default function IntegrationPage() {
     setTimeout(() => setCopiedCode(false), 2000)
   }
 
-  const htmlExample = `<form action="${formEndpoint}" method="POST">
+  // The widget renders a hidden input holding its token inside the form
+  const widget = captcha ? captchaWidgets[captcha.captcha_provider] : null
+  const widgetScript = widget ? `<script src="${widget.script}" async defer></script>\n` : ""
+  const widgetHtml = widget ? `  <div class="${widget.className}" data-sitekey="${captcha!.captcha_site_key}"></div>\n` : ""
+
+  const htmlExample = `${widgetScript}<form action="${formEndpoint}" method="POST">
   <input type="text" name="name" placeholder="Your Name" required />
   <input type="email" name="email" placeholder="Your Email" required />
   <textarea name="message" placeholder="Your Message"></textarea>
-  <button type="submit">Submit</button>
+${widgetHtml}  <button type="submit">Submit</button>
 </form>`
 
   const jsExample = `fetch('${formEndpoint}', {
@@ -50,7 +97,9 @@ export default function IntegrationPage() {
   body: JSON.stringify({
     name: 'John Doe',
     email: 'john@example.com',
-    message: 'Hello!'
+    message: 'Hello!'${widget ? `,
+    // Token from the ${widget.className} widget on the page
+    '${widget.tokenField}': document.querySelector('[name="${widget.tokenField}"]').value` : ""}
   })
 })
   .then(response => response.json())
@@ -75,7 +124,10 @@ function ContactForm() {
       const response = await fetch('${formEndpoint}', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData)
+        body: JSON.stringify(${widget ? `{
+          ...formData,
+          '${widget.tokenField}': e.target.elements['${widget.tokenField}'].value
+        }` : "formData"})
       })
 
       if (response.ok) {
@@ -109,7 +161,9 @@ function ContactForm() {
         placeholder="Your Message"
         value={formData.message}
         onChange={(e) => setFormData({ ...formData, message: e.target.value })}
-      />
+      />${widget ? `
+      {/* Load ${widget.script} once in your page's <head> */}
+      <div className="${widget.className}" data-sitekey="${captcha!.captcha_site_key}" />` : ""}
       <button type="submit" disabled={status === 'sending'}>
         {status === 'sending' ? 'Sending...' : 'Submit'}
       </button>
@@ -152,6 +206,15 @@ function ContactForm() {
               )}
             </Button>
           </div>
+          {previousKeyActive && (
+            <p className="mt-3 text-sm text-muted-foreground">
+              The previous endpoint <code className="rounded bg-muted px-1 py-0.5 text-xs break-all">/api/forms/{form.previous_public_key}/submissions</code>{" "}
+              {form.previous_public_key_expires_at
+                ? `keeps working until ${new Date(form.previous_public_key_expires_at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}.`
+                : "keeps working until the key is rotated."}{" "}
+              Manage keys in <Link to={`/forms/${form.id}/settings`} className="underline underline-offset-4">Settings</Link>.
+            </p>
+          )}
         </CardContent>
       </Card>
 
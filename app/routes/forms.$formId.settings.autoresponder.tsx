@@ -0,0 +1,103 @@
+import type { Route } from "./+types/forms.$formId.settings.autoresponder"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { parseTemplate } from "~/lib/templates.server"
+
+// Keeps templates to the size of an email someone would actually write
+const MAX_SUBJECT_LENGTH = 200
+const MAX_BODY_LENGTH = 10000
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const enabled = formData.get("autoresponder_enabled") === "1"
+  const field = ((formData.get("autoresponder_field") as string | null) || "").trim()
+  const subject = ((formData.get("autoresponder_subject") as string | null) || "").trim()
+  const body = ((formData.get("autoresponder_body") as string | null) || "").replace(/\r\n/g, "\n").trim()
+
+  if (subject.length > MAX_SUBJECT_LENGTH) {
+    return data(
+      { success: false, error: `Subject must be at most ${MAX_SUBJECT_LENGTH} characters` },
+      { status: 400 }
+    )
+  }
+
+  if (body.length > MAX_BODY_LENGTH) {
+    return data(
+      { success: false, error: `Message must be at most ${MAX_BODY_LENGTH} characters` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    parseTemplate(subject)
+    parseTemplate(body)
+  } catch (error) {
+    return data(
+      { success: false, error: (error as Error).message },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          autoresponder_enabled,
+          autoresponder_field,
+          autoresponder_subject,
+          autoresponder_body,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          autoresponder_enabled = excluded.autoresponder_enabled,
+          autoresponder_field = excluded.autoresponder_field,
+          autoresponder_subject = excluded.autoresponder_subject,
+          autoresponder_body = excluded.autoresponder_body,
+          updated_at = excluded.updated_at
+      `)
+      .bind(crypto.randomUUID(), formId, enabled ? 1 : 0, field || null, subject || null, body || null, Date.now())
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving autoresponder settings:", error)
+    return data(
+      { success: false, error: "Failed to save autoresponder settings" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import type { Route } from "./+types/forms.$formId.settings.captcha"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { CAPTCHA_PROVIDERS } from "~/lib/captcha.server"
+import type { CaptchaProvider } from "~/lib/captcha.server"
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const provider = (formData.get("captcha_provider") as string | null) || null
+  const siteKey = (formData.get("captcha_site_key") as string | null)?.trim() || null
+  const secretKey = (formData.get("captcha_secret_key") as string | null)?.trim() || null
+
+  if (provider && !CAPTCHA_PROVIDERS.includes(provider as CaptchaProvider)) {
+    return data(
+      { success: false, error: "Unknown CAPTCHA provider" },
+      { status: 400 }
+    )
+  }
+
+  const existing = await db
+    .prepare("SELECT captcha_provider, captcha_secret_key FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<{ captcha_provider: string | null; captcha_secret_key: string | null }>()
+
+  // The secret is never sent back to the browser, so an empty field keeps the stored
+  // one as long as the provider hasn't changed
+  const storedSecret = existing?.captcha_provider === provider ? existing.captcha_secret_key : null
+  const secret = secretKey ?? storedSecret
+
+  if (provider && (!siteKey || !secret)) {
+    return data(
+      { success: false, error: "Site key and secret key are required" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          captcha_provider,
+          captcha_site_key,
+          captcha_secret_key,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          captcha_provider = excluded.captcha_provider,
+          captcha_site_key = excluded.captcha_site_key,
+          captcha_secret_key = excluded.captcha_secret_key,
+          updated_at = excluded.updated_at
+      `)
+      .bind(
+        crypto.randomUUID(),
+        formId,
+        provider,
+        provider ? siteKey : null,
+        provider ? secret : null,
+        Date.now()
+      )
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving CAPTCHA settings:", error)
+    return data(
+      { success: false, error: "Failed to save CAPTCHA settings" },
+      { status: 500 }
+    )
+  }
+}
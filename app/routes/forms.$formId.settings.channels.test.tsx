@@ -0,0 +1,90 @@
+import type { Route } from "./+types/forms.$formId.settings.channels.test"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { CHANNEL_TYPES, parseChannelWebhookUrl, sendTestChannelMessage } from "~/lib/channels.server"
+import type { ChannelType } from "#/types/channel"
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id, name FROM forms WHERE id = ?")
+    .bind(formId)
+    .first<{ id: string; name: string }>()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const channelId = formData.get("channel_id") as string | null
+  let type: ChannelType
+  let webhookUrl: string
+
+  // Test a saved channel, or a URL before it's added
+  if (channelId) {
+    const channel = await db
+      .prepare("SELECT type, webhook_url FROM notification_channels WHERE id = ? AND form_id = ?")
+      .bind(channelId, formId)
+      .first<{ type: ChannelType; webhook_url: string }>()
+
+    if (!channel) {
+      return data(
+        { success: false, error: "Channel not found" },
+        { status: 404 }
+      )
+    }
+
+    type = channel.type
+    webhookUrl = channel.webhook_url
+  } else {
+    type = formData.get("type") as ChannelType
+    if (!CHANNEL_TYPES.includes(type)) {
+      return data(
+        { success: false, error: "Choose an app to notify" },
+        { status: 400 }
+      )
+    }
+
+    try {
+      webhookUrl = parseChannelWebhookUrl(type, ((formData.get("webhook_url") as string | null) || "").trim()).toString()
+    } catch (error) {
+      return data(
+        { success: false, error: (error as Error).message },
+        { status: 400 }
+      )
+    }
+  }
+
+  const result = await sendTestChannelMessage(type, webhookUrl, form.name)
+
+  if (result.success) {
+    return data({ success: true }, { status: 200 })
+  } else {
+    return data(
+      { success: false, error: result.error },
+      { status: 400 }
+    )
+  }
+}
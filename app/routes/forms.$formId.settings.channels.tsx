@@ -0,0 +1,116 @@
+import type { Route } from "./+types/forms.$formId.settings.channels"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { CHANNEL_TYPES, parseChannelWebhookUrl } from "~/lib/channels.server"
+import type { ChannelType } from "#/types/channel"
+
+// Keeps a form's fan-out per submission small
+const MAX_CHANNELS = 10
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const intent = formData.get("intent")
+  const channelId = formData.get("channel_id") as string | null
+
+  try {
+    switch (intent) {
+      case "create": {
+        const type = formData.get("type") as ChannelType | null
+        const name = ((formData.get("name") as string | null) || "").trim()
+
+        if (!type || !CHANNEL_TYPES.includes(type)) {
+          return data(
+            { success: false, error: "Choose an app to notify" },
+            { status: 400 }
+          )
+        }
+
+        let url: URL
+        try {
+          url = parseChannelWebhookUrl(type, ((formData.get("webhook_url") as string | null) || "").trim())
+        } catch (error) {
+          return data(
+            { success: false, error: (error as Error).message },
+            { status: 400 }
+          )
+        }
+
+        const count = await db
+          .prepare("SELECT COUNT(*) AS count FROM notification_channels WHERE form_id = ?")
+          .bind(formId)
+          .first<number>("count")
+
+        if ((count ?? 0) >= MAX_CHANNELS) {
+          return data(
+            { success: false, error: `A form can have at most ${MAX_CHANNELS} channels` },
+            { status: 400 }
+          )
+        }
+
+        await db
+          .prepare("INSERT INTO notification_channels (id, form_id, type, name, webhook_url, enabled, created_at) VALUES (?, ?, ?, ?, ?, 1, ?)")
+          .bind(crypto.randomUUID(), formId, type, name || url.host, url.toString(), Date.now())
+          .run()
+        break
+      }
+      case "enable":
+      case "disable":
+        await db
+          .prepare("UPDATE notification_channels SET enabled = ? WHERE id = ? AND form_id = ?")
+          .bind(intent === "enable" ? 1 : 0, channelId, formId)
+          .run()
+        break
+      case "delete":
+        await db
+          .prepare("DELETE FROM notification_channels WHERE id = ? AND form_id = ?")
+          .bind(channelId, formId)
+          .run()
+        break
+      default:
+        return data(
+          { success: false, error: "Unknown action" },
+          { status: 400 }
+        )
+    }
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error updating notification channels:", error)
+    return data(
+      { success: false, error: "Failed to update notification channels" },
+      { status: 500 }
+    )
+  }
+}
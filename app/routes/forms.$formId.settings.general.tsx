@@ -0,0 +1,140 @@
+import type { Route } from "./+types/forms.$formId.settings.general"
+import { data, redirect } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { rotatePublicKey } from "~/lib/forms.server"
+
+// How long a rotated-out public key keeps accepting submissions
+const KEY_GRACE_DAYS = [0, 1, 7, 30]
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id, name FROM forms WHERE id = ?")
+    .bind(formId)
+    .first<{ id: string; name: string }>()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+
+  // Handle DELETE request - remove the form and everything attached to it
+  if (request.method === "DELETE") {
+    const confirmName = formData.get("confirm_name") as string
+
+    if (confirmName !== form.name) {
+      return data(
+        { success: false, error: "Type the form name exactly to confirm" },
+        { status: 400 }
+      )
+    }
+
+    try {
+      // Delete children explicitly rather than relying on foreign key enforcement
+      await db.batch([
+        db.prepare("DELETE FROM submissions WHERE form_id = ?").bind(formId),
+        db.prepare("DELETE FROM form_settings WHERE form_id = ?").bind(formId),
+        db.prepare("DELETE FROM webhook_deliveries WHERE form_id = ?").bind(formId),
+        db.prepare("DELETE FROM webhooks WHERE form_id = ?").bind(formId),
+        db.prepare("DELETE FROM notification_channels WHERE form_id = ?").bind(formId),
+        // A new form can be given this ID, and shouldn't inherit these columns
+        db.prepare("DELETE FROM form_fields WHERE form_id = ?").bind(formId),
+        db.prepare("DELETE FROM field_catalogs WHERE form_id = ?").bind(formId),
+        db.prepare("DELETE FROM forms WHERE id = ?").bind(formId),
+      ])
+
+      return redirect("/forms")
+    } catch (error) {
+      console.error("Error deleting form:", error)
+      return data(
+        { success: false, error: "Failed to delete form" },
+        { status: 500 }
+      )
+    }
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  const intent = formData.get("intent")
+  const updatedAt = Date.now()
+
+  try {
+    switch (intent) {
+      case "rename": {
+        const name = (formData.get("name") as string | null)?.trim()
+
+        if (!name) {
+          return data(
+            { success: false, error: "Form name is required" },
+            { status: 400 }
+          )
+        }
+
+        await db
+          .prepare("UPDATE forms SET name = ?, updated_at = ? WHERE id = ?")
+          .bind(name, updatedAt, formId)
+          .run()
+        break
+      }
+      case "archive":
+        await db
+          .prepare("UPDATE forms SET archived_at = ?, updated_at = ? WHERE id = ?")
+          .bind(updatedAt, updatedAt, formId)
+          .run()
+        break
+      case "unarchive":
+        await db
+          .prepare("UPDATE forms SET archived_at = NULL, updated_at = ? WHERE id = ?")
+          .bind(updatedAt, formId)
+          .run()
+        break
+      case "rotate-key": {
+        const graceDays = parseInt(formData.get("grace_days") as string, 10)
+
+        if (!KEY_GRACE_DAYS.includes(graceDays)) {
+          return data(
+            { success: false, error: "Invalid grace period" },
+            { status: 400 }
+          )
+        }
+
+        await rotatePublicKey(db, formId, graceDays * 24 * 60 * 60 * 1000, updatedAt)
+        break
+      }
+      default:
+        return data(
+          { success: false, error: "Unknown action" },
+          { status: 400 }
+        )
+    }
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error updating form:", error)
+    return data(
+      { success: false, error: "Failed to update form" },
+      { status: 500 }
+    )
+  }
+}
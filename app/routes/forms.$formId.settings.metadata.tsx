@@ -0,0 +1,86 @@
+import type { Route } from "./+types/forms.$formId.settings.metadata"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { generateIpSalt, IP_MODES } from "~/lib/metadata.server"
+import type { IpMode } from "~/lib/metadata.server"
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const capture = formData.get("metadata_capture") === "1"
+  const ipMode = (formData.get("metadata_ip_mode") as IpMode | null) || "hash"
+
+  if (!IP_MODES.includes(ipMode)) {
+    return data(
+      { success: false, error: "Invalid IP address mode" },
+      { status: 400 }
+    )
+  }
+
+  // Keep the existing salt so hashes stay comparable across saves
+  const existing = await db
+    .prepare("SELECT metadata_ip_salt FROM form_settings WHERE form_id = ?")
+    .bind(formId)
+    .first<{ metadata_ip_salt: string | null }>()
+  const salt = existing?.metadata_ip_salt || generateIpSalt()
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          metadata_capture,
+          metadata_ip_mode,
+          metadata_ip_salt,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          metadata_capture = excluded.metadata_capture,
+          metadata_ip_mode = excluded.metadata_ip_mode,
+          metadata_ip_salt = excluded.metadata_ip_salt,
+          updated_at = excluded.updated_at
+      `)
+      .bind(crypto.randomUUID(), formId, capture ? 1 : 0, ipMode, salt, Date.now())
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving metadata settings:", error)
+    return data(
+      { success: false, error: "Failed to save metadata settings" },
+      { status: 500 }
+    )
+  }
+}
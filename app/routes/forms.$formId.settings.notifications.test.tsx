@@ -1,8 +1,19 @@
 import type { Route } from "./+types/forms.$formId.settings.notifications.test"
 import { data } from "react-router"
-import { sendTestEmail } from "~/lib/email.server"
+import { getAuth } from "~/lib/auth.server"
+import { EMAIL_SETTINGS_COLUMNS, getEmailConfig, readEmailSettings, sendTestEmail } from "~/lib/email.server"
+import type { EmailSettings } from "~/lib/email.server"
 
 export async function action({ request, params, context }: Route.ActionArgs) {
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: context.cloudflare.env.DB })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
   if (request.method !== "POST") {
     return data(
       { success: false, error: "Method not allowed" },
@@ -29,26 +40,34 @@ export async function action({ request, params, context }: Route.ActionArgs) {
 
     // Parse form data
     const formData = await request.formData()
-    const notification_email = formData.get("notification_email") as string
-    const notification_email_password = formData.get("notification_email_password") as string
-    const smtp_host = formData.get("smtp_host") as string
-    const smtp_port = formData.get("smtp_port") as string
 
-    // Validate required fields
-    if (!notification_email || !notification_email_password || !smtp_host || !smtp_port) {
+    // Without a new password or API key, test with the saved one, but only where it applies
+    const saved = await db
+      .prepare(`SELECT ${EMAIL_SETTINGS_COLUMNS} FROM form_settings WHERE form_id = ?`)
+      .bind(formId)
+      .first<EmailSettings>()
+
+    let settings
+    try {
+      settings = await readEmailSettings(formData, saved, context.cloudflare.env.SMTP_ENCRYPTION_KEY)
+    } catch (error) {
       return data(
-        { success: false, error: "Missing required fields" },
+        { success: false, error: (error as Error).message },
         { status: 400 }
       )
     }
 
+    // Settings that passed readEmailSettings only lack the binding
+    const config = getEmailConfig(settings, context.cloudflare.env)
+    if (!config) {
+      return data(
+        { success: false, error: "Add a send_email binding named EMAIL to wrangler.jsonc to send with Cloudflare" },
+        { status: 500 }
+      )
+    }
+
     // Send test email using the email service
-    const result = await sendTestEmail({
-      notification_email,
-      notification_email_password,
-      smtp_host,
-      smtp_port: parseInt(smtp_port, 10),
-    })
+    const result = await sendTestEmail(config)
 
     if (result.success) {
       return data(
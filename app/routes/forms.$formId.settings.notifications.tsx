@@ -1,10 +1,22 @@
 import type { Route } from "./+types/forms.$formId.settings.notifications"
 import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { EMAIL_SETTINGS_COLUMNS, readEmailSettings } from "~/lib/email.server"
+import type { EmailSettings } from "~/lib/email.server"
 
 export async function action({ request, params, context }: Route.ActionArgs) {
   const { formId } = params
   const db = context.cloudflare.env.DB
 
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
   // Check if form exists
   const form = await db
     .prepare("SELECT id FROM forms WHERE id = ?")
@@ -18,12 +30,28 @@ export async function action({ request, params, context }: Route.ActionArgs) {
     )
   }
 
-  // Handle DELETE request - clear settings
+  // Handle DELETE request - clear notification settings, keeping the form's other settings
   if (request.method === "DELETE") {
     try {
       await db
-        .prepare("DELETE FROM form_settings WHERE form_id = ?")
-        .bind(formId)
+        .prepare(`
+          UPDATE form_settings
+          SET notification_email = NULL,
+              notification_email_password = NULL,
+              smtp_password_encrypted = NULL,
+              smtp_host = NULL,
+              smtp_port = NULL,
+              smtp_tls_mode = NULL,
+              smtp_auth = 1,
+              smtp_ehlo_name = NULL,
+              email_provider = NULL,
+              email_api_key_encrypted = NULL,
+              email_api_domain = NULL,
+              email_api_region = NULL,
+              updated_at = ?
+          WHERE form_id = ?
+        `)
+        .bind(Date.now(), formId)
         .run()
 
       return data({ success: true }, { status: 200 })
@@ -48,76 +76,76 @@ export async function action({ request, params, context }: Route.ActionArgs) {
 
     // Parse form data
     const formData = await request.formData()
-    const notification_email = formData.get("notification_email") as string
-    const notification_email_password = formData.get("notification_email_password") as string
-    const smtp_host = formData.get("smtp_host") as string
-    const smtp_port = formData.get("smtp_port") as string
 
-    // Validate required fields
-    if (!notification_email || !notification_email_password || !smtp_host || !smtp_port) {
+    const saved = await db
+      .prepare(`SELECT ${EMAIL_SETTINGS_COLUMNS} FROM form_settings WHERE form_id = ?`)
+      .bind(formId)
+      .first<EmailSettings>()
+
+    let settings
+    try {
+      settings = await readEmailSettings(formData, saved, context.cloudflare.env.SMTP_ENCRYPTION_KEY)
+    } catch (error) {
       return data(
-        { success: false, error: "Missing required fields" },
+        { success: false, error: (error as Error).message },
         { status: 400 }
       )
     }
 
-    // Check if settings already exist for this form
-    const existingSettings = await db
-      .prepare("SELECT id FROM form_settings WHERE form_id = ?")
-      .bind(formId)
-      .first()
-
-    const updatedAt = Date.now()
-
-    if (existingSettings) {
-      // Update existing settings
-      await db
-        .prepare(`
-          UPDATE form_settings
-          SET notification_email = ?,
-              notification_email_password = ?,
-              smtp_host = ?,
-              smtp_port = ?,
-              smtp_secure = 1,
-              updated_at = ?
-          WHERE form_id = ?
-        `)
-        .bind(
-          notification_email,
-          notification_email_password,
-          smtp_host,
-          parseInt(smtp_port, 10),
-          updatedAt,
-          formId
-        )
-        .run()
-    } else {
-      // Create new settings
-      const settingsId = crypto.randomUUID()
-      await db
-        .prepare(`
-          INSERT INTO form_settings (
-            id,
-            form_id,
-            notification_email,
-            notification_email_password,
-            smtp_host,
-            smtp_port,
-            smtp_secure,
-            updated_at
-          ) VALUES (?, ?, ?, ?, ?, ?, 1, ?)
-        `)
-        .bind(
-          settingsId,
-          formId,
+    // Saving one provider clears the others' settings, secrets included
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
           notification_email,
-          notification_email_password,
+          email_provider,
+          smtp_password_encrypted,
           smtp_host,
-          parseInt(smtp_port, 10),
-          updatedAt
-        )
-        .run()
-    }
+          smtp_port,
+          smtp_secure,
+          smtp_tls_mode,
+          smtp_auth,
+          smtp_ehlo_name,
+          email_api_key_encrypted,
+          email_api_domain,
+          email_api_region,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          notification_email = excluded.notification_email,
+          notification_email_password = NULL,
+          email_provider = excluded.email_provider,
+          smtp_password_encrypted = excluded.smtp_password_encrypted,
+          smtp_host = excluded.smtp_host,
+          smtp_port = excluded.smtp_port,
+          smtp_secure = excluded.smtp_secure,
+          smtp_tls_mode = excluded.smtp_tls_mode,
+          smtp_auth = excluded.smtp_auth,
+          smtp_ehlo_name = excluded.smtp_ehlo_name,
+          email_api_key_encrypted = excluded.email_api_key_encrypted,
+          email_api_domain = excluded.email_api_domain,
+          email_api_region = excluded.email_api_region,
+          updated_at = excluded.updated_at
+      `)
+      .bind(
+        crypto.randomUUID(),
+        formId,
+        settings.notification_email,
+        settings.email_provider,
+        settings.smtp_password_encrypted,
+        settings.smtp_host,
+        settings.smtp_port,
+        settings.smtp_tls_mode === "none" ? 0 : 1,
+        settings.smtp_tls_mode,
+        settings.smtp_auth,
+        settings.smtp_ehlo_name,
+        settings.email_api_key_encrypted,
+        settings.email_api_domain,
+        settings.email_api_region,
+        Date.now()
+      )
+      .run()
 
     return data({ success: true }, { status: 200 })
   } catch (error) {
@@ -0,0 +1,88 @@
+import type { Route } from "./+types/forms.$formId.settings.origins"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { ORIGIN_MODES, parseAllowedOrigins } from "~/lib/origins.server"
+import type { OriginMode } from "~/lib/origins.server"
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const allowedOrigins = (formData.get("allowed_origins") as string | null)?.trim() || null
+  const mode = formData.get("origin_mode") as OriginMode
+
+  if (!ORIGIN_MODES.includes(mode)) {
+    return data(
+      { success: false, error: "Invalid mode" },
+      { status: 400 }
+    )
+  }
+
+  if (allowedOrigins) {
+    try {
+      parseAllowedOrigins(allowedOrigins)
+    } catch (error) {
+      return data(
+        { success: false, error: (error as Error).message },
+        { status: 400 }
+      )
+    }
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          allowed_origins,
+          origin_mode,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          allowed_origins = excluded.allowed_origins,
+          origin_mode = excluded.origin_mode,
+          updated_at = excluded.updated_at
+      `)
+      .bind(crypto.randomUUID(), formId, allowedOrigins, mode, Date.now())
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving allowed origins:", error)
+    return data(
+      { success: false, error: "Failed to save allowed origins" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import type { Route } from "./+types/forms.$formId.settings.parsing"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { FIELD_PARSING_MODES } from "~/lib/parsing.server"
+import type { FieldParsingMode } from "~/lib/parsing.server"
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const mode = formData.get("field_parsing") as FieldParsingMode
+
+  if (!FIELD_PARSING_MODES.includes(mode)) {
+    return data(
+      { success: false, error: "Invalid parsing mode" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          field_parsing,
+          updated_at
+        ) VALUES (?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          field_parsing = excluded.field_parsing,
+          updated_at = excluded.updated_at
+      `)
+      .bind(crypto.randomUUID(), formId, mode, Date.now())
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving parsing settings:", error)
+    return data(
+      { success: false, error: "Failed to save parsing settings" },
+      { status: 500 }
+    )
+  }
+}
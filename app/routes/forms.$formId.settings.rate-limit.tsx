@@ -0,0 +1,93 @@
+import type { Route } from "./+types/forms.$formId.settings.rate-limit"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { RATE_LIMIT_WINDOWS } from "~/lib/rate-limit.server"
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const windowSeconds = parseInt(formData.get("window_seconds") as string, 10)
+  const perForm = parseOptionalLimit(formData.get("per_form"))
+  const perIp = parseOptionalLimit(formData.get("per_ip"))
+
+  if (!RATE_LIMIT_WINDOWS.includes(windowSeconds)) {
+    return data(
+      { success: false, error: "Invalid time window" },
+      { status: 400 }
+    )
+  }
+
+  if (Number.isNaN(perForm) || Number.isNaN(perIp)) {
+    return data(
+      { success: false, error: "Limits must be whole numbers of at least 1" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          rate_limit_window_seconds,
+          rate_limit_per_form,
+          rate_limit_per_ip,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          rate_limit_window_seconds = excluded.rate_limit_window_seconds,
+          rate_limit_per_form = excluded.rate_limit_per_form,
+          rate_limit_per_ip = excluded.rate_limit_per_ip,
+          updated_at = excluded.updated_at
+      `)
+      .bind(crypto.randomUUID(), formId, windowSeconds, perForm, perIp, Date.now())
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving rate limit settings:", error)
+    return data(
+      { success: false, error: "Failed to save rate limit settings" },
+      { status: 500 }
+    )
+  }
+}
+
+// Empty means no limit; zero or anything unparsable comes back as NaN
+function parseOptionalLimit(value: FormDataEntryValue | null): number | null {
+  const text = typeof value === "string" ? value.trim() : ""
+  if (!text) return null
+  return /^[1-9]\d*$/.test(text) ? parseInt(text, 10) : NaN
+}
@@ -0,0 +1,106 @@
+import type { Route } from "./+types/forms.$formId.settings.recipients"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { parseNotificationRoutes, parseRecipientList } from "~/lib/recipients.server"
+
+const RECIPIENT_LISTS = [
+  { name: "notification_to", label: "To" },
+  { name: "notification_cc", label: "Cc" },
+  { name: "notification_bcc", label: "Bcc" },
+]
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const lists: (string | null)[] = []
+
+  for (const list of RECIPIENT_LISTS) {
+    try {
+      const addresses = parseRecipientList((formData.get(list.name) as string | null) || "")
+      lists.push(addresses.length > 0 ? addresses.join(", ") : null)
+    } catch (error) {
+      return data(
+        { success: false, error: `${list.label}: ${(error as Error).message}` },
+        { status: 400 }
+      )
+    }
+  }
+
+  let routes
+  try {
+    routes = parseNotificationRoutes(JSON.parse((formData.get("notification_routes") as string | null) || "[]"))
+  } catch (error) {
+    return data(
+      { success: false, error: error instanceof SyntaxError ? "Invalid routing rules" : (error as Error).message },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          notification_to,
+          notification_cc,
+          notification_bcc,
+          notification_routes,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          notification_to = excluded.notification_to,
+          notification_cc = excluded.notification_cc,
+          notification_bcc = excluded.notification_bcc,
+          notification_routes = excluded.notification_routes,
+          updated_at = excluded.updated_at
+      `)
+      .bind(
+        crypto.randomUUID(),
+        formId,
+        ...lists,
+        routes.length > 0 ? JSON.stringify(routes) : null,
+        Date.now()
+      )
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving notification recipients:", error)
+    return data(
+      { success: false, error: "Failed to save recipients" },
+      { status: 500 }
+    )
+  }
+}
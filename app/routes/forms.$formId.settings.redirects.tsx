@@ -0,0 +1,94 @@
+import type { Route } from "./+types/forms.$formId.settings.redirects"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { parseAllowedOrigins } from "~/lib/origins.server"
+import { parseRedirectUrl } from "~/lib/redirects.server"
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const successUrl = (formData.get("success_redirect_url") as string | null)?.trim() || null
+  const errorUrl = (formData.get("error_redirect_url") as string | null)?.trim() || null
+  const redirectHosts = (formData.get("redirect_hosts") as string | null)?.trim() || null
+
+  try {
+    if (successUrl) parseRedirectUrl(successUrl)
+    if (errorUrl) parseRedirectUrl(errorUrl)
+  } catch {
+    return data(
+      { success: false, error: "Redirect URLs must be full http:// or https:// URLs" },
+      { status: 400 }
+    )
+  }
+
+  if (redirectHosts) {
+    try {
+      parseAllowedOrigins(redirectHosts)
+    } catch {
+      return data(
+        { success: false, error: "Allowed redirect hosts contain an invalid entry" },
+        { status: 400 }
+      )
+    }
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          success_redirect_url,
+          error_redirect_url,
+          redirect_hosts,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          success_redirect_url = excluded.success_redirect_url,
+          error_redirect_url = excluded.error_redirect_url,
+          redirect_hosts = excluded.redirect_hosts,
+          updated_at = excluded.updated_at
+      `)
+      .bind(crypto.randomUUID(), formId, successUrl, errorUrl, redirectHosts, Date.now())
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving redirect settings:", error)
+    return data(
+      { success: false, error: "Failed to save redirect settings" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import type { Route } from "./+types/forms.$formId.settings.schema"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { parseFieldSchema } from "~/lib/schema.server"
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+
+  let schema
+  try {
+    schema = parseFieldSchema(JSON.parse((formData.get("field_schema") as string | null) || "[]"))
+  } catch (error) {
+    return data(
+      { success: false, error: error instanceof SyntaxError ? "Invalid schema" : (error as Error).message },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          field_schema,
+          updated_at
+        ) VALUES (?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          field_schema = excluded.field_schema,
+          updated_at = excluded.updated_at
+      `)
+      .bind(crypto.randomUUID(), formId, schema.length > 0 ? JSON.stringify(schema) : null, Date.now())
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving field schema:", error)
+    return data(
+      { success: false, error: "Failed to save validation rules" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import type { Route } from "./+types/forms.$formId.settings.sender"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { isEmailAddress, parseSenderName } from "~/lib/recipients.server"
+
+const MAX_FIELD_NAME_LENGTH = 200
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const fromEmail = ((formData.get("notification_from_email") as string | null) || "").trim()
+  const replyToField = ((formData.get("notification_reply_to_field") as string | null) || "").trim()
+
+  let fromName
+  try {
+    fromName = parseSenderName((formData.get("notification_from_name") as string | null) || "")
+  } catch (error) {
+    return data(
+      { success: false, error: (error as Error).message },
+      { status: 400 }
+    )
+  }
+
+  if (fromEmail && !isEmailAddress(fromEmail)) {
+    return data(
+      { success: false, error: "The From address must be a single email address" },
+      { status: 400 }
+    )
+  }
+
+  if (replyToField.length > MAX_FIELD_NAME_LENGTH || /\s/.test(replyToField)) {
+    return data(
+      { success: false, error: "The Reply-To field must be a field name, such as email" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          notification_from_name,
+          notification_from_email,
+          notification_reply_to_field,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          notification_from_name = excluded.notification_from_name,
+          notification_from_email = excluded.notification_from_email,
+          notification_reply_to_field = excluded.notification_reply_to_field,
+          updated_at = excluded.updated_at
+      `)
+      .bind(
+        crypto.randomUUID(),
+        formId,
+        fromName || null,
+        fromEmail || null,
+        replyToField || null,
+        Date.now()
+      )
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving notification sender:", error)
+    return data(
+      { success: false, error: "Failed to save sender settings" },
+      { status: 500 }
+    )
+  }
+}
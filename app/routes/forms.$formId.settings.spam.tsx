@@ -0,0 +1,128 @@
+import type { Route } from "./+types/forms.$formId.settings.spam"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { generateTimestampSecret, parseBlocklist, TIMESTAMP_FIELD } from "~/lib/spam.server"
+
+const MAX_MIN_SUBMIT_SECONDS = 3600
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const honeypotField = (formData.get("honeypot_field") as string | null)?.trim() || null
+  const minSubmitSeconds = parseOptionalInt(formData.get("min_submit_seconds"))
+  const maxLinks = parseOptionalInt(formData.get("max_links"))
+  const blocklist = (formData.get("blocklist") as string | null)?.trim() || null
+
+  if (honeypotField && (!/^[\w-]{1,64}$/.test(honeypotField) || honeypotField === TIMESTAMP_FIELD)) {
+    return data(
+      { success: false, error: "Honeypot field name may only contain letters, numbers, dashes and underscores" },
+      { status: 400 }
+    )
+  }
+
+  if (Number.isNaN(minSubmitSeconds) || (minSubmitSeconds !== null && (minSubmitSeconds < 0 || minSubmitSeconds > MAX_MIN_SUBMIT_SECONDS))) {
+    return data(
+      { success: false, error: `Minimum time to submit must be between 0 and ${MAX_MIN_SUBMIT_SECONDS} seconds` },
+      { status: 400 }
+    )
+  }
+
+  if (Number.isNaN(maxLinks) || (maxLinks !== null && maxLinks < 0)) {
+    return data(
+      { success: false, error: "Maximum links must be 0 or more" },
+      { status: 400 }
+    )
+  }
+
+  if (blocklist) {
+    try {
+      parseBlocklist(blocklist)
+    } catch {
+      return data(
+        { success: false, error: "Blocklist contains an invalid regular expression" },
+        { status: 400 }
+      )
+    }
+  }
+
+  try {
+    // The signing secret is created once and kept, so timestamps issued before a save stay valid
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          spam_honeypot_field,
+          spam_min_submit_seconds,
+          spam_timestamp_secret,
+          spam_blocklist,
+          spam_max_links,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          spam_honeypot_field = excluded.spam_honeypot_field,
+          spam_min_submit_seconds = excluded.spam_min_submit_seconds,
+          spam_timestamp_secret = COALESCE(form_settings.spam_timestamp_secret, excluded.spam_timestamp_secret),
+          spam_blocklist = excluded.spam_blocklist,
+          spam_max_links = excluded.spam_max_links,
+          updated_at = excluded.updated_at
+      `)
+      .bind(
+        crypto.randomUUID(),
+        formId,
+        honeypotField,
+        minSubmitSeconds || null,
+        generateTimestampSecret(),
+        blocklist,
+        maxLinks,
+        Date.now()
+      )
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving spam settings:", error)
+    return data(
+      { success: false, error: "Failed to save spam settings" },
+      { status: 500 }
+    )
+  }
+}
+
+// Empty means the filter is off; anything unparsable comes back as NaN
+function parseOptionalInt(value: FormDataEntryValue | null): number | null {
+  const text = typeof value === "string" ? value.trim() : ""
+  if (!text) return null
+  return /^\d+$/.test(text) ? parseInt(text, 10) : NaN
+}
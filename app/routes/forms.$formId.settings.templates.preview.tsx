@@ -0,0 +1,89 @@
+import type { Route } from "./+types/forms.$formId.settings.templates.preview"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { buildSubmissionEmail } from "~/lib/email.server"
+import { listFieldNames } from "~/lib/fields.server"
+import { getLatestSubmission } from "~/lib/submissions.server"
+import { createTemplateContext, renderTemplate } from "~/lib/templates.server"
+import type { SubmissionEmailData } from "#/types/submission"
+
+// Shown until the form has a submission of its own
+const EXAMPLE_DATA = {
+  name: "Jane Doe",
+  email: "jane@example.com",
+  message: "Hello! I'd like to know more about your product.",
+}
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  const form = await db
+    .prepare("SELECT id, name FROM forms WHERE id = ?")
+    .bind(formId)
+    .first<{ id: string; name: string }>()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+
+  // Render against the latest real submission, like the next notification would be
+  const latest = await getLatestSubmission(db, formId)
+  const submission: SubmissionEmailData = {
+    id: latest?.id ?? crypto.randomUUID(),
+    formId,
+    formName: form.name,
+    data: latest?.data ?? EXAMPLE_DATA,
+    fields: latest ? await listFieldNames(db, formId) : Object.keys(EXAMPLE_DATA),
+    createdAt: latest?.created_at ?? Date.now(),
+    attachments: [],
+  }
+
+  const fallback = buildSubmissionEmail(submission)
+  const templateContext = createTemplateContext(submission)
+  const errors: Record<string, string> = {}
+
+  const render = (name: string, fallbackText: string, html = false) => {
+    const template = (formData.get(name) as string | null) || ""
+    if (!template.trim()) return fallbackText
+    try {
+      return renderTemplate(template, templateContext, { html })
+    } catch (error) {
+      errors[name] = (error as Error).message
+      return ""
+    }
+  }
+
+  return data({
+    success: true,
+    preview: {
+      subject: render("notification_subject_template", fallback.subject).replace(/[\r\n]+/g, " ").trim(),
+      html: render("notification_html_template", fallback.html, true),
+      text: render("notification_text_template", fallback.text),
+    },
+    errors,
+    submissionId: latest?.id ?? null,
+    submittedAt: latest?.created_at ?? null,
+  })
+}
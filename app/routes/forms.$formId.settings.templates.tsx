@@ -0,0 +1,92 @@
+import type { Route } from "./+types/forms.$formId.settings.templates"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { parseTemplate } from "~/lib/templates.server"
+
+const TEMPLATE_PARTS = [
+  { name: "notification_subject_template", label: "Subject" },
+  { name: "notification_html_template", label: "HTML body" },
+  { name: "notification_text_template", label: "Plain text body" },
+]
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const templates: (string | null)[] = []
+
+  // Only templates that parse are stored, so sending never trips over one
+  for (const part of TEMPLATE_PARTS) {
+    const template = ((formData.get(part.name) as string | null) || "").replace(/\r\n/g, "\n")
+
+    try {
+      parseTemplate(template)
+    } catch (error) {
+      return data(
+        { success: false, error: `${part.label}: ${(error as Error).message}` },
+        { status: 400 }
+      )
+    }
+
+    templates.push(template.trim() ? template : null)
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          notification_subject_template,
+          notification_html_template,
+          notification_text_template,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          notification_subject_template = excluded.notification_subject_template,
+          notification_html_template = excluded.notification_html_template,
+          notification_text_template = excluded.notification_text_template,
+          updated_at = excluded.updated_at
+      `)
+      .bind(crypto.randomUUID(), formId, ...templates, Date.now())
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving notification templates:", error)
+    return data(
+      { success: false, error: "Failed to save notification templates" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,12 +1,47 @@
 import { useState, useEffect } from "react"
-import { useLoaderData, useFetcher } from "react-router"
+import { data, useLoaderData, useFetcher } from "react-router"
 import type { Route } from "./+types/forms.$formId.settings"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Button } from "#/components/ui/button"
 import { Input } from "#/components/ui/input"
 import { Label } from "#/components/ui/label"
 import { ResultButton } from "#/components/result-button"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "#/components/ui/tooltip"
-import { Mail, Lock, Server } from "lucide-react"
+import { Mail, Lock, Server, KeyRound } from "lucide-react"
+import type { Form, FormPublicKey } from "#/types/form"
+import type { EmailApiRegion, EmailProviderType, SmtpTlsMode } from "#/types/form-settings"
+import { getFieldCatalog } from "~/lib/fields.server"
+import { listWebhookDeliveries, listWebhooks } from "~/lib/webhooks.server"
+import { listChannels } from "~/lib/channels.server"
+import { GeneralCard } from "./forms.$formId.settings/general-card"
+import { RecipientsCard } from "./forms.$formId.settings/recipients-card"
+import type { RecipientSettingsValues } from "./forms.$formId.settings/recipients-card"
+import { SenderCard } from "./forms.$formId.settings/sender-card"
+import type { SenderSettingsValues } from "./forms.$formId.settings/sender-card"
+import { TemplatesCard } from "./forms.$formId.settings/templates-card"
+import type { TemplateSettingsValues } from "./forms.$formId.settings/templates-card"
+import { ChannelsCard } from "./forms.$formId.settings/channels-card"
+import { AutoresponderCard } from "./forms.$formId.settings/autoresponder-card"
+import type { AutoresponderSettingsValues } from "./forms.$formId.settings/autoresponder-card"
+import { SpamCard } from "./forms.$formId.settings/spam-card"
+import type { SpamSettingsValues } from "./forms.$formId.settings/spam-card"
+import { CaptchaCard } from "./forms.$formId.settings/captcha-card"
+import type { CaptchaSettingsValues } from "./forms.$formId.settings/captcha-card"
+import { RateLimitCard } from "./forms.$formId.settings/rate-limit-card"
+import type { RateLimitSettingsValues } from "./forms.$formId.settings/rate-limit-card"
+import { OriginsCard } from "./forms.$formId.settings/origins-card"
+import type { OriginSettingsValues } from "./forms.$formId.settings/origins-card"
+import { RedirectsCard } from "./forms.$formId.settings/redirects-card"
+import type { RedirectSettingsValues } from "./forms.$formId.settings/redirects-card"
+import { UploadsCard } from "./forms.$formId.settings/uploads-card"
+import type { UploadSettingsValues } from "./forms.$formId.settings/uploads-card"
+import { ParsingCard } from "./forms.$formId.settings/parsing-card"
+import type { ParsingSettingsValues } from "./forms.$formId.settings/parsing-card"
+import { SchemaCard } from "./forms.$formId.settings/schema-card"
+import type { SchemaSettingsValues } from "./forms.$formId.settings/schema-card"
+import { MetadataCard } from "./forms.$formId.settings/metadata-card"
+import type { MetadataSettingsValues } from "./forms.$formId.settings/metadata-card"
+import { WebhooksCard } from "./forms.$formId.settings/webhooks-card"
 
 export const meta: Route.MetaFunction = () => {
   return [
@@ -19,58 +54,123 @@ type FormSettings = {
   id: string
   form_id: string
   notification_email: string | null
-  notification_email_password: string | null
+  smtp_password_set: number
   smtp_host: string | null
   smtp_port: number | null
   smtp_secure: number
-}
+  smtp_tls_mode: SmtpTlsMode | null
+  smtp_auth: number
+  smtp_ehlo_name: string | null
+  email_provider: EmailProviderType | null
+  email_api_key_set: number
+  email_api_domain: string | null
+  email_api_region: EmailApiRegion | null
+} & SpamSettingsValues & CaptchaSettingsValues & RateLimitSettingsValues & OriginSettingsValues & RedirectSettingsValues & UploadSettingsValues & ParsingSettingsValues & SchemaSettingsValues & MetadataSettingsValues & RecipientSettingsValues & SenderSettingsValues & TemplateSettingsValues & AutoresponderSettingsValues
 
 // SMTP configurations for common email providers
-const SMTP_CONFIGS: Record<string, { host: string; port: number; secure: boolean; hint: string }> = {
+const SMTP_CONFIGS: Record<string, { host: string; port: number; tlsMode: SmtpTlsMode; hint: string }> = {
   "gmail.com": {
     host: "smtp.gmail.com",
     port: 587,
-    secure: true,
+    tlsMode: "starttls",
     hint: "For Gmail, use an App Password instead of your regular password. Go to Google Account → Security → 2-Step Verification → App passwords."
   },
   "outlook.com": {
     host: "smtp-mail.outlook.com",
     port: 587,
-    secure: true,
+    tlsMode: "starttls",
     hint: "For Outlook, use your regular Microsoft account password or an App Password if you have 2FA enabled."
   },
   "hotmail.com": {
     host: "smtp-mail.outlook.com",
     port: 587,
-    secure: true,
+    tlsMode: "starttls",
     hint: "For Hotmail, use your regular Microsoft account password or an App Password if you have 2FA enabled."
   },
   "yahoo.com": {
     host: "smtp.mail.yahoo.com",
     port: 587,
-    secure: true,
+    tlsMode: "starttls",
     hint: "For Yahoo, generate an App Password at: Account Info → Account Security → Generate app password."
   },
   "icloud.com": {
     host: "smtp.mail.me.com",
     port: 587,
-    secure: true,
+    tlsMode: "starttls",
     hint: "For iCloud, use an App-Specific Password. Go to appleid.apple.com → Sign-In and Security → App-Specific Passwords."
   },
 }
 
+const emailProviderOptions: { value: EmailProviderType; label: string; keyHint?: string }[] = [
+  { value: "smtp", label: "SMTP" },
+  { value: "cloudflare", label: "Cloudflare Email Workers" },
+  { value: "resend", label: "Resend", keyHint: "Create an API key with sending access at resend.com → API Keys." },
+  { value: "postmark", label: "Postmark", keyHint: "Use the Server API token from your server's API Tokens tab." },
+  { value: "mailgun", label: "Mailgun", keyHint: "Use a sending API key for your domain, from Sending → Domain settings." },
+  { value: "sendgrid", label: "SendGrid", keyHint: "Create an API key with Mail Send access at Settings → API Keys." },
+]
+
+const tlsModeOptions: { value: SmtpTlsMode; label: string }[] = [
+  { value: "starttls", label: "STARTTLS (required)" },
+  { value: "implicit", label: "Implicit TLS" },
+  { value: "none", label: "None" },
+]
+
+const selectClassName = "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+
 export async function loader({ params, context }: Route.LoaderArgs) {
   const { formId } = params
   const db = context.cloudflare.env.DB
 
-  // Fetch existing settings
+  // Fetch the form for the general section
+  const form = await db
+    .prepare("SELECT id, name, archived_at, public_key, previous_public_key, previous_public_key_expires_at FROM forms WHERE id = ?")
+    .bind(formId)
+    .first<Form & FormPublicKey>()
+
+  if (!form) {
+    throw data("Form not found", { status: 404 })
+  }
+
+  // Fetch existing settings; the SMTP password, email API key, signing and CAPTCHA secrets and the IP salt stay on the server
   const settings = await db
-    .prepare("SELECT * FROM form_settings WHERE form_id = ?")
+    .prepare(`
+      SELECT id, form_id, notification_email, (smtp_password_encrypted IS NOT NULL OR notification_email_password IS NOT NULL) AS smtp_password_set, smtp_host, smtp_port, smtp_secure,
+             smtp_tls_mode, smtp_auth, smtp_ehlo_name,
+             email_provider, email_api_key_encrypted IS NOT NULL AS email_api_key_set, email_api_domain, email_api_region,
+             spam_honeypot_field, spam_min_submit_seconds, spam_blocklist, spam_max_links,
+             captcha_provider, captcha_site_key, captcha_secret_key IS NOT NULL AS captcha_secret_set,
+             rate_limit_window_seconds, rate_limit_per_form, rate_limit_per_ip,
+             allowed_origins, origin_mode,
+             success_redirect_url, error_redirect_url, redirect_hosts,
+             upload_max_file_size, upload_max_files, upload_allowed_types,
+             field_parsing, field_schema,
+             metadata_capture, metadata_ip_mode,
+             notification_to, notification_cc, notification_bcc, notification_routes,
+             notification_from_name, notification_from_email, notification_reply_to_field,
+             notification_subject_template, notification_html_template, notification_text_template,
+             autoresponder_enabled, autoresponder_field, autoresponder_subject, autoresponder_body
+      FROM form_settings
+      WHERE form_id = ?
+    `)
     .bind(formId)
     .first()
 
+  // Fields inferred from past submissions, offered as a starting point for validation rules
+  const inferredFields = await getFieldCatalog(db, formId)
+
+  // Chat webhook URLs and webhook secrets stay on the server
+  const channels = await listChannels(db, formId)
+  const webhooks = await listWebhooks(db, formId)
+  const deliveries = await listWebhookDeliveries(db, formId)
+
   return {
+    form,
     settings: settings as FormSettings | null,
+    inferredFields,
+    channels,
+    webhooks,
+    deliveries,
     formId
   }
 }
@@ -81,15 +181,38 @@ function getEmailDomain(email: string): string | null {
 }
 
 export default function SettingsPage() {
-  const { settings, formId } = useLoaderData<typeof loader>()
+  const { form, settings, inferredFields, channels, webhooks, deliveries, formId } = useLoaderData<typeof loader>()
   const fetcher = useFetcher()
   const testFetcher = useFetcher()
   const clearFetcher = useFetcher()
 
+  const [provider, setProvider] = useState<EmailProviderType>(settings?.email_provider || "smtp")
   const [email, setEmail] = useState(settings?.notification_email || "")
-  const [password, setPassword] = useState(settings?.notification_email_password || "")
+  const [password, setPassword] = useState("")
+  const [replacingPassword, setReplacingPassword] = useState(false)
   const [smtpHost, setSmtpHost] = useState(settings?.smtp_host || "")
   const [smtpPort, setSmtpPort] = useState(settings?.smtp_port?.toString() || "")
+  const [tlsMode, setTlsMode] = useState<SmtpTlsMode>(settings?.smtp_tls_mode || "starttls")
+  const [smtpAuth, setSmtpAuth] = useState(settings?.smtp_auth !== 0)
+  const [ehloName, setEhloName] = useState(settings?.smtp_ehlo_name || "")
+  const [apiKey, setApiKey] = useState("")
+  const [replacingApiKey, setReplacingApiKey] = useState(false)
+  const [apiDomain, setApiDomain] = useState(settings?.email_api_domain || "")
+  const [apiRegion, setApiRegion] = useState<EmailApiRegion>(settings?.email_api_region || "us")
+
+  const savedProvider = settings?.email_provider || "smtp"
+  const providerOption = emailProviderOptions.find((option) => option.value === provider)
+  const isApiProvider = provider !== "smtp" && provider !== "cloudflare"
+
+  // A saved password only applies to the account and server it was saved for, and an API key to its provider
+  const hasPassword = !!settings?.smtp_password_set && savedProvider === "smtp" && email === settings.notification_email && smtpHost === settings.smtp_host
+  const hasApiKey = !!settings?.email_api_key_set && savedProvider === provider
+
+  const canTest = !!email && (
+    provider === "smtp"
+      ? !(smtpAuth && !password && !hasPassword) && !!smtpHost && !!smtpPort
+      : !isApiProvider || ((!!apiKey || hasApiKey) && (provider !== "mailgun" || !!apiDomain))
+  )
 
   // Initialize emailDomain and smtpConfig from settings on mount
   const initialEmail = settings?.notification_email || ""
@@ -121,6 +244,9 @@ export default function SettingsPage() {
         setSmtpConfig(config)
         setSmtpHost(config.host)
         setSmtpPort(config.port.toString())
+        setTlsMode(config.tlsMode)
+        setSmtpAuth(true)
+        setEhloName("")
       } else {
         // Unknown domain - show advanced settings
         setSmtpConfig(null)
@@ -155,16 +281,25 @@ export default function SettingsPage() {
   useEffect(() => {
     setTestPassed(false)
     setTestResultValid(false)
-  }, [email, password, smtpHost, smtpPort])
+  }, [provider, email, password, smtpHost, smtpPort, tlsMode, smtpAuth, ehloName, apiKey, apiDomain, apiRegion])
 
   // Handle successful settings clear
   useEffect(() => {
     if (clearFetcher.state === "idle" && clearFetcher.data?.success) {
       // Reset all form fields
+      setProvider("smtp")
       setEmail("")
       setPassword("")
+      setReplacingPassword(false)
       setSmtpHost("")
       setSmtpPort("")
+      setTlsMode("starttls")
+      setSmtpAuth(true)
+      setEhloName("")
+      setApiKey("")
+      setReplacingApiKey(false)
+      setApiDomain("")
+      setApiRegion("us")
       setEmailDomain(null)
       setSmtpConfig(null)
       setTestPassed(false)
@@ -172,14 +307,28 @@ export default function SettingsPage() {
     }
   }, [clearFetcher.state, clearFetcher.data])
 
+  // Suggest the encryption that's usual for well-known ports
+  const handlePortChange = (value: string) => {
+    setSmtpPort(value)
+    if (value === "465") setTlsMode("implicit")
+    if (value === "587") setTlsMode("starttls")
+  }
+
   const handleTestEmail = () => {
     setTestResultValid(true)
 
     const formData = new FormData()
+    formData.append("email_provider", provider)
     formData.append("notification_email", email)
     formData.append("notification_email_password", password)
     formData.append("smtp_host", smtpHost)
     formData.append("smtp_port", smtpPort)
+    formData.append("smtp_tls_mode", tlsMode)
+    formData.append("smtp_auth", smtpAuth ? "1" : "0")
+    formData.append("smtp_ehlo_name", ehloName)
+    formData.append("email_api_key", apiKey)
+    formData.append("email_api_domain", apiDomain)
+    formData.append("email_api_region", apiRegion)
 
     testFetcher.submit(formData, {
       method: "post",
@@ -196,6 +345,8 @@ export default function SettingsPage() {
 
   return (
     <div className="flex flex-1 flex-col gap-3 min-w-0">
+      <GeneralCard key={form.id} form={form} />
+
       <Card>
         <CardHeader>
           <CardTitle>Email Notifications</CardTitle>
@@ -206,6 +357,29 @@ export default function SettingsPage() {
         <CardContent className="space-y-4">
           <fetcher.Form method="post" action={`/forms/${formId}/settings/notifications`}>
             <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email-provider" className="flex items-center gap-2">
+                  <Server className="h-4 w-4" />
+                  Provider
+                </Label>
+                <select
+                  id="email-provider"
+                  name="email_provider"
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value as EmailProviderType)}
+                  className={selectClassName}
+                >
+                  {emailProviderOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-sm text-muted-foreground">
+                  Use an HTTP API or Cloudflare if your Worker can't reliably reach your SMTP server
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="email" className="flex items-center gap-2">
                   <Mail className="h-4 w-4" />
@@ -221,30 +395,49 @@ export default function SettingsPage() {
                   required
                 />
                 <p className="text-sm text-muted-foreground">
-                  This email will be used to send and receive notifications
+                  {provider === "smtp"
+                    ? "Notifications are sent from this account, and to it until you add recipients"
+                    : "Notifications are sent from this address, and to it until you add recipients. It must be on a domain verified with your provider."}
                 </p>
               </div>
 
-              {emailDomain && (
+              {provider === "smtp" && emailDomain && (
                 <>
-                  <div className="space-y-2">
-                    <Label htmlFor="password" className="flex items-center gap-2">
-                      <Lock className="h-4 w-4" />
-                      SMTP Password
-                    </Label>
-                    <Input
-                      id="password"
-                      name="notification_email_password"
-                      type="password"
-                      placeholder="Enter your SMTP password"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      required
-                    />
-                    <p className="text-sm text-muted-foreground">
-                      {smtpConfig ? smtpConfig.hint : "Use your email password or app-specific password"}
-                    </p>
-                  </div>
+                  {smtpAuth && (
+                    <div className="space-y-2">
+                      <Label htmlFor="password" className="flex items-center gap-2">
+                        <Lock className="h-4 w-4" />
+                        SMTP Password
+                      </Label>
+                      {hasPassword && !replacingPassword ? (
+                        <div className="flex items-center justify-between gap-3 rounded-md border px-3 h-9">
+                          <span className="text-sm text-muted-foreground">Password set</span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setReplacingPassword(true)}
+                          >
+                            Replace
+                          </Button>
+                        </div>
+                      ) : (
+                        <Input
+                          id="password"
+                          name="notification_email_password"
+                          type="password"
+                          placeholder={hasPassword ? "Password set - leave empty to keep it" : "Enter your SMTP password"}
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          autoComplete="new-password"
+                          required={!hasPassword}
+                        />
+                      )}
+                      <p className="text-sm text-muted-foreground">
+                        {smtpConfig ? smtpConfig.hint : "Use your email password or app-specific password"}
+                      </p>
+                    </div>
+                  )}
 
                   {!smtpConfig && (
                     <div className="space-y-4">
@@ -275,11 +468,58 @@ export default function SettingsPage() {
                           type="number"
                           placeholder="587"
                           value={smtpPort}
-                          onChange={(e) => setSmtpPort(e.target.value)}
+                          onChange={(e) => handlePortChange(e.target.value)}
                           required
                         />
                         <p className="text-sm text-muted-foreground">
-                          Common ports: 587 (TLS), 465 (SSL), 25 (Plain)
+                          Common ports: 587 (STARTTLS), 465 (implicit TLS), 25 (relays)
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="smtp-tls-mode">Encryption</Label>
+                        <select
+                          id="smtp-tls-mode"
+                          name="smtp_tls_mode"
+                          value={tlsMode}
+                          onChange={(e) => setTlsMode(e.target.value as SmtpTlsMode)}
+                          className={selectClassName}
+                        >
+                          {tlsModeOptions.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-sm text-muted-foreground">
+                          Only choose none for a relay on a network you trust; the email and password are sent unencrypted.
+                        </p>
+                      </div>
+
+                      <label className="flex items-center gap-2 text-sm font-medium">
+                        <input
+                          type="checkbox"
+                          name="smtp_auth"
+                          value="1"
+                          className="size-4 accent-primary"
+                          checked={smtpAuth}
+                          onChange={(e) => setSmtpAuth(e.target.checked)}
+                        />
+                        The server requires a password
+                      </label>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="smtp-ehlo-name">EHLO Name</Label>
+                        <Input
+                          id="smtp-ehlo-name"
+                          name="smtp_ehlo_name"
+                          type="text"
+                          placeholder="mail.example.com"
+                          value={ehloName}
+                          onChange={(e) => setEhloName(e.target.value)}
+                        />
+                        <p className="text-sm text-muted-foreground">
+                          The hostname to introduce FormZero with. Leave empty unless your server or relay expects a particular one.
                         </p>
                       </div>
                     </div>
@@ -290,75 +530,193 @@ export default function SettingsPage() {
                     <>
                       <input type="hidden" name="smtp_host" value={smtpHost} />
                       <input type="hidden" name="smtp_port" value={smtpPort} />
+                      <input type="hidden" name="smtp_tls_mode" value={tlsMode} />
+                      <input type="hidden" name="smtp_auth" value="1" />
                     </>
                   )}
 
-                  <div className="pt-4 space-y-3">
-                    {testFetcher.data?.error && testResultValid && (
-                      <p className="text-sm text-destructive">
-                        {testFetcher.data.error}
-                      </p>
-                    )}
-                    <TooltipProvider>
-                      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-                        <div className="flex flex-col sm:flex-row gap-2">
-                          <ResultButton
-                            type="button"
-                            variant="outline"
-                            isSubmitting={isTesting}
-                            isSuccess={testSuccess}
-                            loadingText="Sending..."
-                            successText="Test email sent!"
-                            disabled={!email || !password || !smtpHost || !smtpPort}
-                            onClick={handleTestEmail}
-                            className="w-full sm:w-auto"
-                          >
-                            Send test email
-                          </ResultButton>
-                          <Tooltip open={!testPassed ? undefined : false}>
-                            <TooltipTrigger asChild>
-                              <span className="w-full sm:w-auto">
-                                <ResultButton
-                                  type="submit"
-                                  isSubmitting={isSaving}
-                                  isSuccess={isSaved}
-                                  loadingText="Saving..."
-                                  successText="Saved!"
-                                  disabled={!testPassed}
-                                  className="w-full sm:w-auto"
-                                >
-                                  Save Settings
-                                </ResultButton>
-                              </span>
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>Send a test email first to verify your settings</p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </div>
-                        {settings && (
-                          <ResultButton
-                            type="button"
-                            variant="outline"
-                            isSubmitting={isClearing}
-                            isSuccess={isCleared}
-                            loadingText="Disabling..."
-                            successText="Disabled!"
-                            className="w-full sm:w-auto text-destructive hover:text-destructive"
-                            onClick={handleDisableNotifications}
-                          >
-                            Disable Notifications
-                          </ResultButton>
-                        )}
+                </>
+              )}
+
+              {isApiProvider && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="email-api-key" className="flex items-center gap-2">
+                      <KeyRound className="h-4 w-4" />
+                      API Key
+                    </Label>
+                    {hasApiKey && !replacingApiKey ? (
+                      <div className="flex items-center justify-between gap-3 rounded-md border px-3 h-9">
+                        <span className="text-sm text-muted-foreground">API key set</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setReplacingApiKey(true)}
+                        >
+                          Replace
+                        </Button>
                       </div>
-                    </TooltipProvider>
+                    ) : (
+                      <Input
+                        id="email-api-key"
+                        name="email_api_key"
+                        type="password"
+                        placeholder={hasApiKey ? "API key set - leave empty to keep it" : `Enter your ${providerOption?.label} API key`}
+                        value={apiKey}
+                        onChange={(e) => setApiKey(e.target.value)}
+                        autoComplete="new-password"
+                        required={!hasApiKey}
+                      />
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                      {providerOption?.keyHint}
+                    </p>
                   </div>
+
+                  {provider === "mailgun" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="email-api-domain">Sending Domain</Label>
+                      <Input
+                        id="email-api-domain"
+                        name="email_api_domain"
+                        type="text"
+                        placeholder="mg.example.com"
+                        value={apiDomain}
+                        onChange={(e) => setApiDomain(e.target.value)}
+                        required
+                      />
+                    </div>
+                  )}
+
+                  {(provider === "mailgun" || provider === "sendgrid") && (
+                    <div className="space-y-2">
+                      <Label htmlFor="email-api-region">Region</Label>
+                      <select
+                        id="email-api-region"
+                        name="email_api_region"
+                        value={apiRegion}
+                        onChange={(e) => setApiRegion(e.target.value as EmailApiRegion)}
+                        className={selectClassName}
+                      >
+                        <option value="us">US</option>
+                        <option value="eu">EU</option>
+                      </select>
+                      <p className="text-sm text-muted-foreground">
+                        Where your {providerOption?.label} account keeps its data
+                      </p>
+                    </div>
+                  )}
                 </>
               )}
+
+              {provider === "cloudflare" && (
+                <p className="text-sm text-muted-foreground">
+                  Sends with the Worker's <code className="font-mono">EMAIL</code> binding. Cloudflare only delivers to
+                  addresses verified in Email Routing, from an address on a domain that uses it.
+                </p>
+              )}
+
+              {(provider !== "smtp" || emailDomain) && (
+                <div className="pt-4 space-y-3">
+                  {testFetcher.data?.error && testResultValid && (
+                    <p className="text-sm text-destructive">
+                      {testFetcher.data.error}
+                    </p>
+                  )}
+                  <TooltipProvider>
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <ResultButton
+                          type="button"
+                          variant="outline"
+                          isSubmitting={isTesting}
+                          isSuccess={testSuccess}
+                          loadingText="Sending..."
+                          successText="Test email sent!"
+                          disabled={!canTest}
+                          onClick={handleTestEmail}
+                          className="w-full sm:w-auto"
+                        >
+                          Send test email
+                        </ResultButton>
+                        <Tooltip open={!testPassed ? undefined : false}>
+                          <TooltipTrigger asChild>
+                            <span className="w-full sm:w-auto">
+                              <ResultButton
+                                type="submit"
+                                isSubmitting={isSaving}
+                                isSuccess={isSaved}
+                                loadingText="Saving..."
+                                successText="Saved!"
+                                disabled={!testPassed}
+                                className="w-full sm:w-auto"
+                              >
+                                Save Settings
+                              </ResultButton>
+                            </span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>Send a test email first to verify your settings</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </div>
+                      {settings?.notification_email && (
+                        <ResultButton
+                          type="button"
+                          variant="outline"
+                          isSubmitting={isClearing}
+                          isSuccess={isCleared}
+                          loadingText="Disabling..."
+                          successText="Disabled!"
+                          className="w-full sm:w-auto text-destructive hover:text-destructive"
+                          onClick={handleDisableNotifications}
+                        >
+                          Disable Notifications
+                        </ResultButton>
+                      )}
+                    </div>
+                  </TooltipProvider>
+                </div>
+              )}
             </div>
           </fetcher.Form>
         </CardContent>
       </Card>
+
+      <RecipientsCard formId={formId} settings={settings} inferredFields={inferredFields} />
+
+      <SenderCard formId={formId} settings={settings} />
+
+      <TemplatesCard formId={formId} settings={settings} />
+
+      <ChannelsCard formId={formId} channels={channels} />
+
+      <AutoresponderCard
+        formId={formId}
+        settings={settings}
+        smtpConfigured={!!(settings?.notification_email && (settings.smtp_host || (settings.email_provider && settings.email_provider !== "smtp")))}
+      />
+
+      <SpamCard formId={formId} publicKey={form.public_key} settings={settings} />
+
+      <CaptchaCard formId={formId} settings={settings} />
+
+      <RateLimitCard formId={formId} settings={settings} />
+
+      <OriginsCard formId={formId} settings={settings} />
+
+      <RedirectsCard formId={formId} settings={settings} />
+
+      <UploadsCard formId={formId} settings={settings} />
+
+      <ParsingCard formId={formId} settings={settings} />
+
+      <SchemaCard formId={formId} settings={settings} inferredFields={inferredFields} />
+
+      <MetadataCard formId={formId} settings={settings} />
+
+      <WebhooksCard formId={formId} webhooks={webhooks} deliveries={deliveries} />
     </div>
   )
 }
@@ -0,0 +1,104 @@
+import type { Route } from "./+types/forms.$formId.settings.uploads"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { MAX_FILE_SIZE_LIMIT, parseAllowedTypes } from "~/lib/uploads.server"
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const maxFileSizeText = (formData.get("max_file_size") as string | null)?.trim() || ""
+  const maxFilesText = (formData.get("max_files") as string | null)?.trim() || ""
+  const allowedTypes = parseAllowedTypes((formData.get("allowed_types") as string | null) || "")
+
+  // Sizes are entered in megabytes and stored in bytes; empty falls back to the default
+  const maxFileSize = maxFileSizeText ? Math.round(parseFloat(maxFileSizeText) * 1024 * 1024) : null
+  if (maxFileSize !== null && !(maxFileSize > 0 && maxFileSize <= MAX_FILE_SIZE_LIMIT)) {
+    return data(
+      { success: false, error: `Maximum file size must be between 0.1 and ${MAX_FILE_SIZE_LIMIT / (1024 * 1024)} MB` },
+      { status: 400 }
+    )
+  }
+
+  if (maxFilesText && !/^\d+$/.test(maxFilesText)) {
+    return data(
+      { success: false, error: "Maximum files must be a whole number" },
+      { status: 400 }
+    )
+  }
+  const maxFiles = maxFilesText ? parseInt(maxFilesText, 10) : null
+
+  const invalidType = allowedTypes.find((type) => !/^[a-z0-9.+-]+\/(\*|[a-z0-9.+-]+)$/.test(type))
+  if (invalidType) {
+    return data(
+      { success: false, error: `"${invalidType}" is not a valid MIME type` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await db
+      .prepare(`
+        INSERT INTO form_settings (
+          id,
+          form_id,
+          upload_max_file_size,
+          upload_max_files,
+          upload_allowed_types,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(form_id) DO UPDATE SET
+          upload_max_file_size = excluded.upload_max_file_size,
+          upload_max_files = excluded.upload_max_files,
+          upload_allowed_types = excluded.upload_allowed_types,
+          updated_at = excluded.updated_at
+      `)
+      .bind(
+        crypto.randomUUID(),
+        formId,
+        maxFileSize,
+        maxFiles,
+        allowedTypes.length > 0 ? allowedTypes.join(", ") : null,
+        Date.now()
+      )
+      .run()
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error saving upload settings:", error)
+    return data(
+      { success: false, error: "Failed to save upload settings" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,124 @@
+import type { Route } from "./+types/forms.$formId.settings.webhooks"
+import { data } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import { generateWebhookSecret, parseWebhookUrl, redeliverWebhook } from "~/lib/webhooks.server"
+
+// Keeps a form's fan-out per submission small
+const MAX_WEBHOOKS = 10
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  if (request.method !== "POST") {
+    return data(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    )
+  }
+
+  // Check if form exists
+  const form = await db
+    .prepare("SELECT id FROM forms WHERE id = ?")
+    .bind(formId)
+    .first()
+
+  if (!form) {
+    return data(
+      { success: false, error: "Form not found" },
+      { status: 404 }
+    )
+  }
+
+  const formData = await request.formData()
+  const intent = formData.get("intent")
+  const webhookId = formData.get("webhook_id") as string | null
+
+  try {
+    switch (intent) {
+      case "create": {
+        let url: URL
+        try {
+          url = parseWebhookUrl(((formData.get("url") as string | null) || "").trim())
+        } catch (error) {
+          return data(
+            { success: false, error: (error as Error).message },
+            { status: 400 }
+          )
+        }
+
+        const count = await db
+          .prepare("SELECT COUNT(*) AS count FROM webhooks WHERE form_id = ?")
+          .bind(formId)
+          .first<number>("count")
+
+        if ((count ?? 0) >= MAX_WEBHOOKS) {
+          return data(
+            { success: false, error: `A form can have at most ${MAX_WEBHOOKS} webhooks` },
+            { status: 400 }
+          )
+        }
+
+        // The secret is returned this once so it can be copied into the receiving end
+        const secret = generateWebhookSecret()
+        await db
+          .prepare("INSERT INTO webhooks (id, form_id, url, secret, enabled, created_at) VALUES (?, ?, ?, ?, 1, ?)")
+          .bind(crypto.randomUUID(), formId, url.toString(), secret, Date.now())
+          .run()
+
+        return data({ success: true, secret }, { status: 200 })
+      }
+      case "enable":
+      case "disable":
+        await db
+          .prepare("UPDATE webhooks SET enabled = ? WHERE id = ? AND form_id = ?")
+          .bind(intent === "enable" ? 1 : 0, webhookId, formId)
+          .run()
+        break
+      case "delete":
+        await db.batch([
+          db.prepare("DELETE FROM webhook_deliveries WHERE webhook_id = ? AND form_id = ?").bind(webhookId, formId),
+          db.prepare("DELETE FROM webhooks WHERE id = ? AND form_id = ?").bind(webhookId, formId),
+        ])
+        break
+      case "redeliver": {
+        const queued = await redeliverWebhook(
+          db,
+          context.cloudflare.env.WEBHOOKS,
+          formId,
+          formData.get("delivery_id") as string
+        )
+
+        if (!queued) {
+          return data(
+            { success: false, error: "Delivery not found" },
+            { status: 404 }
+          )
+        }
+        break
+      }
+      default:
+        return data(
+          { success: false, error: "Unknown action" },
+          { status: 400 }
+        )
+    }
+
+    return data({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("Error updating webhooks:", error)
+    return data(
+      { success: false, error: "Failed to update webhooks" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,118 @@
+import { useState } from "react"
+import { useFetcher } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { Textarea } from "#/components/ui/textarea"
+import { ResultButton } from "#/components/result-button"
+
+export type AutoresponderSettingsValues = {
+  autoresponder_enabled: number | null
+  autoresponder_field: string | null
+  autoresponder_subject: string | null
+  autoresponder_body: string | null
+}
+
+type AutoresponderCardProps = {
+  formId: string
+  settings: AutoresponderSettingsValues | null
+  smtpConfigured: boolean
+}
+
+export function AutoresponderCard({ formId, settings, smtpConfigured }: AutoresponderCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const [enabled, setEnabled] = useState(!!settings?.autoresponder_enabled)
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Autoresponder</CardTitle>
+        <CardDescription>
+          Email the submitter a confirmation when their submission includes an email address.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/autoresponder`} className="space-y-4">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              name="autoresponder_enabled"
+              value="1"
+              className="size-4 accent-primary"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+            />
+            Send a confirmation email
+          </label>
+
+          {enabled && !smtpConfigured && (
+            <p className="text-sm text-destructive">
+              Set up Email Notifications first; confirmations are sent from the same account.
+            </p>
+          )}
+
+          {/* Hidden rather than removed, so turning it off keeps the templates */}
+          <div className={enabled ? "space-y-4" : "hidden"}>
+            <div className="space-y-2">
+              <Label htmlFor="autoresponder-field">Email Field</Label>
+              <Input
+                id="autoresponder-field"
+                name="autoresponder_field"
+                placeholder="email"
+                defaultValue={settings?.autoresponder_field || ""}
+                className="font-mono"
+              />
+              <p className="text-sm text-muted-foreground">
+                The field holding the submitter's address. Submissions without exactly one valid address there get no confirmation. It's sent from the same name and address as notifications.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="autoresponder-subject">Subject</Label>
+              <Input
+                id="autoresponder-subject"
+                name="autoresponder_subject"
+                placeholder="Thanks for getting in touch"
+                defaultValue={settings?.autoresponder_subject || ""}
+                maxLength={200}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="autoresponder-body">Message</Label>
+              <Textarea
+                id="autoresponder-body"
+                name="autoresponder_body"
+                rows={6}
+                placeholder={"Hi,\n\nThanks for your message. We've received it and will get back to you soon."}
+                defaultValue={settings?.autoresponder_body || ""}
+              />
+              <p className="text-sm text-muted-foreground">
+                Uses the same template language as notification emails: <code className="rounded bg-muted px-1 py-0.5 text-xs">{"{{field}}"}</code> is replaced with the submitted value, in the subject too.
+                Each address gets at most 3 confirmations a day, and spam never gets one.
+              </p>
+            </div>
+          </div>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Autoresponder
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,113 @@
+import { useState } from "react"
+import { useFetcher } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { ResultButton } from "#/components/result-button"
+
+export type CaptchaSettingsValues = {
+  captcha_provider: string | null
+  captcha_site_key: string | null
+  captcha_secret_set: number
+}
+
+type CaptchaCardProps = {
+  formId: string
+  settings: CaptchaSettingsValues | null
+}
+
+const providerOptions = [
+  { value: "", label: "Off" },
+  { value: "turnstile", label: "Cloudflare Turnstile" },
+  { value: "hcaptcha", label: "hCaptcha" },
+  { value: "recaptcha", label: "Google reCAPTCHA v2" },
+]
+
+export function CaptchaCard({ formId, settings }: CaptchaCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const [provider, setProvider] = useState(settings?.captcha_provider || "")
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  // A stored secret only applies to the provider it was saved for
+  const hasSecret = !!settings?.captcha_secret_set && provider === settings.captcha_provider
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>CAPTCHA</CardTitle>
+        <CardDescription>
+          Require a challenge widget on your form. Submissions without a valid token are rejected.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/captcha`} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="captcha-provider">Provider</Label>
+            <select
+              id="captcha-provider"
+              name="captcha_provider"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value)}
+              className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            >
+              {providerOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {provider && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="captcha-site-key">Site Key</Label>
+                <Input
+                  id="captcha-site-key"
+                  name="captcha_site_key"
+                  defaultValue={settings?.captcha_site_key || ""}
+                  required
+                />
+                <p className="text-sm text-muted-foreground">
+                  Public key used by the widget. The Integration page snippets include it.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="captcha-secret-key">Secret Key</Label>
+                <Input
+                  id="captcha-secret-key"
+                  name="captcha_secret_key"
+                  type="password"
+                  placeholder={hasSecret ? "Secret key set - leave empty to keep it" : "Enter your secret key"}
+                  autoComplete="off"
+                  required={!hasSecret}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Used by the server to verify tokens. It is never shown again after saving.
+                </p>
+              </div>
+            </>
+          )}
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save CAPTCHA Settings
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState } from "react"
+import { useFetcher } from "react-router"
+import { Trash2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Button } from "#/components/ui/button"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { ResultButton } from "#/components/result-button"
+import type { NotificationChannel } from "#/types/channel"
+
+type ChannelsCardProps = {
+  formId: string
+  channels: NotificationChannel[]
+}
+
+const typeOptions = [
+  { value: "slack", label: "Slack", placeholder: "https://hooks.slack.com/services/..." },
+  { value: "discord", label: "Discord", placeholder: "https://discord.com/api/webhooks/..." },
+  { value: "teams", label: "Microsoft Teams", placeholder: "https://prod-00.westus.logic.azure.com/workflows/..." },
+]
+
+const selectClassName = "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+
+export function ChannelsCard({ formId, channels }: ChannelsCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+  const testFetcher = useFetcher<{ success: boolean; error?: string }>()
+  const formRef = useRef<HTMLFormElement>(null)
+  const [type, setType] = useState("slack")
+
+  const isAdding = fetcher.state === "submitting"
+  const isAdded = fetcher.state === "idle" && !!fetcher.data?.success
+  const isTesting = testFetcher.state === "submitting"
+  const isTested = testFetcher.state === "idle" && !!testFetcher.data?.success
+
+  useEffect(() => {
+    if (isAdded) {
+      formRef.current?.reset()
+    }
+  }, [isAdded])
+
+  // Tests the URL as typed, before the channel is added
+  const handleTest = () => {
+    if (!formRef.current?.reportValidity()) return
+    const formData = new FormData(formRef.current)
+    formData.delete("intent")
+    testFetcher.submit(formData, { method: "post", action: `/forms/${formId}/settings/channels/test` })
+  }
+
+  const error = fetcher.data?.error ?? testFetcher.data?.error
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Chat Notifications</CardTitle>
+        <CardDescription>
+          Post each new submission to Slack, Discord or Microsoft Teams, alongside or instead of email.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {channels.length > 0 && (
+          <div className="rounded-md border divide-y">
+            {channels.map((channel) => (
+              <ChannelRow key={channel.id} formId={formId} channel={channel} />
+            ))}
+          </div>
+        )}
+
+        <fetcher.Form ref={formRef} method="post" action={`/forms/${formId}/settings/channels`} className="space-y-4">
+          <input type="hidden" name="intent" value="create" />
+          <div className="grid gap-4 sm:grid-cols-[12rem_1fr]">
+            <div className="space-y-2">
+              <Label htmlFor="channel-type">App</Label>
+              <select
+                id="channel-type"
+                name="type"
+                value={type}
+                onChange={(e) => setType(e.target.value)}
+                className={selectClassName}
+              >
+                {typeOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="channel-name">Name</Label>
+              <Input id="channel-name" name="name" placeholder="e.g. #leads" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="channel-webhook-url">Incoming Webhook URL</Label>
+            <Input
+              id="channel-webhook-url"
+              name="webhook_url"
+              type="url"
+              placeholder={typeOptions.find((option) => option.value === type)?.placeholder}
+              required
+              className="font-mono"
+            />
+            <p className="text-sm text-muted-foreground">
+              Create one in the app: a Slack incoming webhook, a Discord channel webhook, or a Teams workflow that posts webhook requests to a channel.
+              Once added, only its host is shown here.
+            </p>
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <ResultButton
+              type="button"
+              variant="outline"
+              isSubmitting={isTesting}
+              isSuccess={isTested}
+              loadingText="Sending..."
+              successText="Sent!"
+              className="w-full sm:w-auto"
+              onClick={handleTest}
+            >
+              Send Test
+            </ResultButton>
+            <ResultButton
+              type="submit"
+              isSubmitting={isAdding}
+              isSuccess={isAdded}
+              loadingText="Adding..."
+              successText="Added!"
+              className="w-full sm:w-auto"
+            >
+              Add Channel
+            </ResultButton>
+          </div>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
+
+function ChannelRow({ formId, channel }: { formId: string; channel: NotificationChannel }) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+  const testFetcher = useFetcher<{ success: boolean; error?: string }>()
+  const action = `/forms/${formId}/settings/channels`
+  const isBusy = fetcher.state !== "idle"
+  const error = fetcher.data?.error ?? testFetcher.data?.error
+
+  return (
+    <div className="flex flex-col gap-2 px-3 py-2 sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0">
+        <p className={`text-sm font-medium truncate ${channel.enabled ? "" : "text-muted-foreground line-through"}`}>
+          {channel.name}
+        </p>
+        <p className="text-sm text-muted-foreground truncate">
+          {typeOptions.find((option) => option.value === channel.type)?.label ?? channel.type} · <span className="font-mono">{channel.webhook_host}</span>
+        </p>
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+      </div>
+      <div className="flex shrink-0 gap-2">
+        <testFetcher.Form method="post" action={`${action}/test`}>
+          <input type="hidden" name="channel_id" value={channel.id} />
+          <ResultButton
+            type="submit"
+            variant="outline"
+            size="sm"
+            isSubmitting={testFetcher.state === "submitting"}
+            isSuccess={testFetcher.state === "idle" && !!testFetcher.data?.success}
+            loadingText="Sending..."
+            successText="Sent!"
+          >
+            Send Test
+          </ResultButton>
+        </testFetcher.Form>
+        <fetcher.Form method="post" action={action}>
+          <input type="hidden" name="intent" value={channel.enabled ? "disable" : "enable"} />
+          <input type="hidden" name="channel_id" value={channel.id} />
+          <Button type="submit" variant="outline" size="sm" disabled={isBusy}>
+            {channel.enabled ? "Disable" : "Enable"}
+          </Button>
+        </fetcher.Form>
+        <fetcher.Form method="post" action={action}>
+          <input type="hidden" name="intent" value="delete" />
+          <input type="hidden" name="channel_id" value={channel.id} />
+          <Button type="submit" variant="ghost" size="icon" aria-label="Delete channel" disabled={isBusy}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </fetcher.Form>
+      </div>
+    </div>
+  )
+}
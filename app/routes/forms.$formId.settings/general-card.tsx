@@ -0,0 +1,261 @@
+import { useState } from "react"
+import { useFetcher } from "react-router"
+import { Archive, ArchiveRestore, KeyRound, Trash2 } from "lucide-react"
+import type { Form, FormPublicKey } from "#/types/form"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { Button } from "#/components/ui/button"
+import { Separator } from "#/components/ui/separator"
+import { ResultButton } from "#/components/result-button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "#/components/ui/dialog"
+
+type GeneralCardProps = {
+  form: Form & FormPublicKey
+}
+
+const graceOptions = [
+  { value: "0", label: "Stop accepting it immediately" },
+  { value: "1", label: "Keep accepting it for 24 hours" },
+  { value: "7", label: "Keep accepting it for 7 days" },
+  { value: "30", label: "Keep accepting it for 30 days" },
+]
+
+export function GeneralCard({ form }: GeneralCardProps) {
+  const renameFetcher = useFetcher<{ success: boolean; error?: string }>()
+  const archiveFetcher = useFetcher<{ success: boolean; error?: string }>()
+  const deleteFetcher = useFetcher<{ success: boolean; error?: string }>()
+  const rotateFetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const [name, setName] = useState(form.name)
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false)
+  const [confirmName, setConfirmName] = useState("")
+  const [isRotateOpen, setIsRotateOpen] = useState(false)
+  const [graceDays, setGraceDays] = useState("7")
+
+  const action = `/forms/${form.id}/settings/general`
+
+  const isRenaming = renameFetcher.state === "submitting"
+  const isRenamed = renameFetcher.state === "idle" && !!renameFetcher.data?.success
+  const isArchiving = archiveFetcher.state !== "idle"
+  const isDeleting = deleteFetcher.state !== "idle"
+  const isRotating = rotateFetcher.state !== "idle"
+
+  // A previous key without an expiry is a pre-migration slug endpoint
+  const previousKeyActive = !!form.previous_public_key &&
+    (form.previous_public_key_expires_at === null || form.previous_public_key_expires_at > Date.now())
+
+  const handleRotate = () => {
+    const formData = new FormData()
+    formData.append("intent", "rotate-key")
+    formData.append("grace_days", graceDays)
+    rotateFetcher.submit(formData, { method: "post", action })
+    setIsRotateOpen(false)
+  }
+
+  const handleDelete = () => {
+    const formData = new FormData()
+    formData.append("confirm_name", confirmName)
+    deleteFetcher.submit(formData, { method: "delete", action })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>General</CardTitle>
+        <CardDescription>
+          Rename, archive or delete this form and manage its public key
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <renameFetcher.Form method="post" action={action} className="space-y-2">
+          <input type="hidden" name="intent" value="rename" />
+          <Label htmlFor="form-name">Form Name</Label>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              id="form-name"
+              name="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+            <ResultButton
+              type="submit"
+              isSubmitting={isRenaming}
+              isSuccess={isRenamed}
+              loadingText="Saving..."
+              successText="Saved!"
+              disabled={!name.trim() || name.trim() === form.name}
+              className="w-full sm:w-auto"
+            >
+              Rename
+            </ResultButton>
+          </div>
+          {renameFetcher.data?.error && (
+            <p className="text-sm text-destructive">{renameFetcher.data.error}</p>
+          )}
+        </renameFetcher.Form>
+
+        <Separator />
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="space-y-1 min-w-0">
+            <p className="text-sm font-medium">Public key</p>
+            <p className="text-sm text-muted-foreground">
+              Submissions are sent to <code className="rounded bg-muted px-1 py-0.5 text-xs break-all">{form.public_key}</code>.
+              Rotate it if your endpoint leaks or receives spam.
+            </p>
+            {previousKeyActive && (
+              <p className="text-sm text-muted-foreground">
+                The previous key <code className="rounded bg-muted px-1 py-0.5 text-xs break-all">{form.previous_public_key}</code>{" "}
+                {form.previous_public_key_expires_at
+                  ? `is accepted until ${new Date(form.previous_public_key_expires_at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}.`
+                  : "is still accepted until you rotate the key."}
+              </p>
+            )}
+            {rotateFetcher.data?.error && (
+              <p className="text-sm text-destructive">{rotateFetcher.data.error}</p>
+            )}
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isRotating}
+            className="w-full sm:w-auto"
+            onClick={() => setIsRotateOpen(true)}
+          >
+            <KeyRound className="h-4 w-4" />
+            {isRotating ? "Rotating..." : "Rotate key"}
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              {form.archived_at ? "This form is archived" : "Archive form"}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {form.archived_at
+                ? "It is hidden from the form switcher and rejects new submissions. Existing submissions are kept."
+                : "Hide this form from the form switcher and stop accepting new submissions. Existing submissions are kept."}
+            </p>
+          </div>
+          <archiveFetcher.Form method="post" action={action}>
+            <input type="hidden" name="intent" value={form.archived_at ? "unarchive" : "archive"} />
+            <Button type="submit" variant="outline" disabled={isArchiving} className="w-full sm:w-auto">
+              {form.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+              {form.archived_at ? "Unarchive" : "Archive"}
+            </Button>
+          </archiveFetcher.Form>
+        </div>
+
+        <Separator />
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Delete form</p>
+            <p className="text-sm text-muted-foreground">
+              Permanently delete this form, all of its submissions and its settings.
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full sm:w-auto text-destructive hover:text-destructive"
+            onClick={() => setIsDeleteOpen(true)}
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={isRotateOpen} onOpenChange={setIsRotateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rotate public key?</DialogTitle>
+            <DialogDescription>
+              A new endpoint URL is generated. Update your forms to use it from the Integration page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-2">
+            <Label htmlFor="grace-days">Current key</Label>
+            <select
+              id="grace-days"
+              value={graceDays}
+              onChange={(e) => setGraceDays(e.target.value)}
+              className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            >
+              {graceOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsRotateOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleRotate}>
+              Rotate Key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={isDeleteOpen}
+        onOpenChange={(open) => {
+          setIsDeleteOpen(open)
+          setConfirmName("")
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete "{form.name}"?</DialogTitle>
+            <DialogDescription>
+              This permanently deletes the form, every submission and all of its settings. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-2">
+            <Label htmlFor="confirm-name">
+              Type <span className="font-semibold">{form.name}</span> to confirm
+            </Label>
+            <Input
+              id="confirm-name"
+              value={confirmName}
+              onChange={(e) => setConfirmName(e.target.value)}
+              autoComplete="off"
+            />
+            {deleteFetcher.data?.error && (
+              <p className="text-sm text-destructive">{deleteFetcher.data.error}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsDeleteOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              disabled={confirmName !== form.name || isDeleting}
+              onClick={handleDelete}
+            >
+              {isDeleting ? "Deleting..." : "Delete Form"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,96 @@
+import { useState } from "react"
+import { useFetcher } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Label } from "#/components/ui/label"
+import { ResultButton } from "#/components/result-button"
+
+export type MetadataSettingsValues = {
+  metadata_capture: number | null
+  metadata_ip_mode: string | null
+}
+
+type MetadataCardProps = {
+  formId: string
+  settings: MetadataSettingsValues | null
+}
+
+const ipModeOptions = [
+  { value: "hash", label: "Hashed - match repeat senders without storing their address" },
+  { value: "full", label: "Full - store the IP address" },
+  { value: "none", label: "Don't store" },
+]
+
+export function MetadataCard({ formId, settings }: MetadataCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const [capture, setCapture] = useState(!!settings?.metadata_capture)
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Submission Metadata</CardTitle>
+        <CardDescription>
+          Record where each submission came from: IP address, browser, referring page, location and UTM parameters.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/metadata`} className="space-y-4">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              name="metadata_capture"
+              value="1"
+              className="size-4 accent-primary"
+              checked={capture}
+              onChange={(e) => setCapture(e.target.checked)}
+            />
+            Capture metadata
+          </label>
+
+          {capture && (
+            <div className="space-y-2">
+              <Label htmlFor="metadata-ip-mode">IP Address</Label>
+              <select
+                id="metadata-ip-mode"
+                name="metadata_ip_mode"
+                defaultValue={settings?.metadata_ip_mode || "hash"}
+                className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+              >
+                {ipModeOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-sm text-muted-foreground">
+                Hashes are salted per form, so the same address gives the same hash here but can't be looked up or matched across forms.
+              </p>
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            Metadata is shown on each submission, can be used to filter the table and is included in CSV exports.
+            Existing submissions are not affected.
+          </p>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Metadata Settings
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
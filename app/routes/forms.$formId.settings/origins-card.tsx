@@ -0,0 +1,87 @@
+import { useFetcher } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Label } from "#/components/ui/label"
+import { Textarea } from "#/components/ui/textarea"
+import { ResultButton } from "#/components/result-button"
+
+export type OriginSettingsValues = {
+  allowed_origins: string | null
+  origin_mode: string | null
+}
+
+type OriginsCardProps = {
+  formId: string
+  settings: OriginSettingsValues | null
+}
+
+const modeOptions = [
+  { value: "strict", label: "Strict - reject submissions from other origins" },
+  { value: "lenient", label: "Lenient - keep them in the Spam tab" },
+]
+
+export function OriginsCard({ formId, settings }: OriginsCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Allowed Origins</CardTitle>
+        <CardDescription>
+          Only accept submissions from your own websites. Leave empty to accept submissions from anywhere.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/origins`} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="allowed-origins">Origins</Label>
+            <Textarea
+              id="allowed-origins"
+              name="allowed_origins"
+              rows={4}
+              placeholder={"https://example.com\n*.example.com\nhttp://localhost:3000"}
+              defaultValue={settings?.allowed_origins || ""}
+              className="font-mono"
+            />
+            <p className="text-sm text-muted-foreground">
+              One per line. Without a scheme both http and https match; <code className="rounded bg-muted px-1 py-0.5 text-xs">*.example.com</code> matches every subdomain.
+              Submissions without an Origin or Referer header, such as server-side requests, don't match any entry.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="origin-mode">Other Origins</Label>
+            <select
+              id="origin-mode"
+              name="origin_mode"
+              defaultValue={settings?.origin_mode || "strict"}
+              className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            >
+              {modeOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Allowed Origins
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
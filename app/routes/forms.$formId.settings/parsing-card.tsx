@@ -0,0 +1,74 @@
+import { useFetcher } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Label } from "#/components/ui/label"
+import { ResultButton } from "#/components/result-button"
+
+export type ParsingSettingsValues = {
+  field_parsing: string | null
+}
+
+type ParsingCardProps = {
+  formId: string
+  settings: ParsingSettingsValues | null
+}
+
+const modeOptions = [
+  { value: "nested", label: "Nested - collect repeated names and expand brackets and dots" },
+  { value: "flat", label: "Flat - keep the last value for each name as sent" },
+]
+
+export function ParsingCard({ formId, settings }: ParsingCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Field Parsing</CardTitle>
+        <CardDescription>
+          Choose how submitted field names are turned into submission data.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/parsing`} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="field-parsing">Field Names</Label>
+            <select
+              id="field-parsing"
+              name="field_parsing"
+              defaultValue={settings?.field_parsing || "nested"}
+              className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            >
+              {modeOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-sm text-muted-foreground">
+              With nested parsing, checkbox groups like <code className="rounded bg-muted px-1 py-0.5 text-xs">interests=a&amp;interests=b</code> are
+              stored as a list and <code className="rounded bg-muted px-1 py-0.5 text-xs">address[city]</code> or <code className="rounded bg-muted px-1 py-0.5 text-xs">address.city</code> as
+              an object. This applies to form posts and the top-level keys of JSON bodies.
+            </p>
+          </div>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Parsing Settings
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,104 @@
+import { useFetcher } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { ResultButton } from "#/components/result-button"
+
+export type RateLimitSettingsValues = {
+  rate_limit_window_seconds: number | null
+  rate_limit_per_form: number | null
+  rate_limit_per_ip: number | null
+}
+
+type RateLimitCardProps = {
+  formId: string
+  settings: RateLimitSettingsValues | null
+}
+
+const windowOptions = [
+  { value: "60", label: "Per minute" },
+  { value: "3600", label: "Per hour" },
+  { value: "86400", label: "Per day" },
+]
+
+export function RateLimitCard({ formId, settings }: RateLimitCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rate Limiting</CardTitle>
+        <CardDescription>
+          Reject submissions over these limits with "429 Too Many Requests". Leave a limit empty to disable it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/rate-limit`} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rate-limit-window">Time Window</Label>
+            <select
+              id="rate-limit-window"
+              name="window_seconds"
+              defaultValue={settings?.rate_limit_window_seconds?.toString() || "3600"}
+              className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            >
+              {windowOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="rate-limit-per-form">Submissions per Form</Label>
+              <Input
+                id="rate-limit-per-form"
+                name="per_form"
+                type="number"
+                min={1}
+                placeholder="No limit"
+                defaultValue={settings?.rate_limit_per_form?.toString() || ""}
+              />
+              <p className="text-sm text-muted-foreground">
+                Total across all senders
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-limit-per-ip">Submissions per IP</Label>
+              <Input
+                id="rate-limit-per-ip"
+                name="per_ip"
+                type="number"
+                min={1}
+                placeholder="No limit"
+                defaultValue={settings?.rate_limit_per_ip?.toString() || ""}
+              />
+              <p className="text-sm text-muted-foreground">
+                From a single client IP address
+              </p>
+            </div>
+          </div>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Rate Limits
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
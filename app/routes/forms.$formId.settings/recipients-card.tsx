@@ -0,0 +1,254 @@
+import { useRef, useState } from "react"
+import { useFetcher } from "react-router"
+import { Plus, Trash2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Button } from "#/components/ui/button"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { ResultButton } from "#/components/result-button"
+import type { FormField } from "#/types/field"
+
+export type RecipientSettingsValues = {
+  notification_to: string | null
+  notification_cc: string | null
+  notification_bcc: string | null
+  notification_routes: string | null
+}
+
+type RecipientsCardProps = {
+  formId: string
+  settings: (RecipientSettingsValues & { notification_email: string | null }) | null
+  inferredFields: FormField[]
+}
+
+// Mirrors NotificationRoute in recipients.server, with each list kept as typed
+type RouteRow = {
+  key: string
+  field: string
+  operator: string
+  value: string
+  to: string
+  cc: string
+  bcc: string
+}
+
+const operatorOptions = [
+  { value: "equals", label: "is" },
+  { value: "not_equals", label: "is not" },
+  { value: "contains", label: "contains" },
+]
+
+const selectClassName = "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+
+function toRows(notificationRoutes: string | null): RouteRow[] {
+  if (!notificationRoutes) return []
+  try {
+    return (JSON.parse(notificationRoutes) as any[]).map((route, index) => ({
+      key: String(index),
+      field: route.field ?? "",
+      operator: route.operator ?? "equals",
+      value: route.value ?? "",
+      to: (route.to ?? []).join(", "),
+      cc: (route.cc ?? []).join(", "),
+      bcc: (route.bcc ?? []).join(", "),
+    }))
+  } catch {
+    return []
+  }
+}
+
+function toRoutes(rows: RouteRow[]) {
+  return rows.map(({ key, ...route }) => route)
+}
+
+export function RecipientsCard({ formId, settings, inferredFields }: RecipientsCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const [rows, setRows] = useState<RouteRow[]>(() => toRows(settings?.notification_routes ?? null))
+  // Row keys end up in element ids, so they must match between server and client renders
+  const nextKey = useRef(rows.length)
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  const updateRow = (key: string, changes: Partial<RouteRow>) => {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...changes } : row)))
+  }
+
+  const addRow = () => {
+    setRows((current) => [
+      ...current,
+      { key: String(nextKey.current++), field: "", operator: "equals", value: "", to: "", cc: "", bcc: "" },
+    ])
+  }
+
+  const removeRow = (key: string) => {
+    setRows((current) => current.filter((row) => row.key !== key))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Recipients</CardTitle>
+        <CardDescription>
+          Choose who receives notification emails. Separate addresses with commas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/recipients`} className="space-y-4">
+          <input type="hidden" name="notification_routes" value={JSON.stringify(toRoutes(rows))} />
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="recipients-to">To</Label>
+              <Input
+                id="recipients-to"
+                name="notification_to"
+                placeholder={settings?.notification_email || "team@example.com"}
+                defaultValue={settings?.notification_to ?? ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recipients-cc">Cc</Label>
+              <Input
+                id="recipients-cc"
+                name="notification_cc"
+                defaultValue={settings?.notification_cc ?? ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recipients-bcc">Bcc</Label>
+              <Input
+                id="recipients-bcc"
+                name="notification_bcc"
+                defaultValue={settings?.notification_bcc ?? ""}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            With no recipients, notifications go to the address they're sent from.
+          </p>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Routing Rules</p>
+            <p className="text-sm text-muted-foreground">
+              When a submission matches a rule, it goes to that rule's recipients instead of the ones above.
+              If several rules match, everyone they list is emailed.
+            </p>
+          </div>
+
+          {rows.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No rules yet. Every submission goes to the recipients above.
+            </p>
+          )}
+
+          <datalist id="recipients-field-names">
+            {inferredFields.map((field) => (
+              <option key={field.name} value={field.name} />
+            ))}
+          </datalist>
+
+          {rows.map((row) => (
+            <div key={row.key} className="rounded-md border p-3 space-y-3">
+              <div className="grid gap-3 sm:grid-cols-[1fr_8rem_1fr_auto] sm:items-end">
+                <div className="space-y-2">
+                  <Label htmlFor={`route-field-${row.key}`}>When Field</Label>
+                  <Input
+                    id={`route-field-${row.key}`}
+                    list="recipients-field-names"
+                    placeholder="e.g. department"
+                    value={row.field}
+                    onChange={(e) => updateRow(row.key, { field: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`route-operator-${row.key}`}>Condition</Label>
+                  <select
+                    id={`route-operator-${row.key}`}
+                    value={row.operator}
+                    onChange={(e) => updateRow(row.key, { operator: e.target.value })}
+                    className={selectClassName}
+                  >
+                    {operatorOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`route-value-${row.key}`}>Value</Label>
+                  <Input
+                    id={`route-value-${row.key}`}
+                    placeholder="e.g. sales"
+                    value={row.value}
+                    onChange={(e) => updateRow(row.key, { value: e.target.value })}
+                    required
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove rule"
+                  onClick={() => removeRow(row.key)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor={`route-to-${row.key}`}>Send To</Label>
+                  <Input
+                    id={`route-to-${row.key}`}
+                    placeholder="e.g. sales@example.com"
+                    value={row.to}
+                    onChange={(e) => updateRow(row.key, { to: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`route-cc-${row.key}`}>Cc</Label>
+                  <Input
+                    id={`route-cc-${row.key}`}
+                    value={row.cc}
+                    onChange={(e) => updateRow(row.key, { cc: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`route-bcc-${row.key}`}>Bcc</Label>
+                  <Input
+                    id={`route-bcc-${row.key}`}
+                    value={row.bcc}
+                    onChange={(e) => updateRow(row.key, { bcc: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <Button type="button" variant="outline" onClick={addRow} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4" />
+            Add Rule
+          </Button>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Recipients
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,98 @@
+import { useFetcher } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { Textarea } from "#/components/ui/textarea"
+import { ResultButton } from "#/components/result-button"
+
+export type RedirectSettingsValues = {
+  success_redirect_url: string | null
+  error_redirect_url: string | null
+  redirect_hosts: string | null
+}
+
+type RedirectsCardProps = {
+  formId: string
+  settings: RedirectSettingsValues | null
+}
+
+export function RedirectsCard({ formId, settings }: RedirectsCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Redirects</CardTitle>
+        <CardDescription>
+          Choose where visitors land after submitting an HTML form. Without these, they see the built-in success and error pages.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/redirects`} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="success-redirect-url">Success URL</Label>
+            <Input
+              id="success-redirect-url"
+              name="success_redirect_url"
+              type="url"
+              placeholder="https://example.com/thanks"
+              defaultValue={settings?.success_redirect_url || ""}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="error-redirect-url">Error URL</Label>
+            <Input
+              id="error-redirect-url"
+              name="error_redirect_url"
+              type="url"
+              placeholder="https://example.com/contact-error"
+              defaultValue={settings?.error_redirect_url || ""}
+            />
+            <p className="text-sm text-muted-foreground">
+              The reason is appended as <code className="rounded bg-muted px-1 py-0.5 text-xs">?error=</code>, e.g. <code className="rounded bg-muted px-1 py-0.5 text-xs">rate_limited</code>.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="redirect-hosts">Allowed Redirect Hosts</Label>
+            <Textarea
+              id="redirect-hosts"
+              name="redirect_hosts"
+              rows={3}
+              placeholder={"example.com\n*.example.com"}
+              defaultValue={settings?.redirect_hosts || ""}
+              className="font-mono"
+            />
+            <p className="text-sm text-muted-foreground">
+              A <code className="rounded bg-muted px-1 py-0.5 text-xs">?redirect=</code> parameter on the form action, or the page the form was posted from,
+              is only followed for these hosts, your allowed origins and the hosts of the URLs above.
+            </p>
+            <p className="text-sm text-muted-foreground">
+              When a submission fails validation, visitors go back to the page they posted from, with a message per field
+              as <code className="rounded bg-muted px-1 py-0.5 text-xs">errors[field]=</code>. Once any host is allowed,
+              that page has to be on one of them; otherwise they go to the Error URL, or the built-in error page.
+            </p>
+          </div>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Redirects
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,289 @@
+import { useRef, useState } from "react"
+import { useFetcher } from "react-router"
+import { Plus, Sparkles, Trash2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Button } from "#/components/ui/button"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { ResultButton } from "#/components/result-button"
+import type { FormField } from "#/types/field"
+
+export type SchemaSettingsValues = {
+  field_schema: string | null
+}
+
+type SchemaCardProps = {
+  formId: string
+  settings: SchemaSettingsValues | null
+  inferredFields: FormField[]
+}
+
+// Mirrors FieldRule in schema.server, with numbers and options kept as typed
+type FieldRow = {
+  key: string
+  name: string
+  type: string
+  required: boolean
+  minLength: string
+  maxLength: string
+  pattern: string
+  options: string
+}
+
+const typeOptions = [
+  { value: "text", label: "Text" },
+  { value: "email", label: "Email" },
+  { value: "number", label: "Number" },
+  { value: "url", label: "URL" },
+  { value: "date", label: "Date" },
+  { value: "enum", label: "One of" },
+]
+
+// Observed kinds of value that have a matching rule type; everything else is checked as text
+const schemaTypes = new Set(["email", "number", "url", "date"])
+
+const selectClassName = "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+
+function toRows(fieldSchema: string | null): FieldRow[] {
+  if (!fieldSchema) return []
+  try {
+    return (JSON.parse(fieldSchema) as any[]).map((field, index) => ({
+      key: String(index),
+      name: field.name ?? "",
+      type: field.type ?? "text",
+      required: !!field.required,
+      minLength: field.minLength?.toString() ?? "",
+      maxLength: field.maxLength?.toString() ?? "",
+      pattern: field.pattern ?? "",
+      options: (field.options ?? []).join(", "),
+    }))
+  } catch {
+    return []
+  }
+}
+
+function toSchema(rows: FieldRow[]) {
+  return rows.map((row) => ({
+    name: row.name.trim(),
+    type: row.type,
+    required: row.required,
+    minLength: row.minLength === "" ? null : Number(row.minLength),
+    maxLength: row.maxLength === "" ? null : Number(row.maxLength),
+    pattern: row.pattern || null,
+    options: row.type === "enum" ? row.options.split(",").map((option) => option.trim()).filter(Boolean) : null,
+  }))
+}
+
+export function SchemaCard({ formId, settings, inferredFields }: SchemaCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const [rows, setRows] = useState<FieldRow[]>(() => toRows(settings?.field_schema ?? null))
+  // Row keys end up in element ids, so they must match between server and client renders
+  const nextKey = useRef(rows.length)
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  const updateRow = (key: string, changes: Partial<FieldRow>) => {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...changes } : row)))
+  }
+
+  const addRow = () => {
+    setRows((current) => [
+      ...current,
+      { key: String(nextKey.current++), name: "", type: "text", required: false, minLength: "", maxLength: "", pattern: "", options: "" },
+    ])
+  }
+
+  const removeRow = (key: string) => {
+    setRows((current) => current.filter((row) => row.key !== key))
+  }
+
+  // Fields every submission filled in become required
+  const newInferredFields = inferredFields.filter((field) => !rows.some((row) => row.name.trim() === field.name))
+  const addInferredFields = () => {
+    setRows((current) => [
+      ...current,
+      ...newInferredFields.map((field) => ({
+        key: String(nextKey.current++),
+        name: field.name,
+        type: schemaTypes.has(field.type) ? field.type : "text",
+        required: field.fill_rate === 1,
+        minLength: "",
+        maxLength: "",
+        pattern: "",
+        options: "",
+      })),
+    ])
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Field Validation</CardTitle>
+        <CardDescription>
+          Reject submissions whose fields don't match these rules. Fields not listed here are accepted as sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/schema`} className="space-y-4">
+          <input type="hidden" name="field_schema" value={JSON.stringify(toSchema(rows))} />
+
+          {rows.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No rules yet. Any fields are accepted.
+            </p>
+          )}
+
+          {rows.map((row) => (
+            <div key={row.key} className="rounded-md border p-3 space-y-3">
+              <div className="grid gap-3 sm:grid-cols-[1fr_10rem_auto_auto] sm:items-end">
+                <div className="space-y-2">
+                  <Label htmlFor={`field-name-${row.key}`}>Field Name</Label>
+                  <Input
+                    id={`field-name-${row.key}`}
+                    placeholder="e.g. email or address.city"
+                    value={row.name}
+                    onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`field-type-${row.key}`}>Type</Label>
+                  <select
+                    id={`field-type-${row.key}`}
+                    value={row.type}
+                    onChange={(e) => updateRow(row.key, { type: e.target.value })}
+                    className={selectClassName}
+                  >
+                    {typeOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex h-9 items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="size-4 accent-primary"
+                    checked={row.required}
+                    onChange={(e) => updateRow(row.key, { required: e.target.checked })}
+                  />
+                  Required
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove field"
+                  onClick={() => removeRow(row.key)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor={`field-min-${row.key}`}>Min Length</Label>
+                  <Input
+                    id={`field-min-${row.key}`}
+                    type="number"
+                    min={0}
+                    value={row.minLength}
+                    onChange={(e) => updateRow(row.key, { minLength: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`field-max-${row.key}`}>Max Length</Label>
+                  <Input
+                    id={`field-max-${row.key}`}
+                    type="number"
+                    min={0}
+                    value={row.maxLength}
+                    onChange={(e) => updateRow(row.key, { maxLength: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`field-pattern-${row.key}`}>Pattern</Label>
+                  <Input
+                    id={`field-pattern-${row.key}`}
+                    placeholder="e.g. [A-Z]{2}\d{4}"
+                    value={row.pattern}
+                    onChange={(e) => updateRow(row.key, { pattern: e.target.value })}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
+
+              {row.type === "enum" && (
+                <div className="space-y-2">
+                  <Label htmlFor={`field-options-${row.key}`}>Allowed Values</Label>
+                  <Input
+                    id={`field-options-${row.key}`}
+                    placeholder="e.g. small, medium, large"
+                    value={row.options}
+                    onChange={(e) => updateRow(row.key, { options: e.target.value })}
+                    required
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button type="button" variant="outline" onClick={addRow} className="w-full sm:w-auto">
+              <Plus className="h-4 w-4" />
+              Add Field
+            </Button>
+            {newInferredFields.length > 0 && (
+              <Button type="button" variant="outline" onClick={addInferredFields} className="w-full sm:w-auto">
+                <Sparkles className="h-4 w-4" />
+                Add {newInferredFields.length} Inferred Field{newInferredFields.length === 1 ? "" : "s"}
+              </Button>
+            )}
+          </div>
+
+          {inferredFields.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Inferred From Submissions</p>
+              <div className="rounded-md border divide-y text-sm">
+                {inferredFields.map((field) => (
+                  <div key={field.name} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <span className="font-mono truncate">{field.name}</span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {field.type}
+                      {field.fill_rate !== null && ` · ${Math.round(field.fill_rate * 100)}% filled`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Updated daily from the inbox. Adding them fills in rules you can adjust before saving.
+              </p>
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            JSON clients get a 422 response listing each invalid field. HTML forms are sent back to the page they were posted from,
+            if its host is allowed for redirects, with <code className="rounded bg-muted px-1 py-0.5 text-xs">errors[field]=message</code> in the URL.
+          </p>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Validation Rules
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,93 @@
+import { useFetcher } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { ResultButton } from "#/components/result-button"
+
+export type SenderSettingsValues = {
+  notification_from_name: string | null
+  notification_from_email: string | null
+  notification_reply_to_field: string | null
+}
+
+type SenderCardProps = {
+  formId: string
+  settings: (SenderSettingsValues & { notification_email: string | null }) | null
+}
+
+export function SenderCard({ formId, settings }: SenderCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Sender</CardTitle>
+        <CardDescription>
+          Choose who notification emails come from, and make Reply answer the person who submitted the form.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/sender`} className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="sender-name">Sender Name</Label>
+              <Input
+                id="sender-name"
+                name="notification_from_name"
+                placeholder="e.g. Website Contact Form"
+                defaultValue={settings?.notification_from_name || ""}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sender-email">From Address</Label>
+              <Input
+                id="sender-email"
+                name="notification_from_email"
+                type="email"
+                placeholder={settings?.notification_email || "forms@example.com"}
+                defaultValue={settings?.notification_from_email || ""}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Leave the From address empty to send from the address in Email Notifications. Most providers only accept
+            addresses or aliases you've verified with them.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="sender-reply-to">Reply-To Field</Label>
+            <Input
+              id="sender-reply-to"
+              name="notification_reply_to_field"
+              placeholder="email"
+              defaultValue={settings?.notification_reply_to_field || ""}
+              className="font-mono"
+            />
+            <p className="text-sm text-muted-foreground">
+              The field holding the submitter's address. Anything other than a single valid address there is ignored,
+              and replies go to the sender instead.
+            </p>
+          </div>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Sender
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from "react"
+import { useFetcher } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { Textarea } from "#/components/ui/textarea"
+import { ResultButton } from "#/components/result-button"
+
+// Mirrors TIMESTAMP_FIELD in spam.server, which can't be imported into the client bundle
+const TIMESTAMP_FIELD = "_formzero_ts"
+
+export type SpamSettingsValues = {
+  spam_honeypot_field: string | null
+  spam_min_submit_seconds: number | null
+  spam_blocklist: string | null
+  spam_max_links: number | null
+}
+
+type SpamCardProps = {
+  formId: string
+  publicKey: string
+  settings: SpamSettingsValues | null
+}
+
+export function SpamCard({ formId, publicKey, settings }: SpamCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const [honeypotField, setHoneypotField] = useState(settings?.spam_honeypot_field || "")
+  const [minSubmitSeconds, setMinSubmitSeconds] = useState(settings?.spam_min_submit_seconds?.toString() || "")
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  const origin = typeof window !== "undefined" ? window.location.origin : ""
+  const timestampUrl = `${origin}/api/forms/${publicKey}/timestamp`
+
+  const honeypotSnippet = `<input type="text" name="${honeypotField}" tabindex="-1" autocomplete="off" style="position:absolute;left:-9999px" aria-hidden="true" />`
+
+  const timestampSnippet = `<input type="hidden" name="${TIMESTAMP_FIELD}" id="formzero-ts" />
+<script>
+  fetch("${timestampUrl}")
+    .then((res) => res.json())
+    .then((data) => { document.getElementById("formzero-ts").value = data.value })
+</script>`
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Spam Protection</CardTitle>
+        <CardDescription>
+          Drop bot submissions and move suspicious ones to the Spam tab. Spam never triggers notifications or counts towards stats.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/spam`} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="honeypot-field">Honeypot Field</Label>
+            <Input
+              id="honeypot-field"
+              name="honeypot_field"
+              placeholder="e.g. website_url"
+              value={honeypotField}
+              onChange={(e) => setHoneypotField(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Submissions that fill in this hidden field are accepted and silently dropped. Leave empty to disable.
+            </p>
+            {honeypotField.trim() && (
+              <pre className="rounded-md bg-muted p-3 text-xs overflow-x-auto">{honeypotSnippet}</pre>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="min-submit-seconds">Minimum Time to Submit (seconds)</Label>
+            <Input
+              id="min-submit-seconds"
+              name="min_submit_seconds"
+              type="number"
+              min={0}
+              placeholder="e.g. 3"
+              value={minSubmitSeconds}
+              onChange={(e) => setMinSubmitSeconds(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Submissions sent faster than this after the page loads, or without a valid signed timestamp, are marked as spam. Leave empty to disable.
+            </p>
+            {parseInt(minSubmitSeconds, 10) > 0 && (
+              <pre className="rounded-md bg-muted p-3 text-xs overflow-x-auto">{timestampSnippet}</pre>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="blocklist">Blocklist</Label>
+            <Textarea
+              id="blocklist"
+              name="blocklist"
+              rows={4}
+              placeholder={"casino\n/\\bviagra\\b/i"}
+              defaultValue={settings?.spam_blocklist || ""}
+              className="font-mono"
+            />
+            <p className="text-sm text-muted-foreground">
+              One entry per line. Plain text matches anywhere, ignoring case; wrap a line in slashes for a regular expression.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="max-links">Maximum Links</Label>
+            <Input
+              id="max-links"
+              name="max_links"
+              type="number"
+              min={0}
+              placeholder="e.g. 2"
+              defaultValue={settings?.spam_max_links?.toString() || ""}
+            />
+            <p className="text-sm text-muted-foreground">
+              Submissions containing more links than this are marked as spam. Leave empty to disable.
+            </p>
+          </div>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Spam Settings
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
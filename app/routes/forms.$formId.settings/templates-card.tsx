@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from "react"
+import { useFetcher } from "react-router"
+import { FileText } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Button } from "#/components/ui/button"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { Textarea } from "#/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "#/components/ui/tabs"
+import { ResultButton } from "#/components/result-button"
+
+export type TemplateSettingsValues = {
+  notification_subject_template: string | null
+  notification_html_template: string | null
+  notification_text_template: string | null
+}
+
+type TemplatesCardProps = {
+  formId: string
+  settings: TemplateSettingsValues | null
+}
+
+type Templates = {
+  notification_subject_template: string
+  notification_html_template: string
+  notification_text_template: string
+}
+
+type PreviewData = {
+  preview: { subject: string; html: string; text: string }
+  errors: Partial<Record<keyof Templates, string>>
+  submissionId: string | null
+  submittedAt: number | null
+}
+
+// Starting points that reproduce the gist of the built-in email
+const STARTER_TEMPLATES: Templates = {
+  notification_subject_template: 'New submission for "{{form.name}}"',
+  notification_html_template: `<h1 style="font-size: 20px;">New submission for {{form.name}}</h1>
+<p style="color: #8e8e8e;">Received {{submission.created_at | date}}</p>
+<table cellpadding="8" style="border-collapse: collapse;">
+{{#each fields as field}}
+  <tr>
+    <th align="left" style="color: #8e8e8e;">{{field.label}}</th>
+    <td>{{field.value | default:"Not provided"}}</td>
+  </tr>
+{{/each}}
+</table>
+{{#if attachments}}
+<p>Attachments: {{#each attachments as file}}<a href="{{file.url}}">{{file.name}}</a> {{/each}}</p>
+{{/if}}`,
+  notification_text_template: `New submission for "{{form.name}}"
+Received {{submission.created_at | date}}
+
+{{#each fields as field}}{{field.label}}: {{field.value | default:"(Not provided)"}}
+{{/each}}`,
+}
+
+const PREVIEW_DELAY_MS = 400
+
+export function TemplatesCard({ formId, settings }: TemplatesCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+  const previewFetcher = useFetcher<PreviewData>()
+
+  const [templates, setTemplates] = useState<Templates>({
+    notification_subject_template: settings?.notification_subject_template || "",
+    notification_html_template: settings?.notification_html_template || "",
+    notification_text_template: settings?.notification_text_template || "",
+  })
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  // Re-render the preview once typing pauses
+  const submitPreview = useRef(previewFetcher.submit)
+  submitPreview.current = previewFetcher.submit
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      submitPreview.current(templates, { method: "post", action: `/forms/${formId}/settings/templates/preview` })
+    }, PREVIEW_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [formId, templates])
+
+  const updateTemplate = (name: keyof Templates, value: string) => {
+    setTemplates((current) => ({ ...current, [name]: value }))
+  }
+
+  const fillStarterTemplates = () => {
+    setTemplates((current) => ({
+      notification_subject_template: current.notification_subject_template || STARTER_TEMPLATES.notification_subject_template,
+      notification_html_template: current.notification_html_template || STARTER_TEMPLATES.notification_html_template,
+      notification_text_template: current.notification_text_template || STARTER_TEMPLATES.notification_text_template,
+    }))
+  }
+
+  const preview = previewFetcher.data
+  const errors = preview?.errors ?? {}
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Templates</CardTitle>
+        <CardDescription>
+          Write your own subject and body for notification emails. Anything left empty uses the built-in email.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/templates`} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-subject">Subject</Label>
+            <Input
+              id="template-subject"
+              name="notification_subject_template"
+              placeholder={STARTER_TEMPLATES.notification_subject_template}
+              value={templates.notification_subject_template}
+              onChange={(e) => updateTemplate("notification_subject_template", e.target.value)}
+              className="font-mono"
+            />
+            {errors.notification_subject_template && (
+              <p className="text-sm text-destructive">{errors.notification_subject_template}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-html">HTML Body</Label>
+            <Textarea
+              id="template-html"
+              name="notification_html_template"
+              rows={10}
+              value={templates.notification_html_template}
+              onChange={(e) => updateTemplate("notification_html_template", e.target.value)}
+              className="font-mono text-xs"
+            />
+            {errors.notification_html_template && (
+              <p className="text-sm text-destructive">{errors.notification_html_template}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-text">Plain Text Body</Label>
+            <Textarea
+              id="template-text"
+              name="notification_text_template"
+              rows={6}
+              value={templates.notification_text_template}
+              onChange={(e) => updateTemplate("notification_text_template", e.target.value)}
+              className="font-mono text-xs"
+            />
+            {errors.notification_text_template && (
+              <p className="text-sm text-destructive">{errors.notification_text_template}</p>
+            )}
+          </div>
+
+          <div className="text-sm text-muted-foreground space-y-1">
+            <p>
+              <code className="rounded bg-muted px-1 py-0.5 text-xs">{"{{email}}"}</code> inserts a submitted field
+              (<code className="rounded bg-muted px-1 py-0.5 text-xs">{"{{address.city}}"}</code> for nested ones), and
+              {" "}<code className="rounded bg-muted px-1 py-0.5 text-xs">{"{{form.name}}"}</code>,
+              {" "}<code className="rounded bg-muted px-1 py-0.5 text-xs">{"{{submission.id}}"}</code> and
+              {" "}<code className="rounded bg-muted px-1 py-0.5 text-xs">{"{{submission.created_at | date}}"}</code> describe the submission.
+            </p>
+            <p>
+              Loop with <code className="rounded bg-muted px-1 py-0.5 text-xs">{"{{#each fields as field}}{{field.label}}: {{field.value}}{{/each}}"}</code>,
+              branch with <code className="rounded bg-muted px-1 py-0.5 text-xs">{"{{#if phone}}…{{else}}…{{/if}}"}</code>,
+              and use the <code className="rounded bg-muted px-1 py-0.5 text-xs">date</code>, <code className="rounded bg-muted px-1 py-0.5 text-xs">upper</code>,
+              {" "}<code className="rounded bg-muted px-1 py-0.5 text-xs">lower</code> and <code className="rounded bg-muted px-1 py-0.5 text-xs">{'default:"text"'}</code> filters.
+              Values are always escaped in the HTML body.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">Preview</p>
+              <p className="text-xs text-muted-foreground">
+                {!preview
+                  ? "Rendering..."
+                  : preview.submittedAt
+                    ? `Using the submission from ${new Date(preview.submittedAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}`
+                    : "Using example data until the form has a submission"}
+              </p>
+            </div>
+            <div className="rounded-md border">
+              <div className="border-b px-3 py-2 text-sm">
+                <span className="text-muted-foreground">Subject: </span>
+                {preview?.preview.subject}
+              </div>
+              <Tabs defaultValue="html" className="p-3">
+                <TabsList>
+                  <TabsTrigger value="html">HTML</TabsTrigger>
+                  <TabsTrigger value="text">Plain Text</TabsTrigger>
+                </TabsList>
+                <TabsContent value="html" className="mt-3">
+                  {/* Sandboxed, so nothing in the preview can run or navigate */}
+                  <iframe
+                    title="HTML preview"
+                    sandbox=""
+                    srcDoc={preview?.preview.html ?? ""}
+                    className="h-96 w-full rounded border bg-white"
+                  />
+                </TabsContent>
+                <TabsContent value="text" className="mt-3">
+                  <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded bg-muted p-3 text-xs">{preview?.preview.text}</pre>
+                </TabsContent>
+              </Tabs>
+            </div>
+          </div>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button type="button" variant="outline" onClick={fillStarterTemplates} className="w-full sm:w-auto">
+              <FileText className="h-4 w-4" />
+              Use Starter Templates
+            </Button>
+            <ResultButton
+              type="submit"
+              isSubmitting={isSaving}
+              isSuccess={isSaved}
+              loadingText="Saving..."
+              successText="Saved!"
+              className="w-full sm:w-auto"
+            >
+              Save Templates
+            </ResultButton>
+          </div>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
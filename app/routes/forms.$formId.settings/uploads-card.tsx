@@ -0,0 +1,106 @@
+import { useFetcher } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { ResultButton } from "#/components/result-button"
+
+// Mirror the defaults and cap in uploads.server, which can't be imported into the client bundle
+const DEFAULT_MAX_FILE_SIZE_MB = 10
+const DEFAULT_MAX_FILES = 5
+const MAX_FILE_SIZE_LIMIT_MB = 100
+
+export type UploadSettingsValues = {
+  upload_max_file_size: number | null
+  upload_max_files: number | null
+  upload_allowed_types: string | null
+}
+
+type UploadsCardProps = {
+  formId: string
+  settings: UploadSettingsValues | null
+}
+
+export function UploadsCard({ formId, settings }: UploadsCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  const isSaving = fetcher.state === "submitting"
+  const isSaved = fetcher.state === "idle" && !!fetcher.data?.success
+
+  const maxFileSizeMb = settings?.upload_max_file_size
+    ? Math.round((settings.upload_max_file_size / (1024 * 1024)) * 10) / 10
+    : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>File Uploads</CardTitle>
+        <CardDescription>
+          Limit the files sent with multipart submissions. Files are stored privately and only downloadable while signed in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fetcher.Form method="post" action={`/forms/${formId}/settings/uploads`} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="upload-max-file-size">Maximum File Size (MB)</Label>
+              <Input
+                id="upload-max-file-size"
+                name="max_file_size"
+                type="number"
+                min={0.1}
+                max={MAX_FILE_SIZE_LIMIT_MB}
+                step={0.1}
+                placeholder={DEFAULT_MAX_FILE_SIZE_MB.toString()}
+                defaultValue={maxFileSizeMb?.toString() || ""}
+              />
+              <p className="text-sm text-muted-foreground">
+                Per file, up to {MAX_FILE_SIZE_LIMIT_MB} MB
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="upload-max-files">Maximum Files</Label>
+              <Input
+                id="upload-max-files"
+                name="max_files"
+                type="number"
+                min={0}
+                placeholder={DEFAULT_MAX_FILES.toString()}
+                defaultValue={settings?.upload_max_files?.toString() ?? ""}
+              />
+              <p className="text-sm text-muted-foreground">
+                Per submission; 0 rejects all uploads
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="upload-allowed-types">Allowed File Types</Label>
+            <Input
+              id="upload-allowed-types"
+              name="allowed_types"
+              placeholder="e.g. image/*, application/pdf"
+              defaultValue={settings?.upload_allowed_types || ""}
+            />
+            <p className="text-sm text-muted-foreground">
+              Comma-separated MIME types. Leave empty to allow any type.
+            </p>
+          </div>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isSaving}
+            isSuccess={isSaved}
+            loadingText="Saving..."
+            successText="Saved!"
+            className="w-full sm:w-auto"
+          >
+            Save Upload Settings
+          </ResultButton>
+        </fetcher.Form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from "react"
+import { useFetcher } from "react-router"
+import { Check, Copy, RotateCw, Trash2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "#/components/ui/card"
+import { Button } from "#/components/ui/button"
+import { Input } from "#/components/ui/input"
+import { Label } from "#/components/ui/label"
+import { ResultButton } from "#/components/result-button"
+import type { Webhook, WebhookDelivery } from "#/types/webhook"
+
+type WebhooksCardProps = {
+  formId: string
+  webhooks: Webhook[]
+  deliveries: WebhookDelivery[]
+}
+
+const statusStyles: Record<string, string> = {
+  pending: "text-muted-foreground",
+  retrying: "text-amber-600 dark:text-amber-500",
+  succeeded: "text-green-600 dark:text-green-500",
+  failed: "text-destructive",
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+export function WebhooksCard({ formId, webhooks, deliveries }: WebhooksCardProps) {
+  const fetcher = useFetcher<{ success: boolean; error?: string; secret?: string }>()
+  const formRef = useRef<HTMLFormElement>(null)
+  const [copied, setCopied] = useState(false)
+
+  const isAdding = fetcher.state === "submitting"
+  const isAdded = fetcher.state === "idle" && !!fetcher.data?.success
+  const secret = fetcher.data?.secret
+
+  useEffect(() => {
+    if (isAdded) {
+      formRef.current?.reset()
+    }
+  }, [isAdded])
+
+  const handleCopySecret = async () => {
+    if (!secret) return
+    await navigator.clipboard.writeText(secret)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const urls = new Map(webhooks.map((webhook) => [webhook.id, webhook.url]))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          POST a JSON payload to your own endpoints for each new submission. Spam is never sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {webhooks.length > 0 && (
+          <div className="rounded-md border divide-y">
+            {webhooks.map((webhook) => (
+              <WebhookRow key={webhook.id} formId={formId} webhook={webhook} />
+            ))}
+          </div>
+        )}
+
+        <fetcher.Form ref={formRef} method="post" action={`/forms/${formId}/settings/webhooks`} className="space-y-4">
+          <input type="hidden" name="intent" value="create" />
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              name="url"
+              type="url"
+              placeholder="https://example.com/webhooks/formzero"
+              required
+              className="font-mono"
+            />
+          </div>
+
+          {secret && (
+            <div className="space-y-2 rounded-md border bg-muted/50 p-3">
+              <p className="text-sm font-medium">Signing Secret</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 truncate rounded bg-muted px-2 py-1 text-xs">{secret}</code>
+                <Button type="button" variant="outline" size="icon" aria-label="Copy secret" onClick={handleCopySecret}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Copy it now; it won't be shown again.
+              </p>
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            Each request carries an <code className="rounded bg-muted px-1 py-0.5 text-xs">X-FormZero-Signature: t=timestamp,v1=signature</code> header,
+            where the signature is the hex HMAC-SHA256 of <code className="rounded bg-muted px-1 py-0.5 text-xs">timestamp.body</code> keyed with the secret.
+            Failed deliveries are retried with increasing delays for about a day.
+          </p>
+
+          {fetcher.data?.error && (
+            <p className="text-sm text-destructive">{fetcher.data.error}</p>
+          )}
+          <ResultButton
+            type="submit"
+            isSubmitting={isAdding}
+            isSuccess={isAdded}
+            loadingText="Adding..."
+            successText="Added!"
+            className="w-full sm:w-auto"
+          >
+            Add Webhook
+          </ResultButton>
+        </fetcher.Form>
+
+        {deliveries.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Recent Deliveries</p>
+            <div className="rounded-md border divide-y text-sm">
+              {deliveries.map((delivery) => (
+                <DeliveryRow
+                  key={delivery.id}
+                  formId={formId}
+                  delivery={delivery}
+                  url={urls.get(delivery.webhook_id) ?? null}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function WebhookRow({ formId, webhook }: { formId: string; webhook: Webhook }) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+  const action = `/forms/${formId}/settings/webhooks`
+  const isBusy = fetcher.state !== "idle"
+
+  return (
+    <div className="flex flex-col gap-2 px-3 py-2 sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0">
+        <p className={`font-mono text-sm truncate ${webhook.enabled ? "" : "text-muted-foreground line-through"}`}>
+          {webhook.url}
+        </p>
+        {fetcher.data?.error && (
+          <p className="text-sm text-destructive">{fetcher.data.error}</p>
+        )}
+      </div>
+      <div className="flex shrink-0 gap-2">
+        <fetcher.Form method="post" action={action}>
+          <input type="hidden" name="intent" value={webhook.enabled ? "disable" : "enable"} />
+          <input type="hidden" name="webhook_id" value={webhook.id} />
+          <Button type="submit" variant="outline" size="sm" disabled={isBusy}>
+            {webhook.enabled ? "Disable" : "Enable"}
+          </Button>
+        </fetcher.Form>
+        <fetcher.Form method="post" action={action}>
+          <input type="hidden" name="intent" value="delete" />
+          <input type="hidden" name="webhook_id" value={webhook.id} />
+          <Button type="submit" variant="ghost" size="icon" aria-label="Delete webhook" disabled={isBusy}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </fetcher.Form>
+      </div>
+    </div>
+  )
+}
+
+function DeliveryRow({ formId, delivery, url }: { formId: string; delivery: WebhookDelivery; url: string | null }) {
+  const fetcher = useFetcher<{ success: boolean; error?: string }>()
+
+  return (
+    <div className="flex flex-col gap-2 px-3 py-2 sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0 space-y-0.5">
+        <p className="truncate">
+          <span className={`font-medium ${statusStyles[delivery.status] ?? ""}`}>{delivery.status}</span>
+          {delivery.response_status !== null && <span className="text-muted-foreground"> · HTTP {delivery.response_status}</span>}
+          <span className="text-muted-foreground"> · {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}</span>
+        </p>
+        <p className="text-muted-foreground truncate">
+          {formatTime(delivery.last_attempt_at ?? delivery.created_at)}
+          {url && <span className="font-mono"> · {url}</span>}
+        </p>
+        {delivery.error && (
+          <p className="text-muted-foreground truncate" title={delivery.error}>{delivery.error}</p>
+        )}
+        {fetcher.data?.error && (
+          <p className="text-destructive">{fetcher.data.error}</p>
+        )}
+      </div>
+      <fetcher.Form method="post" action={`/forms/${formId}/settings/webhooks`} className="shrink-0">
+        <input type="hidden" name="intent" value="redeliver" />
+        <input type="hidden" name="delivery_id" value={delivery.id} />
+        <ResultButton
+          type="submit"
+          variant="outline"
+          size="sm"
+          isSubmitting={fetcher.state === "submitting"}
+          isSuccess={fetcher.state === "idle" && !!fetcher.data?.success}
+          loadingText="Queueing..."
+          successText="Queued!"
+        >
+          <RotateCw className="h-4 w-4" />
+          Redeliver
+        </ResultButton>
+      </fetcher.Form>
+    </div>
+  )
+}
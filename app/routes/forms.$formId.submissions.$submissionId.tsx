@@ -0,0 +1,254 @@
+import { useState } from "react"
+import { data, Form, Link, useLoaderData, useLocation, useNavigate, useNavigation, useParams } from "react-router"
+import type { Route } from "./+types/forms.$formId.submissions.$submissionId"
+import { formatDistanceToNow } from "date-fns"
+import { Check, ChevronDown, ChevronUp, Copy, RotateCcw, ShieldAlert, ShieldCheck, Trash2 } from "lucide-react"
+import { Highlight, themes } from "prism-react-renderer"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "~/components/ui/sheet"
+import { Button } from "~/components/ui/button"
+import { Separator } from "~/components/ui/separator"
+import { FieldValue } from "./forms.$formId.submissions/field-value"
+import { METADATA_FIELDS } from "~/lib/metadata"
+import type { MetadataField } from "~/lib/metadata"
+import {
+  getAdjacentSubmissionIds,
+  getSubmission,
+  parseSubmissionListParams,
+  TRASH_RETENTION_DAYS,
+} from "~/lib/submissions.server"
+
+export async function loader({ params, context, request }: Route.LoaderArgs) {
+  const { formId, submissionId } = params
+  const db = context.cloudflare.env.DB
+
+  const submission = await getSubmission(db, formId, submissionId)
+  if (!submission) {
+    throw data("Submission not found", { status: 404 })
+  }
+
+  // Previous/next follow the same search and sort as the table
+  const url = new URL(request.url)
+  const listParams = parseSubmissionListParams(url.searchParams)
+  const { prevId, nextId } = await getAdjacentSubmissionIds(db, formId, submissionId, listParams)
+
+  return { submission, prevId, nextId, trashRetentionDays: TRASH_RETENTION_DAYS }
+}
+
+export default function SubmissionDetail() {
+  const { submission, prevId, nextId, trashRetentionDays } = useLoaderData<typeof loader>()
+  const params = useParams()
+  const location = useLocation()
+  const navigate = useNavigate()
+  const navigation = useNavigation()
+  const [copied, setCopied] = useState(false)
+
+  // Keep the table's search, sort and page when moving around
+  const listUrl = `/forms/${params.formId}/submissions${location.search}`
+  const submissionUrl = (id: string) => `/forms/${params.formId}/submissions/${id}${location.search}`
+
+  // Clicking a metadata value narrows the table to submissions that share it
+  const filterUrl = (key: MetadataField, value: string) => {
+    const search = new URLSearchParams(location.search)
+    search.delete("after")
+    search.delete("before")
+    search.set(key, value)
+    return `/forms/${params.formId}/submissions?${search.toString()}`
+  }
+  const metadata = METADATA_FIELDS.filter(({ key }) => submission.metadata[key])
+
+  const rawJson = JSON.stringify(submission.data, null, 2)
+  const createdAt = new Date(submission.created_at)
+  const deletedAt = submission.deleted_at ? new Date(submission.deleted_at) : null
+  const purgeAt = deletedAt ? new Date(deletedAt.getTime() + trashRetentionDays * 24 * 60 * 60 * 1000) : null
+  const isSubmitting = navigation.state === "submitting"
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(JSON.stringify(submission, null, 2))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <Sheet
+      open
+      onOpenChange={(open) => {
+        if (!open) navigate(listUrl, { preventScrollReset: true })
+      }}
+    >
+      <SheetContent className="w-full sm:max-w-xl gap-0 overflow-y-auto">
+        <SheetHeader className="pr-12">
+          <SheetTitle>Submission</SheetTitle>
+          <SheetDescription>
+            Received {formatDistanceToNow(createdAt, { addSuffix: true })}
+          </SheetDescription>
+          <div className="flex items-center gap-2 pt-2">
+            <Button variant="outline" size="icon-sm" asChild={!!prevId} disabled={!prevId} title="Previous submission">
+              {prevId ? (
+                <Link to={submissionUrl(prevId)} preventScrollReset>
+                  <ChevronUp className="h-4 w-4" />
+                </Link>
+              ) : (
+                <ChevronUp className="h-4 w-4" />
+              )}
+            </Button>
+            <Button variant="outline" size="icon-sm" asChild={!!nextId} disabled={!nextId} title="Next submission">
+              {nextId ? (
+                <Link to={submissionUrl(nextId)} preventScrollReset>
+                  <ChevronDown className="h-4 w-4" />
+                </Link>
+              ) : (
+                <ChevronDown className="h-4 w-4" />
+              )}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleCopy} className="ml-auto text-xs">
+              {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+              {copied ? "Copied!" : "Copy as JSON"}
+            </Button>
+            {/* Posting to the list route closes the sheet once the action completes */}
+            <Form method="post" action={listUrl} preventScrollReset className="flex items-center gap-2">
+              <input type="hidden" name="id" value={submission.id} />
+              {!deletedAt && (submission.spam_reason ? (
+                <Button type="submit" name="intent" value="not-spam" variant="outline" size="sm" disabled={isSubmitting} className="text-xs">
+                  <ShieldCheck className="h-3 w-3" />
+                  Not spam
+                </Button>
+              ) : (
+                <Button type="submit" name="intent" value="spam" variant="outline" size="sm" disabled={isSubmitting} className="text-xs">
+                  <ShieldAlert className="h-3 w-3" />
+                  Spam
+                </Button>
+              ))}
+              {deletedAt ? (
+                <Button type="submit" name="intent" value="restore" variant="outline" size="sm" disabled={isSubmitting} className="text-xs">
+                  <RotateCcw className="h-3 w-3" />
+                  Restore
+                </Button>
+              ) : (
+                <Button type="submit" name="intent" value="delete" variant="outline" size="sm" disabled={isSubmitting} className="text-xs text-destructive hover:text-destructive">
+                  <Trash2 className="h-3 w-3" />
+                  Delete
+                </Button>
+              )}
+            </Form>
+          </div>
+        </SheetHeader>
+
+        <div className="space-y-6 p-4 pt-2">
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium">Fields</h3>
+            {Object.keys(submission.data).length === 0 ? (
+              <p className="text-sm text-muted-foreground italic">No data submitted</p>
+            ) : (
+              <dl className="divide-y rounded-md border">
+                {Object.entries(submission.data).map(([key, value]) => (
+                  <div key={key} className="grid gap-1 p-3 text-sm sm:grid-cols-3 sm:gap-4">
+                    <dt className="font-medium text-muted-foreground break-words">{key}</dt>
+                    <dd className="sm:col-span-2 min-w-0">
+                      <FieldValue value={value} />
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </section>
+
+          <Separator />
+
+          {metadata.length > 0 && (
+            <>
+              <section className="space-y-3">
+                <h3 className="text-sm font-medium">Source</h3>
+                <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
+                  {metadata.map(({ key, label }) => (
+                    <div key={key} className="contents">
+                      <dt className="text-muted-foreground">{label}</dt>
+                      <dd className="col-span-2 min-w-0 break-all">
+                        <Link
+                          to={filterUrl(key, submission.metadata[key]!)}
+                          preventScrollReset
+                          title={`Show submissions with the same ${label}`}
+                          className={`underline-offset-2 hover:underline ${key === "ip" || key === "user_agent" ? "font-mono text-xs" : ""}`}
+                        >
+                          {submission.metadata[key]}
+                        </Link>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </section>
+
+              <Separator />
+            </>
+          )}
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium">Details</h3>
+            <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Submission ID</dt>
+              <dd className="col-span-2 font-mono text-xs break-all">{submission.id}</dd>
+              <dt className="text-muted-foreground">Received</dt>
+              <dd className="col-span-2">
+                {createdAt.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "medium" })}
+              </dd>
+              <dt className="text-muted-foreground">Timestamp</dt>
+              <dd className="col-span-2 font-mono text-xs">{createdAt.toISOString()}</dd>
+              {submission.spam_reason && (
+                <>
+                  <dt className="text-muted-foreground">Spam</dt>
+                  <dd className="col-span-2">{submission.spam_reason}</dd>
+                </>
+              )}
+              {deletedAt && purgeAt && (
+                <>
+                  <dt className="text-muted-foreground">Deleted</dt>
+                  <dd className="col-span-2">
+                    {deletedAt.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "medium" })}
+                  </dd>
+                  <dt className="text-muted-foreground">Purged</dt>
+                  <dd className="col-span-2">
+                    {purgeAt.toLocaleDateString(undefined, { dateStyle: "medium" })} unless restored
+                  </dd>
+                </>
+              )}
+            </dl>
+          </section>
+
+          <Separator />
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium">Raw JSON</h3>
+            <Highlight theme={themes.vsDark} code={rawJson} language="json">
+              {({ className, style, tokens, getLineProps, getTokenProps }) => (
+                <pre
+                  className={className}
+                  style={{
+                    ...style,
+                    margin: 0,
+                    borderRadius: "0.375rem",
+                    fontSize: "0.75rem",
+                    padding: "0.75rem",
+                    overflowX: "auto",
+                  }}
+                >
+                  {tokens.map((line, i) => (
+                    <div key={i} {...getLineProps({ line })}>
+                      {line.map((token, key) => (
+                        <span key={key} {...getTokenProps({ token })} />
+                      ))}
+                    </div>
+                  ))}
+                </pre>
+              )}
+            </Highlight>
+          </section>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
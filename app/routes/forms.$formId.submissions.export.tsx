@@ -0,0 +1,94 @@
+import type { Route } from "./+types/forms.$formId.submissions.export"
+import { redirect } from "react-router"
+import { getAuth } from "~/lib/auth.server"
+import {
+  hasSubmissionMetadata,
+  iterateSubmissions,
+  listSubmissionFields,
+  parseSubmissionListParams,
+} from "~/lib/submissions.server"
+import { listFieldNames } from "~/lib/fields.server"
+import { METADATA_FIELDS } from "~/lib/metadata"
+import { getFileUrl, isFileReference } from "~/lib/files"
+
+// Streams every submission matching the dashboard's search and sort as CSV
+export async function loader({ params, context, request }: Route.LoaderArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Resource routes skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return redirect("/login")
+  }
+
+  const url = new URL(request.url)
+  const listParams = parseSubmissionListParams(url.searchParams)
+  // The field catalog only covers the inbox, so spam and trash add the fields only they have
+  const catalogKeys = await listFieldNames(db, formId)
+  const dataKeys = listParams.view === "inbox"
+    ? catalogKeys
+    : [...new Set([...catalogKeys, ...await listSubmissionFields(db, formId, listParams.view)])]
+  // Metadata columns are only added for forms that have captured some
+  const metadataFields = await hasSubmissionMetadata(db, formId) ? METADATA_FIELDS : []
+  const fileUrl = (fileId: string) => `${url.origin}${getFileUrl(formId, fileId)}`
+
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const headers = ["ID", "Created At", ...metadataFields.map((field) => field.label), ...dataKeys]
+        controller.enqueue(encoder.encode(headers.map(escapeCSV).join(",") + "\n"))
+
+        for await (const sub of iterateSubmissions(db, formId, listParams)) {
+          const date = new Date(sub.created_at).toISOString()
+          const metadataValues = metadataFields.map((field) => escapeCSV(sub.metadata[field.key]))
+          const dataValues = dataKeys.map((key) => escapeCSV(exportValue(sub.data[key], fileUrl)))
+          controller.enqueue(encoder.encode([escapeCSV(sub.id), escapeCSV(date), ...metadataValues, ...dataValues].join(",") + "\n"))
+        }
+
+        controller.close()
+      } catch (error) {
+        console.error("Error exporting submissions:", error)
+        controller.error(error)
+      }
+    },
+  })
+
+  const filename = `submissions-${new Date().toISOString().split("T")[0]}.csv`
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  })
+}
+
+// Uploaded files are exported as their dashboard download links
+function exportValue(value: unknown, fileUrl: (fileId: string) => string): unknown {
+  if (isFileReference(value)) return fileUrl(value.id)
+  if (Array.isArray(value) && value.some(isFileReference)) {
+    return value.map((item) => (isFileReference(item) ? fileUrl(item.id) : item)).join(", ")
+  }
+  return value
+}
+
+// Wrap in quotes if the value contains a comma, quote, or newline
+function escapeCSV(value: unknown): string {
+  if (value === undefined || value === null) return ""
+
+  let stringValue = typeof value === "object" ? JSON.stringify(value) : String(value)
+  // Spreadsheets run submitted text starting with these as a formula; the quote makes it plain text
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(stringValue)) {
+    stringValue = `'${stringValue}`
+  }
+  if (/[",\r\n]/.test(stringValue)) {
+    return `"${stringValue.replace(/"/g, '""')}"`
+  }
+  return stringValue
+}
@@ -1,15 +1,32 @@
-import { Link, useLoaderData } from "react-router"
+import { useEffect } from "react"
+import { data, Link, Outlet, useFetcher, useLoaderData, useNavigate, useParams, useRevalidator, useSearchParams } from "react-router"
 import type { Route } from "./+types/forms.$formId.submissions"
 import { createColumns } from "./forms.$formId.submissions/columns"
-import type { Submission } from "./forms.$formId.submissions/columns"
 import { DataTable } from "./forms.$formId.submissions/data-table"
 import { Empty, EmptyContent, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from "~/components/ui/empty"
 import { Button } from "~/components/ui/button"
+import { Tabs, TabsList, TabsTrigger } from "~/components/ui/tabs"
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card"
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "~/components/ui/chart"
 import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
-import { Inbox, TrendingUp, TrendingDown, Download } from "lucide-react"
+import { Inbox, TrendingUp, TrendingDown, Download, Trash2, RotateCcw, ShieldAlert, ShieldCheck } from "lucide-react"
 import type { ChartConfig } from "~/components/ui/chart"
+import type { Submission } from "#/types/submission"
+import { getAuth } from "~/lib/auth.server"
+import {
+  countSubmissions,
+  listSubmissions,
+  markSubmissionsAsNotSpam,
+  markSubmissionsAsSpam,
+  parseSubmissionListParams,
+  purgeSubmissions,
+  restoreSubmissions,
+  trashSubmissions,
+  TRASH_RETENTION_DAYS,
+} from "~/lib/submissions.server"
+import { listFieldNames } from "~/lib/fields.server"
+import { getSubmissionChart, getSubmissionStats, parseChartParams } from "~/lib/stats.server"
+import type { ChartBucket, ChartRange } from "~/lib/stats.server"
 
 export const meta: Route.MetaFunction = () => {
   return [
@@ -18,76 +35,97 @@ export const meta: Route.MetaFunction = () => {
   ];
 };
 
-export async function loader({ params, context }: Route.LoaderArgs) {
+export async function loader({ params, context, request }: Route.LoaderArgs) {
   const { formId } = params
   const db = context.cloudflare.env.DB
+  const url = new URL(request.url)
 
-  // Fetch all submissions for this form
-  const submissions = await db
-    .prepare(
-      "SELECT id, form_id, data, created_at FROM submissions WHERE form_id = ? ORDER BY created_at DESC"
+  // Fetch the requested page of submissions
+  const listParams = parseSubmissionListParams(url.searchParams)
+  const page = await listSubmissions(db, formId, listParams)
+
+  // Aggregate stats and the chart in SQL
+  const chartParams = parseChartParams(request)
+  const [fields, stats, chartData, spamCount, trashCount] = await Promise.all([
+    listFieldNames(db, formId),
+    getSubmissionStats(db, formId),
+    getSubmissionChart(db, formId, chartParams),
+    countSubmissions(db, formId, { view: "spam", q: "" }),
+    countSubmissions(db, formId, { view: "trash", q: "" }),
+  ])
+
+  return {
+    ...page,
+    view: listParams.view,
+    fields,
+    spamCount,
+    trashCount,
+    trashRetentionDays: TRASH_RETENTION_DAYS,
+    stats,
+    chartData,
+    chartParams,
+  }
+}
+
+export async function action({ params, request, context }: Route.ActionArgs) {
+  const { formId } = params
+  const db = context.cloudflare.env.DB
+
+  // Actions skip the /forms layout loader, so check auth here
+  const auth = getAuth({ database: db })
+  const session = await auth.api.getSession({
+    headers: request.headers
+  })
+  if (!session?.user) {
+    return data({ success: false, error: "Not Authorized" }, { status: 401 })
+  }
+
+  const formData = await request.formData()
+  const intent = formData.get("intent")
+  const ids = formData.getAll("id").map(String)
+
+  if (intent !== "empty-trash" && ids.length === 0) {
+    return data(
+      { success: false, error: "No submissions selected" },
+      { status: 400 }
     )
-    .bind(formId)
-    .all()
-
-  // Parse the JSON data field for each submission
-  const parsedSubmissions: Submission[] = submissions.results.map((row: any) => ({
-    id: row.id,
-    form_id: row.form_id,
-    data: JSON.parse(row.data),
-    created_at: row.created_at,
-  }))
-
-  // Calculate stats
-  const total = parsedSubmissions.length
-  const now = Date.now()
-  const oneWeekAgo = now - 7 * 24 * 60 * 60 * 1000
-  const twoWeeksAgo = now - 14 * 24 * 60 * 60 * 1000
-  const oneMonthAgo = now - 30 * 24 * 60 * 60 * 1000
-  const twoMonthsAgo = now - 60 * 24 * 60 * 60 * 1000
-
-  const thisWeek = parsedSubmissions.filter(
-    (s) => s.created_at >= oneWeekAgo
-  ).length
-  const previousWeek = parsedSubmissions.filter(
-    (s) => s.created_at >= twoWeeksAgo && s.created_at < oneWeekAgo
-  ).length
-  const thisMonth = parsedSubmissions.filter(
-    (s) => s.created_at >= oneMonthAgo
-  ).length
-  const previousMonth = parsedSubmissions.filter(
-    (s) => s.created_at >= twoMonthsAgo && s.created_at < oneMonthAgo
-  ).length
-
-  // Calculate trends
-  const weekTrend = previousWeek === 0
-    ? (thisWeek > 0 ? 100 : 0)
-    : Math.round(((thisWeek - previousWeek) / previousWeek) * 100)
-  const monthTrend = previousMonth === 0
-    ? (thisMonth > 0 ? 100 : 0)
-    : Math.round(((thisMonth - previousMonth) / previousMonth) * 100)
-
-  // Calculate daily submissions for the past 30 days
-  const dailySubmissions: { date: string; count: number }[] = []
-  for (let i = 29; i >= 0; i--) {
-    const date = new Date(now - i * 24 * 60 * 60 * 1000)
-    const startOfDay = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
-    const endOfDay = startOfDay + 24 * 60 * 60 * 1000
-
-    const count = parsedSubmissions.filter(
-      (s) => s.created_at >= startOfDay && s.created_at < endOfDay
-    ).length
-
-    dailySubmissions.push({
-      date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-      count,
-    })
   }
 
-  return {
-    submissions: parsedSubmissions,
-    stats: { total, thisWeek, thisMonth, weekTrend, monthTrend },
-    chartData: dailySubmissions,
+  try {
+    let count: number
+    switch (intent) {
+      case "delete":
+        count = await trashSubmissions(db, formId, ids)
+        break
+      case "restore":
+        count = await restoreSubmissions(db, formId, ids)
+        break
+      case "spam":
+        count = await markSubmissionsAsSpam(db, formId, ids)
+        break
+      case "not-spam":
+        count = await markSubmissionsAsNotSpam(db, formId, ids)
+        break
+      case "purge":
+        count = await purgeSubmissions(db, formId, ids)
+        break
+      case "empty-trash":
+        count = await purgeSubmissions(db, formId)
+        break
+      default:
+        return data(
+          { success: false, error: "Unknown action" },
+          { status: 400 }
+        )
+    }
+
+    return data({ success: true, count }, { status: 200 })
+  } catch (error) {
+    console.error("Error updating submissions:", error)
+    return data(
+      { success: false, error: "Failed to update submissions" },
+      { status: 500 }
+    )
   }
 }
 
@@ -98,57 +136,151 @@ const chartConfig = {
   },
 } satisfies ChartConfig
 
+const rangeOptions: { value: ChartRange; label: string; title: string }[] = [
+  { value: 7, label: "7d", title: "Last 7 Days" },
+  { value: 30, label: "30d", title: "Last 30 Days" },
+  { value: 90, label: "90d", title: "Last 90 Days" },
+  { value: 365, label: "1y", title: "Last Year" },
+]
+
+const bucketOptions: { value: ChartBucket; label: string }[] = [
+  { value: "hour", label: "Hour" },
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+]
+
 export default function SubmissionsPage() {
-  const { submissions, stats, chartData } = useLoaderData<typeof loader>()
-
-  // Generate columns based on submission data
-  const columns = createColumns(submissions)
-
-  const exportToCSV = () => {
-    if (submissions.length === 0) return
-
-    // Helper to escape CSV values
-    const escapeCSV = (value: any) => {
-      const stringValue = value !== undefined && value !== null ? String(value) : ''
-      // Always wrap in quotes if contains comma, quote, or newline
-      if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-        return `"${stringValue.replace(/"/g, '""')}"`
-      }
-      return stringValue
+  const {
+    submissions,
+    total,
+    nextCursor,
+    prevCursor,
+    view,
+    fields,
+    spamCount,
+    trashCount,
+    trashRetentionDays,
+    stats,
+    chartData,
+    chartParams,
+  } = useLoaderData<typeof loader>()
+  const params = useParams()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const revalidator = useRevalidator()
+  const navigate = useNavigate()
+  const bulkFetcher = useFetcher()
+
+  // Chart buckets follow the browser's timezone, which the server reads from a cookie
+  useEffect(() => {
+    const tzOffset = -new Date().getTimezoneOffset()
+    if (tzOffset !== chartParams.tzOffset) {
+      document.cookie = `tz_offset=${tzOffset}; path=/; max-age=31536000; samesite=lax`
+      revalidator.revalidate()
     }
+  }, [chartParams.tzOffset])
 
-    // Get all unique keys from all submissions
-    const allKeys = new Set<string>()
-    submissions.forEach(sub => {
-      Object.keys(sub.data).forEach(key => allKeys.add(key))
-    })
-    const dataKeys = Array.from(allKeys).sort()
-
-    // Create CSV headers
-    const headers = ['ID', 'Created At', ...dataKeys]
-
-    // Create CSV rows
-    const rows = submissions.map(sub => {
-      const date = new Date(sub.created_at).toLocaleString()
-      const dataValues = dataKeys.map(key => escapeCSV(sub.data[key]))
-      return [escapeCSV(sub.id), escapeCSV(date), ...dataValues].join(',')
-    })
-
-    // Combine headers and rows
-    const csv = [headers.join(','), ...rows].join('\n')
-
-    // Download CSV
-    const blob = new Blob([csv], { type: 'text/csv' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `submissions-${new Date().toISOString().split('T')[0]}.csv`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+  const updateChartParam = (key: "range" | "bucket", value: string) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev)
+        next.set(key, value)
+        // Hourly buckets are only available for the 7 day range
+        if (key === "range" && value !== "7" && next.get("bucket") === "hour") {
+          next.delete("bucket")
+        }
+        return next
+      },
+      { replace: true, preventScrollReset: true }
+    )
   }
 
+  const changeView = (value: string) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev)
+        if (value === "inbox") {
+          next.delete("view")
+        } else {
+          next.set("view", value)
+        }
+        next.delete("after")
+        next.delete("before")
+        return next
+      },
+      { preventScrollReset: true }
+    )
+  }
+
+  const submitBulkAction = (intent: string, ids: string[] = []) => {
+    const formData = new FormData()
+    formData.append("intent", intent)
+    ids.forEach((id) => formData.append("id", id))
+    bulkFetcher.submit(formData, { method: "post" })
+  }
+
+  const isBulkSubmitting = bulkFetcher.state !== "idle"
+
+  const renderBulkActions = (rows: Submission[]) => {
+    const ids = rows.map((row) => row.id)
+
+    if (view === "trash") {
+      return (
+        <>
+          <Button variant="outline" size="sm" disabled={isBulkSubmitting} onClick={() => submitBulkAction("restore", ids)}>
+            <RotateCcw className="h-3 w-3" />
+            Restore
+          </Button>
+          <Button
+            variant="destructive"
+            size="sm"
+            disabled={isBulkSubmitting}
+            onClick={() => {
+              if (confirm(`Permanently delete ${ids.length} submission(s)? This cannot be undone.`)) {
+                submitBulkAction("purge", ids)
+              }
+            }}
+          >
+            <Trash2 className="h-3 w-3" />
+            Delete permanently
+          </Button>
+        </>
+      )
+    }
+
+    return (
+      <>
+        {view === "spam" ? (
+          <Button variant="outline" size="sm" disabled={isBulkSubmitting} onClick={() => submitBulkAction("not-spam", ids)}>
+            <ShieldCheck className="h-3 w-3" />
+            Not spam
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" disabled={isBulkSubmitting} onClick={() => submitBulkAction("spam", ids)}>
+            <ShieldAlert className="h-3 w-3" />
+            Mark as spam
+          </Button>
+        )}
+        <Button variant="outline" size="sm" disabled={isBulkSubmitting} onClick={() => submitBulkAction("delete", ids)}>
+          <Trash2 className="h-3 w-3" />
+          Delete
+        </Button>
+      </>
+    )
+  }
+
+  const chartTitle = rangeOptions.find((option) => option.value === chartParams.range)?.title
+
+  // One column per catalogued field, plus any this page has that the catalog doesn't
+  const columns = createColumns(fields, submissions)
+
+  // Export everything matching the current search and sort, not just this page
+  const exportParams = new URLSearchParams(searchParams)
+  exportParams.delete("after")
+  exportParams.delete("before")
+  exportParams.delete("limit")
+  const exportUrl = `/forms/${params.formId}/submissions/export?${exportParams.toString()}`
+
   return (
     <div className="flex flex-1 flex-col gap-2 min-w-0">
       <div className="grid gap-2 md:grid-cols-2 lg:grid-cols-3 min-w-0">
@@ -179,8 +311,33 @@ export default function SubmissionsPage() {
       </div>
 
       <Card>
-        <CardHeader className="pb-2">
-          <CardTitle className="text-base">Last 30 Days</CardTitle>
+        <CardHeader className="pb-2 flex flex-row flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base">{chartTitle}</CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <Tabs value={String(chartParams.range)} onValueChange={(value) => updateChartParam("range", value)}>
+              <TabsList className="h-8">
+                {rangeOptions.map((option) => (
+                  <TabsTrigger key={option.value} value={String(option.value)} className="text-xs">
+                    {option.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <Tabs value={chartParams.bucket} onValueChange={(value) => updateChartParam("bucket", value)}>
+              <TabsList className="h-8">
+                {bucketOptions.map((option) => (
+                  <TabsTrigger
+                    key={option.value}
+                    value={option.value}
+                    disabled={option.value === "hour" && chartParams.range !== 7}
+                    className="text-xs"
+                  >
+                    {option.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
         </CardHeader>
         <CardContent className="pb-4">
           <ChartContainer config={chartConfig} className="h-[140px] w-full">
@@ -213,7 +370,7 @@ export default function SubmissionsPage() {
         </CardContent>
       </Card>
 
-      {submissions.length === 0 ? (
+      {stats.total === 0 && spamCount === 0 && trashCount === 0 ? (
         <div className="flex flex-1 items-center justify-center min-w-0 py-12">
           <Empty>
             <EmptyHeader>
@@ -233,22 +390,79 @@ export default function SubmissionsPage() {
           </Empty>
         </div>
       ) : (
-        <DataTable
-          columns={columns}
-          data={submissions}
-          headerAction={
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={exportToCSV}
-              className="h-9 gap-1.5 text-xs"
-            >
-              <Download className="h-3 w-3" />
-              Export CSV
-            </Button>
-          }
-        />
+        <div className="space-y-2 min-w-0">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <Tabs value={view} onValueChange={changeView}>
+              <TabsList>
+                <TabsTrigger value="inbox">Submissions</TabsTrigger>
+                <TabsTrigger value="spam">
+                  Spam{spamCount > 0 ? ` (${spamCount})` : ""}
+                </TabsTrigger>
+                <TabsTrigger value="trash">
+                  Trash{trashCount > 0 ? ` (${trashCount})` : ""}
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {view === "trash" && (
+              <p className="text-sm text-muted-foreground">
+                Submissions in the trash are permanently deleted after {trashRetentionDays} days.
+              </p>
+            )}
+            {view === "spam" && (
+              <p className="text-sm text-muted-foreground">
+                Spam is kept out of notifications and stats.
+              </p>
+            )}
+          </div>
+          <DataTable
+            columns={columns}
+            data={submissions}
+            total={total}
+            nextCursor={nextCursor}
+            prevCursor={prevCursor}
+            emptyMessage={view === "trash" ? "Trash is empty." : view === "spam" ? "No spam." : "No submissions yet."}
+            getRowId={(submission) => submission.id}
+            bulkActions={renderBulkActions}
+            onRowClick={(submission) =>
+              navigate(`/forms/${params.formId}/submissions/${submission.id}?${searchParams.toString()}`, { preventScrollReset: true })
+            }
+            headerAction={
+              <>
+                {view === "trash" && trashCount > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isBulkSubmitting}
+                    onClick={() => {
+                      if (confirm("Permanently delete every submission in the trash? This cannot be undone.")) {
+                        submitBulkAction("empty-trash")
+                      }
+                    }}
+                    className="h-9 gap-1.5 text-xs text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    Empty trash
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  asChild
+                  className="h-9 gap-1.5 text-xs"
+                >
+                  <a href={exportUrl} download>
+                    <Download className="h-3 w-3" />
+                    Export CSV
+                  </a>
+                </Button>
+              </>
+            }
+          />
+        </div>
       )}
+
+      {/* Submission detail sheet */}
+      <Outlet />
     </div>
   )
 }
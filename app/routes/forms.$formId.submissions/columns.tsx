@@ -8,15 +8,38 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "#/components/ui/tooltip"
+import type { Submission } from "#/types/submission"
+import { formatCellValue } from "./field-value"
 
-export type Submission = {
-  id: string
-  form_id: string
-  data: Record<string, any>
-  created_at: number
-}
+export function createColumns(fields: string[], submissions: Submission[]): ColumnDef<Submission>[] {
+  // Checkbox column for bulk actions; clicks must not open the row
+  const selectColumn: ColumnDef<Submission> = {
+    id: "select",
+    header: ({ table }) => (
+      <input
+        type="checkbox"
+        aria-label="Select all"
+        className="size-4 align-middle accent-primary"
+        checked={table.getIsAllPageRowsSelected()}
+        ref={(el) => {
+          if (el) el.indeterminate = table.getIsSomePageRowsSelected()
+        }}
+        onChange={table.getToggleAllPageRowsSelectedHandler()}
+      />
+    ),
+    cell: ({ row }) => (
+      <input
+        type="checkbox"
+        aria-label="Select row"
+        className="size-4 align-middle accent-primary"
+        checked={row.getIsSelected()}
+        onChange={row.getToggleSelectedHandler()}
+        onClick={(e) => e.stopPropagation()}
+      />
+    ),
+    enableSorting: false,
+  }
 
-export function createColumns(submissions: Submission[]): ColumnDef<Submission>[] {
   // Time column comes first
   const timeColumn: ColumnDef<Submission> = {
     accessorKey: "created_at",
@@ -58,55 +81,34 @@ export function createColumns(submissions: Submission[]): ColumnDef<Submission>[
     },
   }
 
-  // Extract all unique field names from submission data
-  const fieldNames = new Set<string>()
+  // Catalog order first; spam and trash can hold fields the inbox catalog doesn't know
+  const fieldNames = new Set(fields)
   submissions.forEach((submission) => {
     Object.keys(submission.data).forEach((key) => fieldNames.add(key))
   })
+  const sortedFields = Array.from(fieldNames)
 
-  // Sort field names: email first if exists, then alphabetically
-  const sortedFields = Array.from(fieldNames).sort((a, b) => {
-    if (a === "email") return -1
-    if (b === "email") return 1
-    return a.localeCompare(b)
-  })
-
-  // Create columns for each field
-  const dataColumns: ColumnDef<Submission>[] = sortedFields.map((fieldName) => {
-    // Make email column sortable
-    if (fieldName === "email") {
-      return {
-        id: fieldName,
-        accessorFn: (row) => row.data[fieldName],
-        header: ({ column }) => {
-          return (
-            <Button
-              variant="ghost"
-              onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
-            >
-              Email
-              <ArrowUpDown className="ml-2 h-4 w-4" />
-            </Button>
-          )
-        },
-        cell: ({ row }) => {
-          const value = row.original.data[fieldName]
-          return <div className="text-sm">{value?.toString() || ""}</div>
-        },
-      }
-    }
-
-    // Regular columns
-    return {
-      id: fieldName,
-      accessorFn: (row) => row.data[fieldName],
-      header: fieldName.charAt(0).toUpperCase() + fieldName.slice(1),
-      cell: ({ row }) => {
-        const value = row.original.data[fieldName]
-        return <div className="text-sm">{value?.toString() || ""}</div>
-      },
-    }
-  })
+  // Create a sortable column for each field; ids are prefixed so a field
+  // called "created_at" can't clash with the time column
+  const dataColumns: ColumnDef<Submission>[] = sortedFields.map((fieldName) => ({
+    id: `data.${fieldName}`,
+    accessorFn: (row) => row.data[fieldName],
+    header: ({ column }) => {
+      return (
+        <Button
+          variant="ghost"
+          onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+        >
+          {fieldName.charAt(0).toUpperCase() + fieldName.slice(1)}
+          <ArrowUpDown className="ml-2 h-4 w-4" />
+        </Button>
+      )
+    },
+    cell: ({ row }) => {
+      const value = formatCellValue(row.original.data[fieldName])
+      return <div className="text-sm max-w-xs truncate" title={value}>{value}</div>
+    },
+  }))
 
-  return [timeColumn, ...dataColumns]
+  return [selectColumn, timeColumn, ...dataColumns]
 }
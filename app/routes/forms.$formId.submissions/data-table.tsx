@@ -1,14 +1,17 @@
 import * as React from "react"
 import type {
   ColumnDef,
+  RowSelectionState,
   SortingState,
+  Updater,
 } from "@tanstack/react-table"
 import {
   flexRender,
   getCoreRowModel,
-  getSortedRowModel,
   useReactTable,
 } from "@tanstack/react-table"
+import { Link, useNavigation, useSearchParams } from "react-router"
+import { ChevronLeft, ChevronRight, X } from "lucide-react"
 
 import {
   Table,
@@ -18,47 +21,131 @@ import {
   TableHeader,
   TableRow,
 } from "#/components/ui/table"
+import { Button } from "~/components/ui/button"
 import { Input } from "~/components/ui/input"
+import { METADATA_FIELDS } from "~/lib/metadata"
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[]
   data: TData[]
+  total: number
+  nextCursor: string | null
+  prevCursor: string | null
   headerAction?: React.ReactNode
+  emptyMessage?: string
+  getRowId?: (row: TData) => string
+  onRowClick?: (row: TData) => void
+  bulkActions?: (selectedRows: TData[]) => React.ReactNode
 }
 
+// Search, sort and cursor live in the URL so the loader can page on the server
 export function DataTable<TData, TValue>({
   columns,
   data,
+  total,
+  nextCursor,
+  prevCursor,
   headerAction,
+  emptyMessage = "No submissions yet.",
+  getRowId,
+  onRowClick,
+  bulkActions,
 }: DataTableProps<TData, TValue>) {
-  const [sorting, setSorting] = React.useState<SortingState>([
-    { id: "created_at", desc: true }, // Default sort by created_at descending
-  ])
-  const [searchQuery, setSearchQuery] = React.useState("")
+  const [searchParams, setSearchParams] = useSearchParams()
+  const navigation = useNavigation()
+  const [searchQuery, setSearchQuery] = React.useState(searchParams.get("q") || "")
+  const [rowSelection, setRowSelection] = React.useState<RowSelectionState>({})
 
-  // Filter data based on search query across all fields
-  const filteredData = React.useMemo(() => {
-    if (!searchQuery.trim()) return data
+  // Selection only applies to the rows currently on screen
+  React.useEffect(() => {
+    setRowSelection({})
+  }, [data])
 
-    const query = searchQuery.toLowerCase()
-    return data.filter((item) => {
-      // Search across all values in the object
-      const searchableString = JSON.stringify(item).toLowerCase()
-      return searchableString.includes(query)
+  const sorting: SortingState = [
+    {
+      id: searchParams.get("sort") || "created_at",
+      desc: searchParams.get("dir") !== "asc",
+    },
+  ]
+
+  // Any change to search or sort starts again from the first page
+  const updateParams = (update: (params: URLSearchParams) => void) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev)
+        update(next)
+        next.delete("after")
+        next.delete("before")
+        return next
+      },
+      { replace: true, preventScrollReset: true }
+    )
+  }
+
+  // Debounce search so we don't hit the loader on every keystroke
+  React.useEffect(() => {
+    const query = searchQuery.trim()
+    if (query === (searchParams.get("q") || "")) return
+
+    const timer = setTimeout(() => {
+      updateParams((params) => {
+        if (query) {
+          params.set("q", query)
+        } else {
+          params.delete("q")
+        }
+      })
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  const handleSortingChange = (updater: Updater<SortingState>) => {
+    const [next] = typeof updater === "function" ? updater(sorting) : updater
+    updateParams((params) => {
+      if (!next || (next.id === "created_at" && next.desc)) {
+        params.delete("sort")
+        params.delete("dir")
+        return
+      }
+      params.set("sort", next.id)
+      params.set("dir", next.desc ? "desc" : "asc")
     })
-  }, [data, searchQuery])
+  }
 
   const table = useReactTable({
-    data: filteredData,
+    data,
     columns,
-    onSortingChange: setSorting,
+    getRowId,
+    onSortingChange: handleSortingChange,
+    onRowSelectionChange: setRowSelection,
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
+    manualSorting: true,
+    manualFiltering: true,
+    manualPagination: true,
+    enableSortingRemoval: false,
+    enableRowSelection: !!bulkActions,
     state: {
       sorting,
+      rowSelection,
     },
   })
 
+  const selectedRows = table.getSelectedRowModel().rows.map((row) => row.original)
+
+  const pageLink = (cursor: string, direction: "after" | "before") => {
+    const params = new URLSearchParams(searchParams)
+    params.delete("after")
+    params.delete("before")
+    params.set(direction, cursor)
+    return `?${params.toString()}`
+  }
+
+  const isLoading = navigation.state === "loading"
+  const query = searchParams.get("q")
+  const activeFilters = METADATA_FIELDS.filter(({ key }) => searchParams.get(key))
+  const isFiltered = !!query || activeFilters.length > 0
+
   return (
     <div className="space-y-2 min-w-0">
       <div className="flex items-center justify-between gap-2">
@@ -70,7 +157,35 @@ export function DataTable<TData, TValue>({
         />
         {headerAction && <div className="flex items-center gap-2">{headerAction}</div>}
       </div>
-      <div className="overflow-x-auto rounded-md border">
+      {activeFilters.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {activeFilters.map(({ key, label }) => (
+            <Button
+              key={key}
+              variant="secondary"
+              size="sm"
+              className="max-w-full text-xs"
+              title="Remove filter"
+              onClick={() => updateParams((params) => params.delete(key))}
+            >
+              <span className="truncate">{label}: {searchParams.get(key)}</span>
+              <X className="h-3 w-3" />
+            </Button>
+          ))}
+        </div>
+      )}
+      {bulkActions && selectedRows.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border bg-muted/50 px-3 py-2">
+          <span className="text-sm font-medium">{selectedRows.length} selected</span>
+          <div className="flex items-center gap-2">
+            {bulkActions(selectedRows)}
+            <Button variant="ghost" size="sm" onClick={() => table.resetRowSelection()}>
+              Clear
+            </Button>
+          </div>
+        </div>
+      )}
+      <div className={`overflow-x-auto rounded-md border transition-opacity ${isLoading ? "opacity-60" : ""}`}>
         <Table>
           <TableHeader>
             {table.getHeaderGroups().map((headerGroup) => (
@@ -96,6 +211,8 @@ export function DataTable<TData, TValue>({
                 <TableRow
                   key={row.id}
                   data-state={row.getIsSelected() && "selected"}
+                  onClick={onRowClick ? () => onRowClick(row.original) : undefined}
+                  className={onRowClick ? "cursor-pointer" : undefined}
                 >
                   {row.getVisibleCells().map((cell) => (
                     <TableCell key={cell.id}>
@@ -113,17 +230,47 @@ export function DataTable<TData, TValue>({
                   colSpan={columns.length}
                   className="h-24 text-center"
                 >
-                  No submissions yet.
+                  {isFiltered ? "No matching submissions." : emptyMessage}
                 </TableCell>
               </TableRow>
             )}
           </TableBody>
         </Table>
       </div>
-      <div className="text-muted-foreground text-sm">
-        {filteredData.length === data.length
-          ? `${data.length} total submission(s)`
-          : `${filteredData.length} of ${data.length} submission(s)`}
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-muted-foreground text-sm">
+          {isFiltered
+            ? `${total} matching submission(s)`
+            : `${total} total submission(s)`}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild={!!prevCursor} disabled={!prevCursor}>
+            {prevCursor ? (
+              <Link to={pageLink(prevCursor, "before")} preventScrollReset>
+                <ChevronLeft className="h-4 w-4" />
+                Previous
+              </Link>
+            ) : (
+              <>
+                <ChevronLeft className="h-4 w-4" />
+                Previous
+              </>
+            )}
+          </Button>
+          <Button variant="outline" size="sm" asChild={!!nextCursor} disabled={!nextCursor}>
+            {nextCursor ? (
+              <Link to={pageLink(nextCursor, "after")} preventScrollReset>
+                Next
+                <ChevronRight className="h-4 w-4" />
+              </Link>
+            ) : (
+              <>
+                Next
+                <ChevronRight className="h-4 w-4" />
+              </>
+            )}
+          </Button>
+        </div>
       </div>
     </div>
   )
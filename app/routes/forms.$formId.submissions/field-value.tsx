@@ -0,0 +1,108 @@
+import { Link, useParams } from "react-router"
+import { Paperclip } from "lucide-react"
+import { formatFileSize, getFileUrl, isFileReference } from "~/lib/files"
+import type { FileReference } from "~/lib/files"
+
+/**
+ * Formats a submitted value as a single line for table cells
+ */
+export function formatCellValue(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (isFileReference(value)) return value.name
+  if (Array.isArray(value) && value.length > 0 && value.every(isFileReference)) {
+    return value.map((file) => file.name).join(", ")
+  }
+  if (typeof value === "boolean") return value ? "Yes" : "No"
+  if (Array.isArray(value) && value.every((item) => typeof item !== "object" || item === null)) {
+    return value.join(", ")
+  }
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Renders a submitted value in full, keeping line breaks and nested structure
+ */
+export function FieldValue({ value }: { value: unknown }) {
+  if (value === null || value === undefined || value === "") {
+    return <span className="text-muted-foreground italic">Not provided</span>
+  }
+
+  if (typeof value === "boolean") {
+    return <span>{value ? "Yes" : "No"}</span>
+  }
+
+  if (isFileReference(value)) {
+    return <FileLink file={value} />
+  }
+
+  if (Array.isArray(value) && value.length > 0 && value.every(isFileReference)) {
+    return (
+      <ul className="space-y-1">
+        {value.map((file) => (
+          <li key={file.id}>
+            <FileLink file={file} />
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  if (Array.isArray(value) && value.every((item) => typeof item !== "object" || item === null)) {
+    if (value.length === 0) {
+      return <span className="text-muted-foreground italic">Empty list</span>
+    }
+    return (
+      <ul className="list-disc pl-5 space-y-0.5">
+        {value.map((item, i) => (
+          <li key={i} className="break-words">{String(item)}</li>
+        ))}
+      </ul>
+    )
+  }
+
+  if (typeof value === "object") {
+    return (
+      <pre className="rounded-md bg-muted p-2 text-xs overflow-x-auto">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    )
+  }
+
+  const stringValue = String(value)
+
+  if (/^https?:\/\//.test(stringValue)) {
+    return (
+      <a href={stringValue} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 break-all">
+        {stringValue}
+      </a>
+    )
+  }
+
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(stringValue)) {
+    return (
+      <a href={`mailto:${stringValue}`} className="underline underline-offset-2 break-all">
+        {stringValue}
+      </a>
+    )
+  }
+
+  return <span className="whitespace-pre-wrap break-words">{stringValue}</span>
+}
+
+// Downloads go through an authenticated route rather than a public bucket URL
+function FileLink({ file }: { file: FileReference }) {
+  const params = useParams()
+
+  return (
+    <Link
+      to={getFileUrl(params.formId!, file.id)}
+      reloadDocument
+      className="inline-flex items-center gap-1.5 underline underline-offset-2 break-all"
+    >
+      <Paperclip className="h-3.5 w-3.5 shrink-0" />
+      {file.name}
+      <span className="text-muted-foreground no-underline">({formatFileSize(file.size)})</span>
+    </Link>
+  )
+}
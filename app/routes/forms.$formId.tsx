@@ -26,7 +26,7 @@ export async function loader({ context, params, request }: Route.LoaderArgs) {
 
   // Fetch form details
   const result = await db
-    .prepare("SELECT id, name FROM forms WHERE id = ?")
+    .prepare("SELECT id, name, archived_at FROM forms WHERE id = ?")
     .bind(params.formId)
     .first()
 
@@ -48,8 +48,9 @@ export default function FormLayout() {
 
   const location = useLocation()
 
+  // Title comes from the section right after the form ID (/forms/:formId/:page/...)
   const pathSegments = location.pathname.split("/").filter(Boolean)
-  const currentPage = pathSegments[pathSegments.length - 1];
+  const currentPage = pathSegments[2] ?? "";
   const pageTitle = currentPage.charAt(0).toUpperCase() + currentPage.slice(1)
 
   return (<>
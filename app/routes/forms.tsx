@@ -7,6 +7,7 @@ import {
   SidebarProvider,
 } from "#/components/ui/sidebar"
 import { getAuth } from "~/lib/auth.server"
+import { generateFormId, generatePublicKey } from "~/lib/forms.server"
 
 export async function loader({ context, request }: Route.LoaderArgs) {
   const database = context.cloudflare.env.DB
@@ -22,7 +23,7 @@ export async function loader({ context, request }: Route.LoaderArgs) {
 
   // Fetch all forms
   const result = await database
-    .prepare("SELECT id, name FROM forms ORDER BY created_at ASC")
+    .prepare("SELECT id, name, archived_at FROM forms ORDER BY created_at ASC")
     .all()
 
   const forms = result.results as Form[]
@@ -32,11 +33,12 @@ export async function loader({ context, request }: Route.LoaderArgs) {
     return redirect("/setup")
   }
 
-  // If we're at exactly /forms (with or without trailing slash) and forms exist, redirect to first form's submissions
+  // If we're at exactly /forms (with or without trailing slash) and forms exist, redirect to first active form's submissions
   const url = new URL(request.url)
   const pathname = url.pathname.replace(/\/$/, "") // Remove trailing slash
   if (pathname === "/forms") {
-    return redirect(`/forms/${forms[0].id}/submissions`)
+    const firstForm = forms.find((form) => !form.archived_at) || forms[0]
+    return redirect(`/forms/${firstForm.id}/submissions`)
   }
 
   return { forms, user: session.user }
@@ -62,29 +64,17 @@ export async function action({ request, context }: Route.ActionArgs) {
     return { error: "Form name is required" }
   }
 
-  // Generate a slug from the form name
-  const id = name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-+|-+$/g, "")
-
-  // Check if form with this ID already exists
-  const existing = await database
-    .prepare("SELECT id FROM forms WHERE id = ?")
-    .bind(id)
-    .first()
-
-  if (existing) {
-    return { error: "A form with this name already exists" }
-  }
+  // The slug is only used for dashboard URLs; submissions go to the random public key
+  const id = await generateFormId(database, name)
+  const publicKey = generatePublicKey()
 
   const createdAt = Date.now()
 
   await database
     .prepare(
-      "INSERT INTO forms (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)"
+      "INSERT INTO forms (id, name, public_key, created_at, updated_at) VALUES (?, ?, ?, ?, ?)"
     )
-    .bind(id, name, createdAt, createdAt)
+    .bind(id, name, publicKey, createdAt, createdAt)
     .run()
 
   return redirect(`/forms/${id}/submissions`)
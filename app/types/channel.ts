@@ -0,0 +1,12 @@
+export type ChannelType = "slack" | "discord" | "teams"
+
+// The webhook URL itself stays on the server; only its host is shown
+export type NotificationChannel = {
+  id: string
+  form_id: string
+  type: ChannelType
+  name: string
+  webhook_host: string
+  enabled: number
+  created_at: number
+}
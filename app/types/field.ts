@@ -0,0 +1,5 @@
+export type FormField = {
+  name: string
+  type: string
+  fill_rate: number | null
+}
@@ -3,15 +3,100 @@ export type FormSettings = {
   form_id: string
   notification_email: string | null
   notification_email_password: string | null
+  smtp_password_encrypted: string | null
   smtp_host: string | null
   smtp_port: number | null
   smtp_secure: number
+  smtp_tls_mode: SmtpTlsMode | null
+  smtp_auth: number
+  smtp_ehlo_name: string | null
+  email_provider: EmailProviderType | null
+  email_api_key_encrypted: string | null
+  email_api_domain: string | null
+  email_api_region: EmailApiRegion | null
+  spam_honeypot_field: string | null
+  spam_min_submit_seconds: number | null
+  spam_timestamp_secret: string | null
+  spam_blocklist: string | null
+  spam_max_links: number | null
+  captcha_provider: string | null
+  captcha_site_key: string | null
+  captcha_secret_key: string | null
+  rate_limit_window_seconds: number | null
+  rate_limit_per_form: number | null
+  rate_limit_per_ip: number | null
+  allowed_origins: string | null
+  origin_mode: string | null
+  success_redirect_url: string | null
+  error_redirect_url: string | null
+  redirect_hosts: string | null
+  upload_max_file_size: number | null
+  upload_max_files: number | null
+  upload_allowed_types: string | null
+  field_parsing: string | null
+  field_schema: string | null
+  metadata_capture: number | null
+  metadata_ip_mode: string | null
+  metadata_ip_salt: string | null
+  autoresponder_enabled: number | null
+  autoresponder_field: string | null
+  autoresponder_subject: string | null
+  autoresponder_body: string | null
+  notification_subject_template: string | null
+  notification_html_template: string | null
+  notification_text_template: string | null
+  notification_to: string | null
+  notification_cc: string | null
+  notification_bcc: string | null
+  notification_routes: string | null
+  notification_from_name: string | null
+  notification_from_email: string | null
+  notification_reply_to_field: string | null
   updated_at: number
 }
 
-export type EmailConfig = {
+export type SmtpTlsMode = "implicit" | "starttls" | "none"
+
+export type EmailProviderType = "smtp" | "cloudflare" | "resend" | "postmark" | "mailgun" | "sendgrid"
+
+// Providers sent to over HTTP with an API key
+export type ApiEmailProviderType = Exclude<EmailProviderType, "smtp" | "cloudflare">
+
+export type EmailApiRegion = "us" | "eu"
+
+type BaseEmailConfig = {
+  // The From address, and the recipient when a form has no others
   notification_email: string
-  notification_email_password: string
+  // The SMTP_ENCRYPTION_KEY secret the password or API key was encrypted with
+  encryption_key: string
+}
+
+export type SmtpEmailConfig = BaseEmailConfig & {
+  provider: "smtp"
+  // From encryptEmailSecret; only email.server decrypts it. Null for relays without auth
+  smtp_password_encrypted: string | null
+  // A password saved before they were encrypted at rest, until the scheduled job encrypts it
+  smtp_password_legacy: string | null
   smtp_host: string
   smtp_port: number
+  smtp_tls_mode: SmtpTlsMode
+  smtp_ehlo_name: string | null
 }
+
+export type CloudflareEmailConfig = BaseEmailConfig & {
+  provider: "cloudflare"
+  binding: SendEmail
+}
+
+export type ApiEmailConfig = BaseEmailConfig & {
+  provider: ApiEmailProviderType
+  // From encryptEmailSecret, like the SMTP password
+  api_key_encrypted: string
+  // The Mailgun sending domain
+  api_domain: string | null
+  api_region: EmailApiRegion
+  // Replaces the provider's API origin, e.g. with a local mock server; from EMAIL_API_BASE_URL
+  api_base_url: string | null
+}
+
+export type EmailConfig = SmtpEmailConfig | CloudflareEmailConfig | ApiEmailConfig
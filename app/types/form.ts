@@ -1,4 +1,11 @@
 export type Form = {
   id: string
   name: string
+  archived_at: number | null
+}
+
+export type FormPublicKey = {
+  public_key: string
+  previous_public_key: string | null
+  previous_public_key_expires_at: number | null
 }
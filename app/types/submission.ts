@@ -3,6 +3,23 @@ export type Submission = {
   form_id: string
   data: Record<string, any>
   created_at: number
+  deleted_at: number | null
+  spam_reason: string | null
+  metadata: SubmissionMetadata
+}
+
+// Captured from the request when the form has metadata capture enabled
+export type SubmissionMetadata = {
+  ip: string | null
+  user_agent: string | null
+  referrer: string | null
+  country: string | null
+  city: string | null
+  utm_source: string | null
+  utm_medium: string | null
+  utm_campaign: string | null
+  utm_term: string | null
+  utm_content: string | null
 }
 
 export type SubmissionEmailData = {
@@ -10,5 +27,8 @@ export type SubmissionEmailData = {
   formId: string
   formName: string
   data: Record<string, any>
+  // Field names in catalog order; fields not in it yet follow in submitted order
+  fields: string[]
   createdAt: number
+  attachments: { name: string; size: number; url: string }[]
 }
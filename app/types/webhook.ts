@@ -0,0 +1,21 @@
+export type WebhookStatus = "pending" | "retrying" | "succeeded" | "failed"
+
+export type Webhook = {
+  id: string
+  form_id: string
+  url: string
+  enabled: number
+  created_at: number
+}
+
+export type WebhookDelivery = {
+  id: string
+  webhook_id: string
+  submission_id: string
+  status: WebhookStatus
+  attempts: number
+  response_status: number | null
+  error: string | null
+  created_at: number
+  last_attempt_at: number | null
+}
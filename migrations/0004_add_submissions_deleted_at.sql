@@ -0,0 +1,7 @@
+-- Migration number: 0004
+
+-- Soft delete: submissions stay in the trash until purged by the scheduled job
+ALTER TABLE submissions ADD COLUMN deleted_at INTEGER;
+
+CREATE INDEX idx_submissions_form_deleted ON submissions(form_id, deleted_at);
+CREATE INDEX idx_submissions_deleted_at ON submissions(deleted_at);
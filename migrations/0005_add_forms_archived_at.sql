@@ -0,0 +1,4 @@
+-- Migration number: 0005
+
+-- Archived forms are hidden from the form switcher and reject new submissions
+ALTER TABLE forms ADD COLUMN archived_at INTEGER;
@@ -0,0 +1,16 @@
+-- Migration number: 0006
+
+-- Submissions are posted to a random public key instead of the form's slug.
+-- A rotated key can stay valid until previous_public_key_expires_at (NULL = no expiry).
+ALTER TABLE forms ADD COLUMN public_key TEXT;
+ALTER TABLE forms ADD COLUMN previous_public_key TEXT;
+ALTER TABLE forms ADD COLUMN previous_public_key_expires_at INTEGER;
+
+-- Existing forms get a random key; their old slug endpoint keeps working until the key is rotated
+UPDATE forms
+SET public_key = lower(hex(randomblob(12))),
+    previous_public_key = id
+WHERE public_key IS NULL;
+
+CREATE UNIQUE INDEX idx_forms_public_key ON forms(public_key);
+CREATE INDEX idx_forms_previous_public_key ON forms(previous_public_key);
@@ -0,0 +1,13 @@
+-- Migration number: 0007
+
+-- Submissions flagged by the spam filters keep the reason; NULL means not spam
+ALTER TABLE submissions ADD COLUMN spam_reason TEXT;
+
+CREATE INDEX idx_submissions_form_spam ON submissions(form_id, deleted_at, spam_reason);
+
+-- Per-form spam filters; NULL disables a filter
+ALTER TABLE form_settings ADD COLUMN spam_honeypot_field TEXT;
+ALTER TABLE form_settings ADD COLUMN spam_min_submit_seconds INTEGER;
+ALTER TABLE form_settings ADD COLUMN spam_timestamp_secret TEXT;
+ALTER TABLE form_settings ADD COLUMN spam_blocklist TEXT; -- one keyword or /regex/ per line
+ALTER TABLE form_settings ADD COLUMN spam_max_links INTEGER;
@@ -0,0 +1,6 @@
+-- Migration number: 0008
+
+-- Optional per-form challenge verification: 'turnstile', 'hcaptcha' or 'recaptcha' (NULL = off)
+ALTER TABLE form_settings ADD COLUMN captcha_provider TEXT;
+ALTER TABLE form_settings ADD COLUMN captcha_site_key TEXT;
+ALTER TABLE form_settings ADD COLUMN captcha_secret_key TEXT;
@@ -0,0 +1,18 @@
+-- Migration number: 0009
+
+-- Fixed-window submission counters, keyed per form and per form + client IP.
+-- Expired windows are deleted by the scheduled job.
+CREATE TABLE rate_limits (
+    key TEXT NOT NULL,
+    window_start INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX idx_rate_limits_expires_at ON rate_limits(expires_at);
+
+-- Per-form limits; NULL disables a limit
+ALTER TABLE form_settings ADD COLUMN rate_limit_window_seconds INTEGER;
+ALTER TABLE form_settings ADD COLUMN rate_limit_per_form INTEGER;
+ALTER TABLE form_settings ADD COLUMN rate_limit_per_ip INTEGER;
@@ -0,0 +1,6 @@
+-- Migration number: 0010
+
+-- Origins allowed to post to the form, one per line (NULL = any origin).
+-- origin_mode decides what happens to posts from elsewhere: 'strict' rejects them, 'lenient' keeps them as spam.
+ALTER TABLE form_settings ADD COLUMN allowed_origins TEXT;
+ALTER TABLE form_settings ADD COLUMN origin_mode TEXT;
@@ -0,0 +1,7 @@
+-- Migration number: 0011
+
+-- Where HTML form posts land afterwards. A ?redirect= parameter is only honored for
+-- hosts in redirect_hosts (one per line) or the form's allowed origins.
+ALTER TABLE form_settings ADD COLUMN success_redirect_url TEXT;
+ALTER TABLE form_settings ADD COLUMN error_redirect_url TEXT;
+ALTER TABLE form_settings ADD COLUMN redirect_hosts TEXT;
@@ -0,0 +1,23 @@
+-- Migration number: 0012
+
+-- Files uploaded with submissions; the bytes live in the UPLOADS R2 bucket under r2_key.
+-- Rows whose submission has been purged are cleaned up, with their objects, by the scheduled job.
+CREATE TABLE submission_files (
+    id TEXT PRIMARY KEY,
+    submission_id TEXT NOT NULL,
+    form_id TEXT NOT NULL,
+    field TEXT NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    r2_key TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_submission_files_submission_id ON submission_files(submission_id);
+CREATE INDEX idx_submission_files_form_id ON submission_files(form_id);
+
+-- Per-form upload limits; NULL uses the defaults in app/lib/uploads.server.ts
+ALTER TABLE form_settings ADD COLUMN upload_max_file_size INTEGER; -- bytes
+ALTER TABLE form_settings ADD COLUMN upload_max_files INTEGER;
+ALTER TABLE form_settings ADD COLUMN upload_allowed_types TEXT; -- e.g. "image/*, application/pdf"
@@ -0,0 +1,5 @@
+-- Migration number: 0013
+
+-- How submitted field names are parsed: 'nested' (NULL) collects repeated names into arrays and
+-- expands address[city] / address.city into objects; 'flat' keeps the last value for each name as-is.
+ALTER TABLE form_settings ADD COLUMN field_parsing TEXT;
@@ -0,0 +1,5 @@
+-- Migration number: 0014
+
+-- Per-form field schema as a JSON array of { name, type, required, minLength, maxLength, pattern, options }.
+-- NULL or an empty array accepts any fields, as before.
+ALTER TABLE form_settings ADD COLUMN field_schema TEXT;
@@ -0,0 +1,23 @@
+-- Migration number: 0015
+
+-- Fields each form has received, inferred from its inbox submissions by the scheduled job.
+-- type is the observed kind of value (text, email, number, url, date, boolean, file, list, object or mixed);
+-- fill_rate is the share of submissions with a non-empty value. Fields first seen since the last run are
+-- added as submissions arrive, with a NULL fill_rate until the job catches up.
+CREATE TABLE form_fields (
+    form_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    fill_rate REAL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (form_id, name)
+);
+
+-- One row per form whose fields have been inferred, recording what the inference saw so the
+-- job only revisits forms whose submissions have changed since.
+CREATE TABLE field_catalogs (
+    form_id TEXT PRIMARY KEY,
+    submission_count INTEGER NOT NULL,
+    last_submission_at INTEGER,
+    inferred_at INTEGER NOT NULL
+);
@@ -0,0 +1,20 @@
+-- Migration number: 0016
+
+-- Where a submission came from, captured when the form has metadata capture enabled.
+-- ip holds the client address, or a salted hash of it, depending on the form's IP mode.
+ALTER TABLE submissions ADD COLUMN ip TEXT;
+ALTER TABLE submissions ADD COLUMN user_agent TEXT;
+ALTER TABLE submissions ADD COLUMN referrer TEXT;
+ALTER TABLE submissions ADD COLUMN country TEXT;
+ALTER TABLE submissions ADD COLUMN city TEXT;
+ALTER TABLE submissions ADD COLUMN utm_source TEXT;
+ALTER TABLE submissions ADD COLUMN utm_medium TEXT;
+ALTER TABLE submissions ADD COLUMN utm_campaign TEXT;
+ALTER TABLE submissions ADD COLUMN utm_term TEXT;
+ALTER TABLE submissions ADD COLUMN utm_content TEXT;
+
+-- Per-form capture settings: metadata_capture is 1 when enabled; metadata_ip_mode is
+-- 'full', 'hash' or 'none'; metadata_ip_salt keys the hash and never leaves the server.
+ALTER TABLE form_settings ADD COLUMN metadata_capture INTEGER;
+ALTER TABLE form_settings ADD COLUMN metadata_ip_mode TEXT;
+ALTER TABLE form_settings ADD COLUMN metadata_ip_salt TEXT;
@@ -0,0 +1,35 @@
+-- Migration number: 0017
+
+-- Endpoints that receive a signed JSON payload for each new submission.
+-- secret keys the HMAC-SHA256 signature and is only shown once, when the webhook is created.
+CREATE TABLE webhooks (
+    id TEXT PRIMARY KEY,
+    form_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at INTEGER NOT NULL,
+    FOREIGN KEY (form_id) REFERENCES forms(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_webhooks_form_id ON webhooks(form_id);
+
+-- One row per payload sent to a webhook, updated after every attempt by the queue consumer.
+-- status is 'pending', 'retrying', 'succeeded' or 'failed'. Old rows are purged by the scheduled job.
+CREATE TABLE webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    webhook_id TEXT NOT NULL,
+    form_id TEXT NOT NULL,
+    submission_id TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    last_attempt_at INTEGER,
+    FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_webhook_deliveries_form_id_created_at ON webhook_deliveries(form_id, created_at);
+CREATE INDEX idx_webhook_deliveries_created_at ON webhook_deliveries(created_at);
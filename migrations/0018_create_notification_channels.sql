@@ -0,0 +1,17 @@
+-- Migration number: 0018
+
+-- Chat apps notified of each new submission alongside email.
+-- type is 'slack', 'discord' or 'teams'; webhook_url is the app's incoming webhook and
+-- grants posting rights, so it never leaves the server once saved.
+CREATE TABLE notification_channels (
+    id TEXT PRIMARY KEY,
+    form_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    name TEXT NOT NULL,
+    webhook_url TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at INTEGER NOT NULL,
+    FOREIGN KEY (form_id) REFERENCES forms(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_notification_channels_form_id ON notification_channels(form_id);
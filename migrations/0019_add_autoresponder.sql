@@ -0,0 +1,9 @@
+-- Migration number: 0019
+
+-- Confirmation email sent to the submitter: autoresponder_enabled is 1 when on; autoresponder_field
+-- names the field holding their address ('email' when NULL); the subject and body are templates
+-- where {{field}} is replaced with the submitted value, falling back to built-in text when NULL.
+ALTER TABLE form_settings ADD COLUMN autoresponder_enabled INTEGER;
+ALTER TABLE form_settings ADD COLUMN autoresponder_field TEXT;
+ALTER TABLE form_settings ADD COLUMN autoresponder_subject TEXT;
+ALTER TABLE form_settings ADD COLUMN autoresponder_body TEXT;
@@ -0,0 +1,7 @@
+-- Migration number: 0020
+
+-- Per-form notification email templates (see app/lib/templates.server.ts for the syntax).
+-- Each part falls back to the built-in email when NULL.
+ALTER TABLE form_settings ADD COLUMN notification_subject_template TEXT;
+ALTER TABLE form_settings ADD COLUMN notification_html_template TEXT;
+ALTER TABLE form_settings ADD COLUMN notification_text_template TEXT;
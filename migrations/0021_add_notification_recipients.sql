@@ -0,0 +1,10 @@
+-- Migration number: 0021
+
+-- Notification recipients, kept apart from the SMTP account in notification_email.
+-- Each list holds comma-separated addresses; when all three are NULL the account itself is emailed.
+-- notification_routes is a JSON list of rules (see app/lib/recipients.server.ts) whose
+-- recipients replace the lists above when a submission matches.
+ALTER TABLE form_settings ADD COLUMN notification_to TEXT;
+ALTER TABLE form_settings ADD COLUMN notification_cc TEXT;
+ALTER TABLE form_settings ADD COLUMN notification_bcc TEXT;
+ALTER TABLE form_settings ADD COLUMN notification_routes TEXT;
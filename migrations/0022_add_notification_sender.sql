@@ -0,0 +1,9 @@
+-- Migration number: 0022
+
+-- How notification emails are addressed from the form's side.
+-- notification_from_name is the display name and notification_from_email an optional
+-- From address other than the SMTP login; both fall back to the login when NULL.
+-- notification_reply_to_field names the submitted field used as Reply-To (default "email").
+ALTER TABLE form_settings ADD COLUMN notification_from_name TEXT;
+ALTER TABLE form_settings ADD COLUMN notification_from_email TEXT;
+ALTER TABLE form_settings ADD COLUMN notification_reply_to_field TEXT;
@@ -0,0 +1,7 @@
+-- Migration number: 0023
+
+-- SMTP passwords are stored AES-GCM encrypted with the SMTP_ENCRYPTION_KEY Worker secret.
+-- SQL can't encrypt, so the Worker moves existing passwords over from notification_email_password
+-- (see encryptLegacySmtpPasswords in app/lib/email.server.ts) and clears the plaintext as it goes.
+-- notification_email_password is no longer written.
+ALTER TABLE form_settings ADD COLUMN smtp_password_encrypted TEXT;
@@ -0,0 +1,18 @@
+-- Migration number: 0024
+
+-- How FormZero connects to the form's SMTP server.
+-- smtp_tls_mode is 'implicit' (TLS from the start, usually port 465), 'starttls' (upgrade required,
+-- usually 587) or 'none' (plain text, for trusted relays); smtp_secure stays 1 unless it's 'none'.
+-- smtp_auth is 0 for relays that accept mail without logging in, and smtp_ehlo_name overrides
+-- the hostname FormZero introduces itself with.
+ALTER TABLE form_settings ADD COLUMN smtp_tls_mode TEXT;
+ALTER TABLE form_settings ADD COLUMN smtp_auth INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE form_settings ADD COLUMN smtp_ehlo_name TEXT;
+
+UPDATE form_settings
+SET smtp_tls_mode = CASE
+  WHEN smtp_secure = 0 THEN 'none'
+  WHEN smtp_port = 465 THEN 'implicit'
+  ELSE 'starttls'
+END
+WHERE smtp_host IS NOT NULL;
@@ -0,0 +1,11 @@
+-- Migration number: 0025
+
+-- Which service sends the form's emails.
+-- email_provider is 'smtp' (the smtp_* columns), 'cloudflare' (the Worker's send_email binding), or an
+-- HTTP API: 'resend', 'postmark', 'mailgun' or 'sendgrid'. NULL means SMTP, as before providers existed.
+-- email_api_key_encrypted is the API provider's key, encrypted like smtp_password_encrypted.
+-- email_api_domain is the Mailgun sending domain, and email_api_region is 'us' or 'eu' for Mailgun and SendGrid.
+ALTER TABLE form_settings ADD COLUMN email_provider TEXT;
+ALTER TABLE form_settings ADD COLUMN email_api_key_encrypted TEXT;
+ALTER TABLE form_settings ADD COLUMN email_api_domain TEXT;
+ALTER TABLE form_settings ADD COLUMN email_api_region TEXT;
@@ -2,8 +2,8 @@
 -- Run this with: wrangler d1 execute openform-db --local --file=./seed.sql
 
 -- First, ensure we have a test form
-INSERT OR IGNORE INTO forms (id, name, created_at, updated_at)
-VALUES ('test-form-1', 'Test Contact Form', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+INSERT OR IGNORE INTO forms (id, name, public_key, created_at, updated_at)
+VALUES ('test-form-1', 'Test Contact Form', lower(hex(randomblob(12))), CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000);
 
 -- Day 1 (21 days ago) - 3 submissions
 INSERT INTO submissions (id, form_id, data, created_at) VALUES
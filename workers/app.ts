@@ -1,4 +1,8 @@
 import { createRequestHandler } from "react-router";
+import { runScheduledTasks } from "../app/lib/scheduled.server";
+import type { CaptchaVerifier } from "../app/lib/captcha.server";
+import { processWebhookBatch } from "../app/lib/webhooks.server";
+import type { WebhookMessage } from "../app/lib/webhooks.server";
 
 declare module "react-router" {
   export interface AppLoadContext {
@@ -6,6 +10,8 @@ declare module "react-router" {
       env: Env;
       ctx: ExecutionContext;
     };
+    // Overrides the CAPTCHA provider call, e.g. with a local stand-in in tests
+    captchaVerifier?: CaptchaVerifier;
   }
 }
 
@@ -20,4 +26,10 @@ export default {
       cloudflare: { env, ctx },
     });
   },
+  async scheduled(controller, env, ctx) {
+    ctx.waitUntil(runScheduledTasks(env, controller.scheduledTime));
+  },
+  async queue(batch, env) {
+    await processWebhookBatch(batch as MessageBatch<WebhookMessage>, env.DB);
+  },
 } satisfies ExportedHandler<Env>;